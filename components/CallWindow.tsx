@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, Video, VideoOff, PhoneOff, ShieldAlert } from 'lucide-react';
+import { User } from '../types';
+import { CallState, callService } from '../services/callService';
+import Avatar from './Avatar';
+
+interface CallWindowProps {
+  call: CallState;
+  peer: User;
+  // The peer sent signals this session whose signature couldn't be checked
+  unverified?: boolean;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Attaches a stream to a <video>; srcObject can't be set through a prop
+const useStream = (stream: MediaStream | null) => {
+  const ref = useRef<HTMLVideoElement>(null);
+  useEffect(() => {
+    if (ref.current && ref.current.srcObject !== stream) {
+      ref.current.srcObject = stream;
+    }
+  }, [stream]);
+  return ref;
+};
+
+// Outgoing and answered calls; ringing incoming calls are shown by Dashboard's modal
+const CallWindow: React.FC<CallWindowProps> = ({ call, peer, unverified }) => {
+  const remoteRef = useStream(call.remoteStream);
+  const localRef = useStream(call.localStream);
+  const [now, setNow] = useState(Date.now());
+  const isVideo = call.media === 'video';
+  const showRemoteVideo = isVideo && call.phase === 'active' && !!call.remoteStream;
+
+  useEffect(() => {
+    if (call.phase !== 'active') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [call.phase]);
+
+  const statusText =
+    call.phase === 'outgoing' ? '正在呼叫…'
+    : call.phase === 'connecting' ? '正在连接…'
+    : formatDuration(Math.max(0, now - (call.connectedAt || now)));
+
+  const controlClass = (on: boolean) =>
+    `w-12 h-12 rounded-full flex items-center justify-center transition-colors ${
+      on ? 'bg-white text-slate-800' : 'bg-white/20 text-white hover:bg-white/30'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 flex flex-col items-center justify-between z-50 py-12 animate-in fade-in duration-200">
+      {/* The remote stream also carries the audio of voice calls, so the element is always there */}
+      <video
+        ref={remoteRef}
+        autoPlay
+        playsInline
+        className={showRemoteVideo ? 'absolute inset-0 w-full h-full object-cover' : 'hidden'}
+      />
+      {isVideo && (
+        <video
+          ref={localRef}
+          autoPlay
+          playsInline
+          muted
+          className={`absolute top-4 right-4 w-40 rounded-lg shadow-lg bg-slate-800 ${call.cameraOff ? 'invisible' : ''}`}
+        />
+      )}
+
+      <div className="relative flex flex-col items-center gap-3 text-white">
+        {!showRemoteVideo && <Avatar name={peer.username} src={peer.avatarUrl} size="xl" />}
+        <h3 className="text-xl font-semibold flex items-center gap-2">
+          {peer.username}
+          {unverified && <span title="签名未验证，可能并非对方本人"><ShieldAlert size={18} className="text-amber-400" /></span>}
+        </h3>
+        <p className="text-sm text-slate-300 tabular-nums">{statusText}</p>
+      </div>
+
+      <div className="relative flex items-center gap-6">
+        <button
+          onClick={() => callService.toggleMute()}
+          className={controlClass(call.muted)}
+          title={call.muted ? '取消静音' : '静音'}
+        >
+          {call.muted ? <MicOff size={22} /> : <Mic size={22} />}
+        </button>
+        {isVideo && (
+          <button
+            onClick={() => callService.toggleCamera()}
+            className={controlClass(call.cameraOff)}
+            title={call.cameraOff ? '打开摄像头' : '关闭摄像头'}
+          >
+            {call.cameraOff ? <VideoOff size={22} /> : <Video size={22} />}
+          </button>
+        )}
+        <button
+          onClick={() => callService.hangUp()}
+          className="w-14 h-14 rounded-full bg-red-600 hover:bg-red-700 text-white flex items-center justify-center transition-colors"
+          title="挂断"
+        >
+          <PhoneOff size={24} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CallWindow;
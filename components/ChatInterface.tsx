@@ -1,12 +1,22 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Image as ImageIcon, MoreVertical, Phone, Video, Trash2 } from 'lucide-react';
-import { Message, MessageType, MessageStatus, User } from '../types';
+import { Send, Image as ImageIcon, Paperclip, Mic, MoreVertical, Phone, Video, Trash2, Reply, X, Pencil, UserPlus, LogOut, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { Attachment, Message, MessageType, MessageStatus, User, Reaction, Conversation } from '../types';
 import { storageService } from '../services/storageService';
 import { socketService } from '../services/socketService';
-import MessageBubble from './MessageBubble';
+import { outboxService } from '../services/outboxService';
+import { messageEditService } from '../services/messageEditService';
+import { reactionService } from '../services/reactionService';
+import { keyChangeService } from '../services/keyChangeService';
+import { sealedMessageService } from '../services/sealedMessageService';
+import { attachmentService, FILE_TOO_LARGE } from '../services/attachmentService';
+import { voiceRecorder } from '../services/voiceRecorder';
+import { callService } from '../services/callService';
+import MessageBubble, { getMessagePreview } from './MessageBubble';
 import Avatar from './Avatar';
+import SafetyNumberModal from './SafetyNumberModal';
 import { logger } from '../services/logger';
+import { READ_RECEIPT_BATCH_MS, TYPING_EXPIRY_MS, TYPING_IDLE_MS, TYPING_THROTTLE_MS } from '../constants';
 
 interface ChatInterfaceProps {
   conversationId: string;
@@ -16,18 +26,54 @@ interface ChatInterfaceProps {
   onDeleteFriend?: (id: string) => void;
   jumpToMessageId?: string;
   highlightTerm?: string;
+  // Group chats: recipient is the group itself (id = group id), members are resolved through contacts
+  group?: Conversation;
+  contacts?: User[];
+  onLeaveGroup?: (groupId: string) => void;
+  // Safety number of this contact has been verified
+  verified?: boolean;
+  // This contact sent something this session whose signature couldn't be checked
+  unverified?: boolean;
+  onVerifiedChange?: () => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient, currentUser, onDeleteFriend, jumpToMessageId, highlightTerm }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient, currentUser, onDeleteFriend, jumpToMessageId, highlightTerm, group, contacts = [], onLeaveGroup, verified, unverified, onVerifiedChange }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isSending, setIsSending] = useState(false);
+  // Press-to-record: elapsed ms while the mic button is held, null otherwise
+  const [recordingElapsed, setRecordingElapsed] = useState<number | null>(null);
+  const recordPressedRef = useRef(false);
   const [showMenu, setShowMenu] = useState(false);
+  const [typingUserId, setTypingUserId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [showInvite, setShowInvite] = useState(false);
+  const [inviteIds, setInviteIds] = useState<string[]>([]);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  // The contact's safety number changed and the user hasn't acknowledged it yet
+  const [keyChanged, setKeyChanged] = useState(false);
+  const [sendBlocked, setSendBlocked] = useState(false);
+  const isGroup = group?.kind === 'group';
+  const members = group?.participantIds || [];
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messageRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const readReceiptTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Outgoing typing state: when "typing" was last sent (0 = not typing) and the idle timer that stops it
+  const typingSentAt = useRef(0);
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const typingExpiryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // A recording in progress is dropped when the chat closes
+  useEffect(() => {
+      return () => { voiceRecorder.cancel(); };
+  }, []);
 
   // Close menu on click outside
   useEffect(() => {
@@ -46,10 +92,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
       try {
         const msgs = await storageService.getMessages(conversationId);
         messageRefs.current = {};
+        setReplyingTo(null);
+        setEditingMessage(null);
         setMessages(msgs);
+        setReactions(await storageService.getReactions(conversationId));
         scrollToBottom();
         // Mark read
-        await storageService.markConversationRead(conversationId);
+        await markRead();
       } catch (error) {
         logger.error('Chat', 'Failed to load messages', error);
       }
@@ -59,35 +108,228 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
     // Subscribe to new messages
     const unsubscribe = socketService.onMessage((msg) => {
       if (msg.conversationId === conversationId) {
-        setMessages(prev => [...prev, msg]);
-        storageService.markConversationRead(conversationId);
+        setMessages(prev => [...prev, attachmentService.fromWireMessage(msg)]);
+        markRead();
         scrollToBottom();
       }
     });
 
+    // Receipts only count from someone in this chat, and only for our own messages
+    const isPeer = (userId: string) => {
+        const liveGroup = socketService.getGroup(conversationId);
+        return liveGroup ? liveGroup.members.includes(userId) : userId === recipient.id;
+    };
+    const isOwn = (m: Message, id: string) => m.id === id && m.senderId === currentUser.id;
+
     // Subscribe to delivery receipts
-    const unsubscribeReceipt = socketService.onDeliveryReceipt(async (messageId) => {
-        setMessages(prev => prev.map(m => m.id === messageId ? { ...m, status: MessageStatus.DELIVERED } : m));
+    const unsubscribeReceipt = socketService.onDeliveryReceipt(async (messageId, from) => {
+        if (!isPeer(from)) return;
+        // A late delivery receipt must not downgrade a message that was already read
+        setMessages(prev => prev.map(m => isOwn(m, messageId) && m.status !== MessageStatus.READ ? { ...m, status: MessageStatus.DELIVERED } : m));
         
         // Update storage
         const allMsgs = await storageService.getMessages(conversationId);
-        const msg = allMsgs.find(m => m.id === messageId);
-        if (msg) {
+        const msg = allMsgs.find(m => isOwn(m, messageId));
+        if (msg && msg.status !== MessageStatus.READ) {
             msg.status = MessageStatus.DELIVERED;
             await storageService.saveMessage(msg);
         }
     });
 
+    // Read receipts (persisted by Dashboard, only reflected in the open view here)
+    const unsubscribeRead = socketService.onReadReceipt(({ conversationId: readConvoId, messageIds, from }) => {
+        if (readConvoId !== conversationId || !isPeer(from)) return;
+        const ids = new Set(messageIds);
+        setMessages(prev => prev.map(m => ids.has(m.id) && m.senderId === currentUser.id ? { ...m, status: MessageStatus.READ } : m));
+    });
+
+    // Outbox status changes (sent / failed / resent after reconnect)
+    const unsubscribeOutbox = outboxService.onStatusChange((updated) => {
+        if (updated.conversationId !== conversationId) return;
+        setMessages(prev => prev.map(m => m.id === updated.id ? { ...m, status: updated.status, encrypted: updated.encrypted } : m));
+    });
+
+    // Sealed messages decrypted once their key arrived
+    const unsubscribeSealed = sealedMessageService.onOpened((opened) => {
+        if (opened.conversationId !== conversationId) return;
+        setMessages(prev => prev.map(m => m.id === opened.id ? opened : m));
+    });
+
+    // Received images once their file is complete and verified
+    const unsubscribeAttachment = attachmentService.onComplete((completed) => {
+        if (completed.conversationId !== conversationId) return;
+        setMessages(prev => prev.map(m => m.id === completed.id ? { ...m, content: completed.content } : m));
+    });
+
+    // Edits / recalls (ours or theirs) after they have been persisted
+    const unsubscribeEdit = messageEditService.onChange((updated) => {
+        if (updated.conversationId !== conversationId) return;
+        setMessages(prev => prev.map(m => m.id === updated.id ? { ...updated, content: m.type === MessageType.IMAGE && !updated.recalledAt ? m.content : updated.content } : m));
+    });
+
+    const unsubscribeReactions = reactionService.onChange(async (changedConvoId) => {
+        if (changedConvoId !== conversationId) return;
+        setReactions(await storageService.getReactions(conversationId));
+    });
+
     return () => {
       unsubscribe();
+      unsubscribeReactions();
       unsubscribeReceipt();
+      unsubscribeRead();
+      unsubscribeOutbox();
+      unsubscribeEdit();
+      unsubscribeSealed();
+      unsubscribeAttachment();
+      if (readReceiptTimer.current) {
+        clearTimeout(readReceiptTimer.current);
+        readReceiptTimer.current = null;
+      }
+    };
+  }, [conversationId]);
+
+  // Key change warnings for direct chats
+  useEffect(() => {
+    const loadKeyChange = async () => {
+      if (isGroup) {
+        setKeyChanged(false);
+        setSendBlocked(false);
+        return;
+      }
+      setKeyChanged(await keyChangeService.hasPendingChange(recipient.id));
+      setSendBlocked(await keyChangeService.isSendingBlocked(recipient.id));
+    };
+    loadKeyChange();
+
+    const unsubscribeKeyChange = keyChangeService.onChange(async (contactId) => {
+      if (isGroup || contactId !== recipient.id) return;
+      await loadKeyChange();
+      // Pick up the notice that was just stored for this conversation
+      const notices = (await storageService.getMessages(conversationId)).filter(m => m.type === MessageType.SYSTEM);
+      setMessages(prev => [...prev, ...notices.filter(n => !prev.some(m => m.id === n.id))].sort((a, b) => a.timestamp - b.timestamp));
+      scrollToBottom();
+    });
+    return () => {
+      unsubscribeKeyChange();
+    };
+  }, [conversationId, recipient.id, isGroup]);
+
+  // Call log entries are written by callService when a call with this contact ends
+  useEffect(() => {
+    const unsubscribeCalls = callService.onLogged((entry) => {
+      if (entry.conversationId !== conversationId) return;
+      setMessages(prev => prev.some(m => m.id === entry.id) ? prev : [...prev, entry]);
+      scrollToBottom();
+    });
+    return () => {
+      unsubscribeCalls();
     };
   }, [conversationId]);
 
+  // Remote typing indicator; expires on its own in case the "stopped" signal never arrives
+  useEffect(() => {
+    const clearExpiry = () => {
+      if (typingExpiryTimer.current) {
+        clearTimeout(typingExpiryTimer.current);
+        typingExpiryTimer.current = null;
+      }
+    };
+
+    const unsubscribeTyping = socketService.onTyping(({ conversationId: typingConvoId, userId, isTyping }) => {
+      if (typingConvoId !== conversationId || userId === currentUser.id) return;
+      if (!isGroup && userId !== recipient.id) return;
+      clearExpiry();
+      setTypingUserId(isTyping ? userId : null);
+      if (isTyping) {
+        typingExpiryTimer.current = setTimeout(() => setTypingUserId(null), TYPING_EXPIRY_MS);
+      }
+    });
+
+    // Their message arriving means they are done typing it
+    const unsubscribeMessage = socketService.onMessage((msg) => {
+      if (msg.conversationId === conversationId && msg.senderId !== currentUser.id) {
+        setTypingUserId(prev => {
+          if (prev !== msg.senderId) return prev;
+          clearExpiry();
+          return null;
+        });
+      }
+    });
+
+    return () => {
+      unsubscribeTyping();
+      unsubscribeMessage();
+      clearExpiry();
+      setTypingUserId(null);
+      stopTyping();
+    };
+  }, [conversationId, recipient.id, isGroup]);
+
   useEffect(() => {
       scrollToTargetMessage(jumpToMessageId, highlightTerm);
   }, [jumpToMessageId, highlightTerm, messages, conversationId]);
 
+  // Mark the open conversation read; receipts for everything seen go out as one batch shortly after
+  const markRead = async () => {
+    await storageService.markConversationRead(conversationId);
+    if (readReceiptTimer.current) return;
+    readReceiptTimer.current = setTimeout(() => {
+      readReceiptTimer.current = null;
+      sendReadReceipts();
+    }, READ_RECEIPT_BATCH_MS);
+  };
+
+  const sendReadReceipts = async () => {
+    try {
+      const msgs = await storageService.getMessages(conversationId);
+      const unread = msgs.filter(m => m.senderId !== currentUser.id && m.status !== MessageStatus.READ && m.type !== MessageType.SYSTEM);
+      if (unread.length === 0) return;
+      const ids = unread.map(m => m.id);
+
+      const settings = await storageService.getSettings();
+      if (settings.readReceiptsEnabled !== false) {
+        // In groups each sender only hears about their own messages
+        const bySender = unread.reduce((acc, m) => {
+          (acc[m.senderId] = acc[m.senderId] || []).push(m.id);
+          return acc;
+        }, {} as Record<string, string[]>);
+        for (const [senderId, senderIds] of Object.entries(bySender)) {
+          // Offline: leave them unread locally so the receipt goes out the next time
+          if (!(await socketService.sendReadReceipts(conversationId, senderIds, senderId))) return;
+        }
+      }
+      await storageService.updateMessageStatus(ids, MessageStatus.READ);
+    } catch (e) {
+      logger.error('Chat', 'Failed to send read receipts', e);
+    }
+  };
+
+  // Called on every keystroke: "typing" goes out at most once per throttle window,
+  // and "stopped" follows once the input has been idle for a while
+  const notifyTyping = (value: string) => {
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+    const now = Date.now();
+    if (now - typingSentAt.current >= TYPING_THROTTLE_MS) {
+      typingSentAt.current = now;
+      socketService.sendTyping(conversationId, recipient.id, true);
+    }
+    if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+    typingIdleTimer.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const stopTyping = () => {
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+      typingIdleTimer.current = null;
+    }
+    if (typingSentAt.current === 0) return;
+    typingSentAt.current = 0;
+    socketService.sendTyping(conversationId, recipient.id, false);
+  };
+
   const scrollToBottom = () => {
     setTimeout(() => {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -113,8 +355,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
     }
   };
 
-  const handleSendMessage = async (type: MessageType = MessageType.TEXT, content: string = inputValue, attachmentData?: string) => {
+  const handleSendMessage = async (type: MessageType = MessageType.TEXT, content: string = inputValue, attachmentData?: string, attachment?: Attachment) => {
     if (!content.trim()) return;
+    if (sendBlocked) return;
+    if (editingMessage && type === MessageType.TEXT) {
+      await handleSubmitEdit(editingMessage, content);
+      return;
+    }
+    // attachmentData is the image data URL shown locally; the outbox sends the encrypted file from disk
 
     const newMessage: Message = {
       id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -124,12 +372,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
       type,
       status: MessageStatus.PENDING,
       timestamp: Date.now(),
+      ...(replyingTo ? { replyToId: replyingTo.id } : {}),
+      ...(attachment ? { attachment } : {}),
     };
 
     // Optimistic UI Update
     const displayMessage = attachmentData ? { ...newMessage, content: attachmentData } : newMessage;
     setMessages(prev => [...prev, displayMessage]);
     setInputValue('');
+    setReplyingTo(null);
+    stopTyping();
     scrollToBottom();
     setIsSending(true);
 
@@ -137,39 +389,47 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
       // 1. Save locally
       await storageService.saveMessage(newMessage);
 
-      // 2. Send via Socket
-      const socketMessage = attachmentData ? { ...newMessage, content: attachmentData } : newMessage;
-      await socketService.sendMessage(socketMessage, recipient.id);
-
-      // 3. Update Status to Sent
-      const sentMessage = { ...newMessage, status: MessageStatus.SENT };
-      setMessages(prev => prev.map(m => m.id === newMessage.id ? { ...displayMessage, status: MessageStatus.SENT } : m));
-      await storageService.saveMessage(sentMessage);
-
+      // 2. Hand over to the outbox: it sends now if connected, otherwise keeps it for the next reconnect.
+      // Status updates (SENT / FAILED) arrive through outboxService.onStatusChange.
+      await outboxService.send(newMessage, recipient.id);
     } catch (error) {
       logger.error('Chat', 'Send failed', error);
-      const failedMessage = { ...newMessage, status: MessageStatus.FAILED };
       setMessages(prev => prev.map(m => m.id === newMessage.id ? { ...displayMessage, status: MessageStatus.FAILED } : m));
-      await storageService.saveMessage(failedMessage);
     } finally {
       setIsSending(false);
     }
   };
 
+  const handleRetryMessage = async (message: Message) => {
+    // The bubble may hold the display data URL; retry with the stored form
+    const stored = (await storageService.getMessages(conversationId)).find(m => m.id === message.id) || message;
+    await outboxService.retry(stored, recipient.id);
+  };
+
+  const handleDiscardMessage = async (message: Message) => {
+    await outboxService.discard(message.id);
+    setMessages(prev => prev.filter(m => m.id !== message.id));
+  };
+
+  // Checked before reading anything; the server enforces the same limit on the chunks
+  const isWithinSizeLimit = (file: File) => {
+    const max = socketService.getMaxFileSize();
+    if (file.size <= max) return true;
+    alert(`文件不能超过 ${Math.floor(max / 1024 / 1024)} MB`);
+    return false;
+  };
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
+    if (file && isWithinSizeLimit(file)) {
       const reader = new FileReader();
       reader.onloadend = async () => {
         const base64 = reader.result as string;
         
         try {
-            let filename = base64;
-            if (window.electronAPI) {
-                const result = await window.electronAPI.invoke('file:save-image', base64);
-                if (result) filename = result;
-            }
-            handleSendMessage(MessageType.IMAGE, filename, base64);
+            // Encrypted with its own key and stored that way; content is the stored file
+            const { content, attachment } = await attachmentService.prepareDataUrl(base64);
+            handleSendMessage(MessageType.IMAGE, content, base64, attachment);
         } catch (error) {
             logger.error('Chat', 'Failed to save image', error);
             alert('图片发送失败');
@@ -183,6 +443,145 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
     }
   };
 
+  const handleDocumentSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (documentInputRef.current) {
+        documentInputRef.current.value = '';
+    }
+    if (!file || !isWithinSizeLimit(file)) return;
+    try {
+        // Read, encrypted and stored a chunk at a time
+        const { content, attachment } = await attachmentService.prepare(file, file.type, { name: file.name });
+        handleSendMessage(MessageType.FILE, content, undefined, attachment);
+    } catch (error) {
+        logger.error('Chat', 'Failed to save file', error);
+        alert(error instanceof Error && error.message === FILE_TOO_LARGE ? '文件过大' : '文件发送失败');
+    }
+  };
+
+  const startCall = async (media: 'audio' | 'video') => {
+    if (callService.getState()) {
+      alert('当前已有通话');
+      return;
+    }
+    try {
+      await callService.start(recipient.id, media);
+    } catch (error) {
+      logger.error('Chat', 'Failed to start call', error);
+      alert(media === 'video' ? '无法发起视频通话，请检查摄像头、麦克风和网络连接' : '无法发起语音通话，请检查麦克风和网络连接');
+    }
+  };
+
+  const startRecording = async () => {
+    if (sendBlocked || voiceRecorder.isRecording()) return;
+    recordPressedRef.current = true;
+    try {
+      voiceRecorder.onLimitReached = () => finishRecording(true);
+      await voiceRecorder.start();
+    } catch (error) {
+      logger.error('Chat', 'Failed to start recording', error);
+      recordPressedRef.current = false;
+      alert('无法使用麦克风');
+      return;
+    }
+    // Released while the microphone was still being opened
+    if (!recordPressedRef.current) {
+      await voiceRecorder.cancel();
+      return;
+    }
+    const startedAt = Date.now();
+    setRecordingElapsed(0);
+    const tick = setInterval(() => {
+      if (!voiceRecorder.isRecording()) {
+        clearInterval(tick);
+        return;
+      }
+      setRecordingElapsed(Date.now() - startedAt);
+    }, 200);
+  };
+
+  // Releasing the button sends; sliding off it first cancels
+  const finishRecording = async (send: boolean) => {
+    recordPressedRef.current = false;
+    if (!voiceRecorder.isRecording()) return;
+    setRecordingElapsed(null);
+    if (!send) {
+      await voiceRecorder.cancel();
+      return;
+    }
+    try {
+      const recording = await voiceRecorder.stop();
+      if (!recording) return;
+      const { content, attachment } = await attachmentService.prepare(new Blob([recording.bytes]), recording.mimeType, {
+        duration: recording.duration,
+        waveform: recording.waveform,
+      });
+      handleSendMessage(MessageType.AUDIO, content, undefined, attachment);
+    } catch (error) {
+      logger.error('Chat', 'Failed to send voice message', error);
+      alert('语音发送失败');
+    }
+  };
+
+  const handleStartEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setInputValue(message.content);
+    textareaRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setInputValue('');
+  };
+
+  const handleSubmitEdit = async (message: Message, content: string) => {
+    if (content === message.content) {
+      cancelEdit();
+      return;
+    }
+    try {
+      await messageEditService.edit(message, content, recipient.id);
+      cancelEdit();
+      stopTyping();
+    } catch (error) {
+      logger.error('Chat', 'Edit failed', error);
+      alert(socketService.isAuthenticated() ? '已超过可编辑时间' : '当前未连接，无法编辑消息');
+    }
+  };
+
+  const handleRecall = async (message: Message) => {
+    if (!window.confirm('确定要撤回这条消息吗？')) return;
+    try {
+      await messageEditService.recall(message, recipient.id);
+      if (editingMessage?.id === message.id) cancelEdit();
+    } catch (error) {
+      logger.error('Chat', 'Recall failed', error);
+      alert(socketService.isAuthenticated() ? '已超过可撤回时间' : '当前未连接，无法撤回消息');
+    }
+  };
+
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    try {
+      await reactionService.toggle(message, emoji, currentUser.id, recipient.id);
+    } catch (error) {
+      logger.error('Chat', 'Reaction failed', error);
+      alert('当前未连接，无法发送表情回应');
+    }
+  };
+
+  const getSenderName = (senderId: string) => {
+    if (senderId === currentUser.id) return '我';
+    if (!isGroup) return recipient.username;
+    return contacts.find(c => c.id === senderId)?.username || senderId;
+  };
+
+  const handleReply = (message: Message) => {
+    if (editingMessage) cancelEdit();
+    setReplyingTo(message);
+    textareaRef.current?.focus();
+  };
+
   // Group messages by date
   const groupedMessages = messages.reduce((acc, message) => {
     const date = new Date(message.timestamp).toLocaleDateString();
@@ -203,6 +602,30 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
       }
   }
 
+  const handleLeaveGroup = () => {
+      if(window.confirm(`确定要退出群聊 ${recipient.username} 吗？`)) {
+          if (onLeaveGroup) onLeaveGroup(recipient.id);
+      }
+  }
+
+  const handleInvite = async () => {
+      if (inviteIds.length === 0) return;
+      try {
+          await socketService.inviteToGroup(recipient.id, inviteIds);
+          setShowInvite(false);
+          setInviteIds([]);
+      } catch (error) {
+          logger.error('Chat', 'Invite failed', error);
+          alert('当前未连接，无法邀请成员');
+      }
+  }
+
+  const invitableContacts = contacts.filter(c => !members.includes(c.id));
+
+  const handleAcknowledgeKeyChange = async () => {
+      await keyChangeService.acknowledge(recipient.id);
+  }
+
   return (
     <div className="flex flex-col h-full bg-slate-50 dark:bg-slate-900 relative transition-colors duration-200">
       {/* Header */}
@@ -210,13 +633,25 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
         <div className="flex items-center gap-3 no-drag">
           <Avatar name={recipient.username} src={recipient.avatarUrl} status={recipient.status} />
           <div>
-            <h2 className="font-semibold text-slate-800 dark:text-white leading-tight">{recipient.username}</h2>
-            <p className="text-xs text-slate-500 dark:text-slate-400">{getStatusText(recipient.status)}</p>
+            <h2 className="font-semibold text-slate-800 dark:text-white leading-tight flex items-center gap-1">
+                {recipient.username}
+                {verified && !isGroup && <span title="安全码已验证"><ShieldCheck size={16} className="text-green-500" /></span>}
+                {unverified && !isGroup && <span title="收到过未验证签名的消息"><ShieldAlert size={16} className="text-amber-500" /></span>}
+            </h2>
+            {typingUserId ? (
+                <p className="text-xs text-indigo-500 dark:text-indigo-400">{isGroup ? `${getSenderName(typingUserId)} ` : ''}正在输入...</p>
+            ) : (
+                <p className="text-xs text-slate-500 dark:text-slate-400">{isGroup ? `${members.length} 位成员` : getStatusText(recipient.status)}</p>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-4 text-slate-400 dark:text-slate-500 relative no-drag">
-           <button className="hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"><Phone size={20} /></button>
-           <button className="hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"><Video size={20} /></button>
+           {!isGroup && (
+               <>
+                   <button onClick={() => startCall('audio')} className="hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors" title="语音通话"><Phone size={20} /></button>
+                   <button onClick={() => startCall('video')} className="hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors" title="视频通话"><Video size={20} /></button>
+               </>
+           )}
            <button 
                 className={`hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${showMenu ? 'text-indigo-600 dark:text-indigo-400' : ''}`}
                 onClick={() => setShowMenu(!showMenu)}
@@ -227,12 +662,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
             {/* Dropdown Menu */}
             {showMenu && (
                 <div ref={menuRef} className="absolute top-10 right-0 bg-white dark:bg-slate-800 shadow-xl border border-slate-100 dark:border-slate-700 rounded-lg w-40 py-1 z-50 animate-in fade-in zoom-in duration-100">
-                    <button 
-                        onClick={handleDelete}
-                        className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center gap-2"
-                    >
-                        <Trash2 size={16} /> 删除好友
-                    </button>
+                    {isGroup ? (
+                        <>
+                            <button 
+                                onClick={() => { setShowMenu(false); setShowInvite(true); }}
+                                className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2"
+                            >
+                                <UserPlus size={16} /> 邀请成员
+                            </button>
+                            <button 
+                                onClick={handleLeaveGroup}
+                                className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center gap-2"
+                            >
+                                <LogOut size={16} /> 退出群聊
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <button 
+                                onClick={() => { setShowMenu(false); setShowSafetyNumber(true); }}
+                                className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2"
+                            >
+                                <ShieldCheck size={16} /> 验证安全码
+                            </button>
+                            <button 
+                                onClick={handleDelete}
+                                className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center gap-2"
+                            >
+                                <Trash2 size={16} /> 删除好友
+                            </button>
+                        </>
+                    )}
                 </div>
             )}
         </div>
@@ -247,7 +707,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
                 {date}
               </span>
             </div>
-            {msgs.map((msg, idx) => (
+            {msgs.map((msg, idx) => {
+              const quoted = msg.replyToId ? messages.find(m => m.id === msg.replyToId) || null : undefined;
+              const modifiable = msg.senderId === currentUser.id && messageEditService.canModify(msg);
+              return (
               <div
                 key={msg.id}
                 id={`msg-${msg.id}`}
@@ -257,10 +720,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
                     message={msg} 
                     isMe={msg.senderId === currentUser.id} 
                     showAvatar={idx === 0 || msgs[idx-1].senderId !== msg.senderId}
+                    senderName={isGroup && msg.senderId !== currentUser.id ? getSenderName(msg.senderId) : undefined}
                     highlightTerm={highlightTerm}
+                    onRetry={() => handleRetryMessage(msg)}
+                    onDiscard={() => handleDiscardMessage(msg)}
+                    quotedMessage={quoted}
+                    quotedAuthor={quoted ? getSenderName(quoted.senderId) : undefined}
+                    onReply={() => handleReply(msg)}
+                    onEdit={modifiable && msg.type === MessageType.TEXT ? () => handleStartEdit(msg) : undefined}
+                    onRecall={modifiable ? () => handleRecall(msg) : undefined}
+                    reactions={reactions.filter(r => r.messageId === msg.id)}
+                    currentUserId={currentUser.id}
+                    onToggleReaction={(emoji) => handleToggleReaction(msg, emoji)}
+                    onQuoteClick={() => scrollToTargetMessage(msg.replyToId)}
                   />
               </div>
-            ))}
+              );
+            })}
           </div>
         ))}
         <div ref={messagesEndRef} />
@@ -268,9 +744,44 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
 
       {/* Input */}
       <div className="p-4 bg-white dark:bg-slate-800 border-t border-slate-200 dark:border-slate-700 transition-colors duration-200">
+        {keyChanged && (
+            <div className="flex items-center gap-2 mb-2 px-3 py-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-md text-xs text-amber-800 dark:text-amber-300">
+                <ShieldAlert size={14} className="flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                    {recipient.username} 的安全码已更改{sendBlocked ? '，确认前无法发送消息' : ''}。
+                </div>
+                <button onClick={() => setShowSafetyNumber(true)} className="font-medium hover:underline">查看安全码</button>
+                <button onClick={handleAcknowledgeKeyChange} className="font-medium hover:underline">确认</button>
+            </div>
+        )}
+        {editingMessage && (
+            <div className="flex items-center gap-2 mb-2 px-3 py-2 bg-slate-50 dark:bg-slate-900 border-l-2 border-amber-400 rounded-md text-xs text-slate-600 dark:text-slate-300">
+                <Pencil size={14} className="text-amber-500 flex-shrink-0" />
+                <div className="flex-1 min-w-0 truncate">
+                    <span className="font-medium">编辑消息: </span>
+                    {getMessagePreview(editingMessage)}
+                </div>
+                <button onClick={cancelEdit} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="取消编辑">
+                    <X size={14} />
+                </button>
+            </div>
+        )}
+        {replyingTo && (
+            <div className="flex items-center gap-2 mb-2 px-3 py-2 bg-slate-50 dark:bg-slate-900 border-l-2 border-indigo-400 rounded-md text-xs text-slate-600 dark:text-slate-300">
+                <Reply size={14} className="text-indigo-500 flex-shrink-0" />
+                <div className="flex-1 min-w-0 truncate">
+                    <span className="font-medium">回复 {getSenderName(replyingTo.senderId)}: </span>
+                    {getMessagePreview(replyingTo)}
+                </div>
+                <button onClick={() => setReplyingTo(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="取消回复">
+                    <X size={14} />
+                </button>
+            </div>
+        )}
         <div className="flex items-end gap-2 bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-2xl p-2 focus-within:ring-2 focus-within:ring-indigo-100 dark:focus-within:ring-indigo-900 focus-within:border-indigo-400 transition-all">
             <button 
                 onClick={() => fileInputRef.current?.click()}
+                disabled={sendBlocked}
                 className="p-2 text-slate-400 dark:text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
             >
                 <ImageIcon size={20} />
@@ -282,31 +793,116 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversationId, recipient
                 accept="image/*" 
                 onChange={handleFileSelect}
             />
+            <button
+                onClick={() => documentInputRef.current?.click()}
+                disabled={sendBlocked}
+                className="p-2 text-slate-400 dark:text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                title="发送文件"
+            >
+                <Paperclip size={20} />
+            </button>
+            <input
+                type="file"
+                ref={documentInputRef}
+                className="hidden"
+                onChange={handleDocumentSelect}
+            />
             
+            {recordingElapsed !== null && (
+                <div className="flex-1 flex items-center gap-2 py-2 text-sm text-red-500">
+                    <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                    录音中 {Math.floor(recordingElapsed / 1000)}s，松开发送，移开取消
+                </div>
+            )}
             <textarea
+                ref={textareaRef}
                 value={inputValue}
-                onChange={(e) => setInputValue(e.target.value)}
+                onChange={(e) => {
+                    setInputValue(e.target.value);
+                    notifyTyping(e.target.value);
+                }}
                 onKeyDown={(e) => {
                     if (e.key === 'Enter' && !e.shiftKey) {
                         e.preventDefault();
                         handleSendMessage();
+                    } else if (e.key === 'Escape' && editingMessage) {
+                        cancelEdit();
+                    } else if (e.key === 'Escape' && replyingTo) {
+                        setReplyingTo(null);
                     }
                 }}
-                placeholder="输入消息..."
-                className="flex-1 bg-transparent border-none focus:ring-0 resize-none max-h-32 min-h-[24px] py-2 text-sm text-slate-800 dark:text-slate-200 placeholder-slate-400 dark:placeholder-slate-500"
+                placeholder={sendBlocked ? '请先确认安全码变更' : '输入消息...'}
+                disabled={sendBlocked}
+                className={`${recordingElapsed !== null ? 'hidden' : 'flex-1'} bg-transparent border-none focus:ring-0 resize-none max-h-32 min-h-[24px] py-2 text-sm text-slate-800 dark:text-slate-200 placeholder-slate-400 dark:placeholder-slate-500`}
                 rows={1}
                 style={{ height: 'auto', overflow: 'hidden' }}
             />
             
+            <button
+                onPointerDown={startRecording}
+                onPointerUp={() => finishRecording(true)}
+                onPointerLeave={() => finishRecording(false)}
+                disabled={sendBlocked}
+                className={`p-2 rounded-xl transition-colors select-none touch-none ${
+                    recordingElapsed !== null
+                        ? 'bg-red-500 text-white'
+                        : 'text-slate-400 dark:text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400'
+                }`}
+                title="按住录音"
+            >
+                <Mic size={18} />
+            </button>
+
             <button 
                 onClick={() => handleSendMessage()}
-                disabled={!inputValue.trim() && !isSending}
+                disabled={(!inputValue.trim() && !isSending) || sendBlocked}
                 className="p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
                 <Send size={18} />
             </button>
         </div>
       </div>
+
+      {showSafetyNumber && (
+        <SafetyNumberModal
+          contact={recipient}
+          onClose={() => setShowSafetyNumber(false)}
+          onVerifiedChange={() => onVerifiedChange && onVerifiedChange()}
+        />
+      )}
+
+      {/* Invite Members Modal */}
+      {showInvite && (
+        <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-sm p-6 transition-colors">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-slate-800 dark:text-white">邀请成员</h3>
+              <button onClick={() => { setShowInvite(false); setInviteIds([]); }} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"><X size={20}/></button>
+            </div>
+            <div className="max-h-60 overflow-y-auto space-y-1 mb-4">
+              {invitableContacts.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-4">没有可邀请的好友</p>
+              ) : invitableContacts.map(c => (
+                <label key={c.id} className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={inviteIds.includes(c.id)}
+                    onChange={(e) => setInviteIds(prev => e.target.checked ? [...prev, c.id] : prev.filter(id => id !== c.id))}
+                  />
+                  <span className="text-sm text-slate-700 dark:text-slate-200">{c.username}</span>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleInvite}
+              disabled={inviteIds.length === 0}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-2 rounded-lg font-medium disabled:opacity-50"
+            >
+              邀请
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,51 +1,196 @@
 
 import React, { useState, useEffect } from 'react';
-import { Message, MessageType, MessageStatus } from '../types';
-import { Check, CheckCheck, Clock, AlertCircle } from 'lucide-react';
+import { Message, MessageType, MessageStatus, Reaction } from '../types';
+import { ATTACHMENT_RECEIVE_TIMEOUT_MS, MEDIA_PROTOCOL, REACTION_EMOJIS } from '../constants';
+import { attachmentService, AttachmentProgress } from '../services/attachmentService';
+import VoicePlayer from './VoicePlayer';
+import { Check, CheckCheck, Clock, AlertCircle, RotateCcw, Trash2, Eye, Reply, Pencil, Undo2, SmilePlus, Lock, Unlock, KeyRound, ShieldAlert, FileText, Download, ExternalLink, Phone, PhoneMissed, Video } from 'lucide-react';
 
 interface MessageBubbleProps {
   message: Message;
   isMe: boolean;
   showAvatar?: boolean;
   highlightTerm?: string;
+  onRetry?: () => void;
+  onDiscard?: () => void;
+  // Quoted message for replies: null when it no longer exists locally
+  quotedMessage?: Message | null;
+  quotedAuthor?: string;
+  onReply?: () => void;
+  onQuoteClick?: () => void;
+  // Only passed while the message can still be edited / recalled
+  onEdit?: () => void;
+  onRecall?: () => void;
+  reactions?: Reaction[];
+  currentUserId?: string;
+  onToggleReaction?: (emoji: string) => void;
+  // Group chats label each run of messages from another member
+  senderName?: string;
 }
 
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// The main process finds the key through the message, so it never shows up in the URL
+const getMediaProtocolUrl = (message: Message) => {
+  const url = `${MEDIA_PROTOCOL}://media/${encodeURIComponent(message.content)}`;
+  return message.attachment ? `${url}?message=${encodeURIComponent(message.id)}` : url;
+};
+
 const formatTime = (ts: number) => {
   return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 };
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isMe, showAvatar, highlightTerm }) => {
-  const [imageUrl, setImageUrl] = useState<string>(
-      message.type === MessageType.IMAGE && message.content.startsWith('data:') 
+// Short one-line summary of a message for quote blocks and the reply preview
+export const getMessagePreview = (message: Message) => {
+  if (message.recalledAt) return '消息已撤回';
+  if (message.sealed) return '[加密消息]';
+  if (message.type === MessageType.IMAGE) return '[图片]';
+  if (message.type === MessageType.FILE) return `[文件] ${message.attachment?.name || ''}`;
+  if (message.type === MessageType.AUDIO) return '[语音]';
+  return message.content.length > 60 ? `${message.content.slice(0, 60)}…` : message.content;
+};
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isMe, showAvatar, highlightTerm, onRetry, onDiscard, quotedMessage, quotedAuthor, onReply, onQuoteClick, onEdit, onRecall, reactions, currentUserId, onToggleReaction, senderName }) => {
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+  // Images and voice messages are shown inline, so their file is loaded up front
+  const isInlineMedia = message.type === MessageType.IMAGE || message.type === MessageType.AUDIO;
+  const [mediaUrl, setMediaUrl] = useState<string>(
+      isInlineMedia && message.content.startsWith('data:') 
       ? message.content 
       : ''
   );
 
+  const attachmentId = message.attachment?.id;
+  const [progress, setProgress] = useState<AttachmentProgress | undefined>(
+      attachmentId ? attachmentService.getProgress(attachmentId) : undefined
+  );
+
+  useEffect(() => {
+      if (!attachmentId) return;
+      const unsubscribe = attachmentService.onProgress((p) => {
+          if (p.attachmentId === attachmentId) setProgress(p);
+      });
+      return () => { unsubscribe(); };
+  }, [attachmentId]);
+
   useEffect(() => {
-      if (message.type === MessageType.IMAGE && !message.content.startsWith('data:')) {
-          // It's a filename, load it
-          if (window.electronAPI) {
-              window.electronAPI.invoke('file:read-image', message.content)
+      // Still ciphertext; nothing to load until it has been opened
+      if (message.sealed) return;
+      // Encrypted file still on its way
+      if (isInlineMedia && !message.content) return;
+      if (isInlineMedia && !message.content.startsWith('data:')) {
+          // It's a filename. Images are streamed by the main process through qchat-media://
+          // (decrypted there when it's an attachment); voice messages are small and still come
+          // over IPC as a data URL.
+          if (window.electronAPI && message.type === MessageType.IMAGE) {
+              setMediaUrl(getMediaProtocolUrl(message));
+          } else if (window.electronAPI) {
+              const request = message.attachment
+                  ? { filename: message.content, attachment: message.attachment }
+                  : message.content;
+              window.electronAPI.invoke('file:read-image', request)
                   .then(base64 => {
-                      if (base64) setImageUrl(base64);
+                      if (base64) setMediaUrl(base64);
                   })
-                  .catch(err => console.error('Failed to load image', err));
+                  .catch(err => console.error('Failed to load media', err));
           }
-      } else if (message.type === MessageType.IMAGE) {
-          setImageUrl(message.content);
+      } else if (isInlineMedia) {
+          setMediaUrl(message.content);
+      }
+  }, [message.content, message.type, message.sealed, message.attachment, isInlineMedia]);
+
+  // `label` names what is being received (图片 / 文件 / 语音)
+  const renderReceiveState = (label: string) => {
+      if (progress && progress.failed) {
+          return <span className="text-xs text-red-500">{label}接收失败</span>;
+      }
+      // Partly received files don't survive a restart
+      const expired = Date.now() - message.timestamp > ATTACHMENT_RECEIVE_TIMEOUT_MS;
+      if (attachmentId && expired && !attachmentService.isReceiving(attachmentId)) {
+          return <span className="text-xs text-slate-500">{label}未能接收</span>;
+      }
+      if (progress && progress.direction === 'download' && progress.total > 0) {
+          return (
+              <div className="w-32 flex flex-col items-center gap-1">
+                  <span className="text-xs text-slate-500">接收中 {Math.round((progress.done / progress.total) * 100)}%</span>
+                  <div className="w-full h-1 bg-slate-300 dark:bg-slate-600 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                  </div>
+              </div>
+          );
       }
-  }, [message.content, message.type]);
+      return <span className="text-xs text-slate-500">加载中...</span>;
+  };
+
+  const renderUploadBar = (position: string) => {
+      if (!isMe || !progress || progress.direction !== 'upload' || progress.done >= progress.total) return null;
+      return (
+          <div className={`absolute ${position} h-1 bg-black/30 rounded-full overflow-hidden`}>
+              <div className="h-full bg-white" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+          </div>
+      );
+  };
+
+  // Electron decrypts the file into place (false: the user declined to run a program); the
+  // browser build already holds it as a data URL
+  const handleExport = async (open: boolean) => {
+      if (!message.attachment) return;
+      if (!window.electronAPI) {
+          const link = document.createElement('a');
+          link.href = message.content;
+          link.download = message.attachment.name || message.attachment.id;
+          link.click();
+          return;
+      }
+      const saved = await window.electronAPI.invoke('file:export', {
+          filename: message.content,
+          attachment: message.attachment,
+          open,
+      });
+      if (saved === null) alert(open ? '文件打开失败' : '文件保存失败');
+  };
   
   const getStatusIcon = () => {
     switch (message.status) {
       case MessageStatus.PENDING: return <Clock size={12} className="text-slate-400" />;
       case MessageStatus.SENT: return <Check size={12} className="text-slate-400" />;
       case MessageStatus.DELIVERED: return <CheckCheck size={12} className="text-blue-500" />;
+      case MessageStatus.READ: return <Eye size={12} className="text-emerald-500" aria-label="已读" />;
       case MessageStatus.FAILED: return <AlertCircle size={12} className="text-red-500" />;
+      case MessageStatus.PENDING_KEY: return <span title="等待对方的密钥"><KeyRound size={12} className="text-amber-500" /></span>;
       default: return null;
     }
   };
 
+  // Unset on messages stored before we tracked it
+  const getLockIcon = () => {
+    if (message.sealed) return <span title="尚未解密"><Lock size={10} className="text-amber-500" /></span>;
+    if (message.encrypted === undefined) return null;
+    return message.encrypted
+      ? <span title="端到端加密"><Lock size={10} className="text-slate-400 dark:text-slate-500" /></span>
+      : <span title="未加密"><Unlock size={10} className="text-amber-500" /></span>;
+  };
+
+  const renderQuote = () => {
+      if (!message.replyToId) return null;
+      const quoteClass = `mb-1 border-l-2 pl-2 text-xs rounded-sm ${
+          isMe && message.type !== MessageType.IMAGE ? 'border-indigo-300 text-indigo-100' : 'border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400'
+      }`;
+      if (!quotedMessage) {
+          return <div className={`${quoteClass} italic`}>原消息已删除</div>;
+      }
+      return (
+          <button onClick={onQuoteClick} className={`${quoteClass} block text-left w-full hover:opacity-80`} title="跳转到原消息">
+              {quotedAuthor && <span className="font-medium">{quotedAuthor}: </span>}
+              <span className="break-words">{getMessagePreview(quotedMessage)}</span>
+          </button>
+      );
+  };
+
   const renderText = (text: string) => {
       if (!highlightTerm) return <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">{text}</p>;
       const term = highlightTerm.trim();
@@ -61,6 +206,60 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isMe, showAvatar
       );
   };
 
+  if (message.type === MessageType.SYSTEM) {
+      return (
+        <div className="flex w-full mb-4 justify-center">
+          <span className="text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-3 py-1 rounded-full">
+            {message.content}
+          </span>
+        </div>
+      );
+  }
+
+  if (message.type === MessageType.CALL && message.call) {
+      const { media, outcome } = message.call;
+      const Icon = outcome === 'missed' ? PhoneMissed : media === 'video' ? Video : Phone;
+      return (
+        <div className="flex w-full mb-4 justify-center">
+          <span className={`text-xs flex items-center gap-1.5 px-3 py-1 rounded-full ${
+              outcome === 'missed'
+                ? 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20'
+                : 'text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800'
+          }`}>
+            <Icon size={14} />
+            {message.content}
+            <span className="text-slate-400 dark:text-slate-500">{formatTime(message.timestamp)}</span>
+          </span>
+        </div>
+      );
+  }
+
+  if (message.recalledAt) {
+      return (
+        <div className="flex w-full mb-4 justify-center">
+          <span className="text-xs italic text-slate-400 dark:text-slate-500">
+            {isMe ? '你撤回了一条消息' : '消息已撤回'}
+          </span>
+        </div>
+      );
+  }
+
+  // One chip per emoji, in order of first use
+  const reactionChips = (reactions || []).reduce((acc, r) => {
+      const chip = acc.find(c => c.emoji === r.emoji);
+      if (chip) {
+          chip.count++;
+          chip.mine = chip.mine || r.userId === currentUserId;
+      } else {
+          acc.push({ emoji: r.emoji, count: 1, mine: r.userId === currentUserId });
+      }
+      return acc;
+  }, [] as { emoji: string; count: number; mine: boolean }[]);
+
+  const editHistoryTitle = message.editHistory?.length
+      ? `编辑前:\n${message.editHistory.map(h => h.content).join('\n')}`
+      : undefined;
+
   return (
     <div className={`flex w-full mb-4 ${isMe ? 'justify-end' : 'justify-start'}`}>
       {!isMe && showAvatar && (
@@ -69,41 +268,188 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isMe, showAvatar
         </div>
       )}
       
-      <div className={`max-w-[70%] flex flex-col ${isMe ? 'items-end' : 'items-start'}`}>
+      <div className={`group max-w-[70%] flex flex-col ${isMe ? 'items-end' : 'items-start'}`}>
+        {senderName && showAvatar && (
+          <span className="text-xs text-slate-500 dark:text-slate-400 mb-1 px-1">{senderName}</span>
+        )}
         <div
           className={`relative px-4 py-2 shadow-sm ${
-            message.type === MessageType.IMAGE ? 'p-1 bg-transparent shadow-none' : ''
+            message.type === MessageType.IMAGE && !message.sealed ? 'p-1 bg-transparent shadow-none' : ''
           } ${
             isMe
               ? 'bg-indigo-600 text-white rounded-2xl rounded-tr-sm'
               : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-2xl rounded-tl-sm'
           }`}
         >
-          {message.type === MessageType.TEXT && renderText(message.content)}
+          {renderQuote()}
+          {message.sealed && (
+            <p className="flex items-center gap-1 text-sm italic opacity-80">
+              <Lock size={12} /> 加密消息，收到密钥后自动解密
+            </p>
+          )}
+          {!message.sealed && message.type === MessageType.TEXT && renderText(message.content)}
 
-          {message.type === MessageType.IMAGE && (
+          {!message.sealed && message.type === MessageType.IMAGE && (
             <div className="relative">
-                {imageUrl ? (
+                {mediaUrl ? (
                     <img 
-                        src={imageUrl} 
+                        src={mediaUrl} 
                         alt="Attachment" 
                         className="rounded-lg max-h-64 object-cover border border-slate-200 dark:border-slate-700"
                         loading="lazy"
                     />
                 ) : (
                     <div className="w-48 h-32 bg-slate-200 dark:bg-slate-700 rounded-lg flex items-center justify-center">
-                        <span className="text-xs text-slate-500">加载中...</span>
+                        {renderReceiveState('图片')}
                     </div>
                 )}
+                {renderUploadBar('bottom-2 left-2 right-2')}
+            </div>
+          )}
+
+          {!message.sealed && message.type === MessageType.AUDIO && (
+            <div className="relative min-w-[12rem]">
+                {mediaUrl ? (
+                    <VoicePlayer
+                        src={mediaUrl}
+                        duration={message.attachment?.duration || 0}
+                        waveform={message.attachment?.waveform || []}
+                        isMe={isMe}
+                    />
+                ) : (
+                    <div className="py-1">{renderReceiveState('语音')}</div>
+                )}
+            </div>
+          )}
+
+          {!message.sealed && message.type === MessageType.FILE && (
+            <div className="relative flex items-center gap-3 min-w-[12rem] pb-2">
+                <FileText size={28} className={`flex-shrink-0 ${isMe ? 'text-indigo-200' : 'text-slate-400'}`} />
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate" title={message.attachment?.name}>{message.attachment?.name || '文件'}</p>
+                    <p className={`text-xs ${isMe ? 'text-indigo-200' : 'text-slate-500'}`}>
+                        {message.attachment ? formatSize(message.attachment.size) : ''}
+                    </p>
+                    {!message.content && renderReceiveState('文件')}
+                </div>
+                {message.content && message.attachment && (
+                    <div className="flex gap-1">
+                        <button onClick={() => handleExport(true)} className="p-1 rounded hover:bg-black/10" title="打开">
+                            <ExternalLink size={16} />
+                        </button>
+                        <button onClick={() => handleExport(false)} className="p-1 rounded hover:bg-black/10" title="下载">
+                            <Download size={16} />
+                        </button>
+                    </div>
+                )}
+                {renderUploadBar('bottom-0 left-0 right-0')}
             </div>
           )}
         </div>
 
-        <div className="flex items-center space-x-1 mt-1 px-1">
+        {reactionChips.length > 0 && (
+          <div className={`flex flex-wrap gap-1 mt-1 ${isMe ? 'justify-end' : 'justify-start'}`}>
+            {reactionChips.map(chip => (
+              <button
+                key={chip.emoji}
+                onClick={() => onToggleReaction?.(chip.emoji)}
+                disabled={!onToggleReaction}
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full text-xs border transition-colors ${
+                  chip.mine
+                    ? 'bg-indigo-50 dark:bg-indigo-900/40 border-indigo-300 dark:border-indigo-700 text-indigo-700 dark:text-indigo-300'
+                    : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+                }`}
+              >
+                <span>{chip.emoji}</span>
+                <span className="text-[10px]">{chip.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="relative flex items-center space-x-1 mt-1 px-1">
           <span className="text-[10px] text-slate-400 dark:text-slate-500">
             {formatTime(message.timestamp)}
           </span>
+          {getLockIcon()}
+          {message.verified === false && (
+            <span title="签名未验证，可能并非对方本人发出"><ShieldAlert size={10} className="text-amber-500" /></span>
+          )}
+          {message.editedAt && (
+            <span className="text-[10px] text-slate-400 dark:text-slate-500" title={editHistoryTitle}>已编辑</span>
+          )}
           {isMe && getStatusIcon()}
+          {onReply && message.status !== MessageStatus.FAILED && (
+            <button
+              onClick={onReply}
+              className="flex items-center gap-0.5 pl-1 text-[10px] text-slate-400 hover:text-indigo-500 dark:hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="回复"
+            >
+              <Reply size={10} /> 回复
+            </button>
+          )}
+          {onToggleReaction && !message.sealed && (!isMe || (message.status !== MessageStatus.PENDING && message.status !== MessageStatus.PENDING_KEY && message.status !== MessageStatus.FAILED)) && (
+            <button
+              onClick={() => setShowReactionPicker(!showReactionPicker)}
+              className={`flex items-center pl-1 text-slate-400 hover:text-indigo-500 dark:hover:text-indigo-400 transition-opacity ${showReactionPicker ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+              title="添加表情回应"
+            >
+              <SmilePlus size={12} />
+            </button>
+          )}
+          {showReactionPicker && onToggleReaction && (
+            <div className={`absolute bottom-5 ${isMe ? 'right-0' : 'left-0'} z-20 flex gap-1 px-2 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full shadow-lg`}>
+              {REACTION_EMOJIS.map(emoji => (
+                <button
+                  key={emoji}
+                  onClick={() => { setShowReactionPicker(false); onToggleReaction(emoji); }}
+                  className="text-base hover:scale-125 transition-transform"
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+          {onEdit && (
+            <button
+              onClick={onEdit}
+              className="flex items-center gap-0.5 pl-1 text-[10px] text-slate-400 hover:text-indigo-500 dark:hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="编辑"
+            >
+              <Pencil size={10} /> 编辑
+            </button>
+          )}
+          {onRecall && (
+            <button
+              onClick={onRecall}
+              className="flex items-center gap-0.5 pl-1 text-[10px] text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="撤回"
+            >
+              <Undo2 size={10} /> 撤回
+            </button>
+          )}
+          {isMe && message.status === MessageStatus.FAILED && (onRetry || onDiscard) && (
+            <div className="flex items-center space-x-1 pl-1">
+              {onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="flex items-center gap-0.5 text-[10px] text-indigo-500 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
+                  title="重新发送"
+                >
+                  <RotateCcw size={10} /> 重试
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  onClick={onDiscard}
+                  className="flex items-center gap-0.5 text-[10px] text-slate-400 hover:text-red-500"
+                  title="删除此消息"
+                >
+                  <Trash2 size={10} /> 删除
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { User } from '../types';
+import { cryptoService } from '../services/cryptoService';
+import { storageService } from '../services/storageService';
+import { createQrMatrix } from '../services/qrCode';
+import { logger } from '../services/logger';
+
+interface SafetyNumberModalProps {
+  contact: User;
+  onClose: () => void;
+  onVerifiedChange?: (verified: boolean) => void;
+}
+
+// Quiet zone around the QR code, in modules
+const QR_MARGIN = 4;
+
+const QrCode: React.FC<{ text: string }> = ({ text }) => {
+  const path = useMemo(() => {
+    const matrix = createQrMatrix(text);
+    let d = '';
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) d += `M${x + QR_MARGIN},${y + QR_MARGIN}h1v1h-1z`;
+    }));
+    return { d, size: matrix.length + QR_MARGIN * 2 };
+  }, [text]);
+
+  return (
+    <svg viewBox={`0 0 ${path.size} ${path.size}`} className="w-44 h-44 bg-white rounded-lg" shapeRendering="crispEdges">
+      <path d={path.d} fill="#000" />
+    </svg>
+  );
+};
+
+const SafetyNumberModal: React.FC<SafetyNumberModalProps> = ({ contact, onClose, onVerifiedChange }) => {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [verified, setVerified] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const [number, verifiedContacts] = await Promise.all([
+          cryptoService.getSafetyNumber(contact.id),
+          storageService.getVerifiedContacts(),
+        ]);
+        if (cancelled) return;
+        setSafetyNumber(number);
+        setVerified(!!verifiedContacts[contact.id]);
+      } catch (e) {
+        logger.error('Chat', 'Failed to compute safety number', e);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [contact.id]);
+
+  const handleToggleVerified = async () => {
+    const next = !verified;
+    await storageService.setContactVerified(contact.id, next ? cryptoService.getPeerPublicKey(contact.id) : null);
+    setVerified(next);
+    if (onVerifiedChange) onVerifiedChange(next);
+  };
+
+  // 12 groups of 5 digits, 4 per line
+  const groups = safetyNumber ? safetyNumber.match(/\d{5}/g) || [] : [];
+
+  return (
+    <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-sm p-6 transition-colors">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white">验证安全码</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"><X size={20}/></button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">正在计算安全码...</p>
+        ) : !safetyNumber ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+            尚未获取到 {contact.username} 的公钥，请在对方上线后重试。
+          </p>
+        ) : (
+          <>
+            <div className="flex justify-center mb-4">
+              <QrCode text={safetyNumber} />
+            </div>
+            <div className="grid grid-cols-4 gap-x-3 gap-y-1 font-mono text-base text-center text-slate-700 dark:text-slate-200 mb-4">
+              {groups.map((g, i) => <span key={i}>{g}</span>)}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+              请与 {contact.username} 当面或通过其他可信渠道比对上面的数字（或扫描二维码）。一致即说明你们之间的加密未被中间人篡改。
+            </p>
+            <button
+              onClick={handleToggleVerified}
+              className={`w-full py-2 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${
+                verified
+                  ? 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                  : 'bg-indigo-600 hover:bg-indigo-700 text-white'
+              }`}
+            >
+              {verified ? <><ShieldAlert size={16} /> 取消验证</> : <><ShieldCheck size={16} /> 标记为已验证</>}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SafetyNumberModal;
@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import { Play, Pause } from 'lucide-react';
+
+interface VoicePlayerProps {
+  src: string;
+  duration: number; // ms, from the message: recorded webm often reports no length of its own
+  waveform: number[];
+  isMe: boolean;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const VoicePlayer: React.FC<VoicePlayerProps> = ({ src, duration, waveform, isMe }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  // Share of the recording already played, 0..1
+  const [position, setPosition] = useState(0);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(err => console.error('Failed to play voice message', err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const bars = waveform.length > 0 ? waveform : new Array(24).fill(0.3);
+
+  return (
+    <div className="flex items-center gap-2 py-1">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onTimeUpdate={(e) => duration > 0 && setPosition(Math.min(1, (e.currentTarget.currentTime * 1000) / duration))}
+        onEnded={() => { setPlaying(false); setPosition(0); }}
+      />
+      <button
+        onClick={togglePlay}
+        className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+          isMe ? 'bg-white/20 hover:bg-white/30' : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600'
+        }`}
+        title={playing ? '暂停' : '播放'}
+      >
+        {playing ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      <div className="flex items-center gap-[2px] h-8" aria-hidden="true">
+        {bars.map((level, i) => (
+          <span
+            key={i}
+            className={`w-[3px] rounded-full ${
+              i / bars.length < position
+                ? (isMe ? 'bg-white' : 'bg-indigo-500')
+                : (isMe ? 'bg-indigo-300' : 'bg-slate-300 dark:bg-slate-600')
+            }`}
+            style={{ height: `${Math.max(12, level * 100)}%` }}
+          />
+        ))}
+      </div>
+      <span className={`text-xs tabular-nums ${isMe ? 'text-indigo-100' : 'text-slate-500 dark:text-slate-400'}`}>
+        {formatDuration(duration)}
+      </span>
+    </div>
+  );
+};
+
+export default VoicePlayer;
@@ -28,5 +28,41 @@ export const INITIAL_CONTACTS: User[] = [
 
 // Simulation Constants
 export const SOCKET_RECONNECT_INTERVAL = 3000;
+export const SOCKET_RECONNECT_MAX_INTERVAL = 60000;
 export const SOCKET_HEARTBEAT_INTERVAL = 10000;
+export const CHAT_ACK_TIMEOUT = 10000;
+export const READ_RECEIPT_BATCH_MS = 500;
+// Incoming message ids remembered per sender; a frame whose id is among them is dropped
+export const SEEN_MESSAGE_WINDOW = 500;
+// Attachments go out in chunks of this size; sending pauses while the socket has more than
+// ATTACHMENT_MAX_BUFFERED bytes queued, and partly received files are dropped after the timeout
+export const ATTACHMENT_CHUNK_SIZE = 64 * 1024;
+export const ATTACHMENT_MAX_BUFFERED = 1024 * 1024;
+export const ATTACHMENT_RECEIVE_TIMEOUT_MS = 30 * 60 * 1000;
+// Files whose chunks are coming in before their message; chunks of any more are dropped
+export const ATTACHMENT_MAX_UNCLAIMED = 16;
+// Scheme the Electron main process serves stored images on (see electron/main.js)
+export const MEDIA_PROTOCOL = "qchat-media";
+// Chunks sent before waiting for the server's acks
+export const ATTACHMENT_UPLOAD_WINDOW = 8;
+// Largest file we send or accept; the server may announce a lower limit when we log in
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+// Voice messages: shorter presses are discarded, longer ones stop at the limit. The input
+// level is sampled while recording and condensed into the bars of the waveform.
+export const VOICE_MIN_DURATION_MS = 500;
+export const VOICE_MAX_DURATION_MS = 60 * 1000;
+export const VOICE_LEVEL_INTERVAL_MS = 100;
+export const VOICE_WAVEFORM_BARS = 40;
+// Calls: how long an unanswered call rings, and the STUN servers used to find a direct path
+export const CALL_RING_TIMEOUT_MS = 45 * 1000;
+export const CALL_ICE_SERVERS = [{ urls: "stun:stun.l.google.com:19302" }];
+// Typing indicator: resend "typing" at most this often, stop after this much idle time,
+// and hide the remote indicator if no refresh arrives in time
+export const TYPING_THROTTLE_MS = 3000;
+export const TYPING_IDLE_MS = 4000;
+export const TYPING_EXPIRY_MS = 6000;
+// How long after sending a message it can still be edited or recalled
+export const MESSAGE_EDIT_WINDOW_MS = 2 * 60 * 1000;
+// Emoji offered by the reaction picker (and the only ones accepted from peers)
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
 export const MOCK_NETWORK_LATENCY_MS = 600;
@@ -2,13 +2,14 @@ const path = require("path");
 const fs = require("fs");
 const { app } = require("electron");
 require("reflect-metadata");
-const { DataSource } = require("typeorm");
+const { DataSource, In } = require("typeorm");
 const {
   KvEntity,
   MessageEntity,
   ConversationEntity,
   ContactEntity,
   FriendRequestEntity,
+  ReactionEntity,
   SettingEntity,
 } = require("./entities");
 
@@ -89,6 +90,7 @@ class DbService {
         ConversationEntity,
         ContactEntity,
         FriendRequestEntity,
+        ReactionEntity,
         SettingEntity,
       ],
       synchronize: true,
@@ -210,6 +212,12 @@ class DbService {
     return await repo.find({ where: { conversationId }, order: { timestamp: "ASC" } });
   }
 
+  async getMessage(messageId) {
+    if (!this.userDataSource) return null;
+    const repo = this.userDataSource.getRepository(MessageEntity);
+    return await repo.findOne({ where: { id: messageId } });
+  }
+
   async getAllMessages() {
     if (!this.userDataSource) return [];
     const repo = this.userDataSource.getRepository(MessageEntity);
@@ -223,6 +231,22 @@ class DbService {
     return true;
   }
 
+  async deleteMessage(messageId) {
+    this.ensureUserDb();
+    const repo = this.userDataSource.getRepository(MessageEntity);
+    await repo.delete({ id: messageId });
+    return true;
+  }
+
+  // Status-only update (receipts); unlike upsertMessage it leaves the rest of the row alone
+  async updateMessageStatus(messageIds, status) {
+    this.ensureUserDb();
+    if (!messageIds || !messageIds.length) return true;
+    const repo = this.userDataSource.getRepository(MessageEntity);
+    await repo.update({ id: In(messageIds) }, { status });
+    return true;
+  }
+
   async replaceAllMessages(messages) {
     this.ensureUserDb();
     const repo = this.userDataSource.getRepository(MessageEntity);
@@ -233,6 +257,27 @@ class DbService {
     return true;
   }
 
+  // Reactions
+  async getReactionsByConversation(conversationId) {
+    if (!this.userDataSource) return [];
+    const repo = this.userDataSource.getRepository(ReactionEntity);
+    return await repo.find({ where: { conversationId }, order: { createdAt: "ASC" } });
+  }
+
+  async addReaction(reaction) {
+    this.ensureUserDb();
+    const repo = this.userDataSource.getRepository(ReactionEntity);
+    await repo.save(reaction);
+    return true;
+  }
+
+  async removeReaction({ messageId, userId, emoji }) {
+    this.ensureUserDb();
+    const repo = this.userDataSource.getRepository(ReactionEntity);
+    await repo.delete({ messageId, userId, emoji });
+    return true;
+  }
+
   // Conversations
   async getConversations() {
     if (!this.userDataSource) return [];
@@ -251,6 +296,9 @@ class DbService {
         unreadCount: c.unreadCount ?? 0,
         updatedAt: c.updatedAt ?? 0,
         lastMessageId: c.lastMessage?.id || c.lastMessageId || null,
+        kind: c.kind || "direct",
+        name: c.name ?? null,
+        participantIds: c.participantIds ?? null,
       }));
       await repo.save(normalized);
     }
@@ -271,14 +319,15 @@ class DbService {
     return true;
   }
 
-  // Clear chat data only (messages + conversations)
+  // Clear chat data only (messages + reactions + conversations)
   async clearUserChatsOnly() {
     if (!this.userDataSource) return;
     const msgRepo = this.userDataSource.getRepository(MessageEntity);
     const convoRepo = this.userDataSource.getRepository(ConversationEntity);
 
-    // 1) Remove all messages
+    // 1) Remove all messages and their reactions
     await msgRepo.clear();
+    await this.userDataSource.getRepository(ReactionEntity).clear();
 
     // 2) Preserve conversations so the user keeps their contact list, but reset chat state
     const convos = await convoRepo.find();
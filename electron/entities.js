@@ -20,6 +20,15 @@ const MessageEntity = new EntitySchema({
     type: { type: String },
     status: { type: String },
     timestamp: { type: 'integer' },
+    replyToId: { type: String, nullable: true },
+    editedAt: { type: 'integer', nullable: true },
+    editHistory: { type: 'simple-json', nullable: true },
+    recalledAt: { type: 'integer', nullable: true },
+    encrypted: { type: Boolean, nullable: true },
+    sealed: { type: Boolean, nullable: true },
+    verified: { type: Boolean, nullable: true },
+    attachment: { type: 'simple-json', nullable: true },
+    call: { type: 'simple-json', nullable: true },
   },
 });
 
@@ -32,6 +41,9 @@ const ConversationEntity = new EntitySchema({
     unreadCount: { type: 'integer', default: 0 },
     updatedAt: { type: 'integer', nullable: true },
     lastMessageId: { type: String, nullable: true },
+    kind: { type: String, default: 'direct' },
+    name: { type: String, nullable: true },
+    participantIds: { type: 'simple-json', nullable: true },
   },
 });
 
@@ -57,6 +69,20 @@ const FriendRequestEntity = new EntitySchema({
   },
 });
 
+// One row per (message, user, emoji); removing a reaction deletes the row
+const ReactionEntity = new EntitySchema({
+  name: 'Reaction',
+  tableName: 'reactions',
+  columns: {
+    messageId: { type: String, primary: true },
+    userId: { type: String, primary: true },
+    emoji: { type: String, primary: true },
+    conversationId: { type: String },
+    createdAt: { type: 'integer' },
+  },
+  indices: [{ name: 'IDX_REACTIONS_CONVERSATION', columns: ['conversationId'] }],
+});
+
 const SettingEntity = new EntitySchema({
   name: 'Setting',
   tableName: 'settings',
@@ -72,5 +98,6 @@ module.exports = {
   ConversationEntity,
   ContactEntity,
   FriendRequestEntity,
+  ReactionEntity,
   SettingEntity,
 };
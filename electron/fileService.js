@@ -3,6 +3,23 @@ const fs = require('fs');
 const path = require('path');
 const { app } = require('electron');
 const crypto = require('crypto');
+const { Readable } = require('stream');
+const { pipeline } = require('stream/promises');
+
+const TAG_LENGTH = 16;
+// Same as MAX_FILE_SIZE in constants.ts: larger images aren't served
+const MAX_MEDIA_SIZE = 100 * 1024 * 1024;
+// How many messages' images are remembered as having passed their digest check
+const VERIFIED_MEDIA_LIMIT = 256;
+// Chunks of a file being received that nobody came back for in this long are dropped
+const STALE_CHUNKS_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Extensions the OS runs (or installs) rather than opens in a viewer
+const EXECUTABLE_EXTENSIONS = new Set([
+  'exe', 'com', 'bat', 'cmd', 'msi', 'msp', 'scr', 'pif', 'cpl', 'msc', 'hta', 'jar', 'js', 'jse',
+  'vbs', 'vbe', 'wsf', 'wsh', 'ps1', 'psm1', 'reg', 'lnk', 'url', 'inf', 'sh', 'bash', 'command',
+  'app', 'pkg', 'dmg', 'desktop', 'appimage', 'run', 'deb', 'rpm', 'py', 'pl', 'rb',
+]);
 
 class FileService {
   constructor() {
@@ -13,37 +30,52 @@ class FileService {
     if (!fs.existsSync(this.imagesDir)) {
       fs.mkdirSync(this.imagesDir, { recursive: true });
     }
+    // message id -> "filename|digest" of an image checked in full, least recently served first
+    this.verifiedMedia = new Map();
+    this.discardStaleChunks();
   }
 
-  // Save Base64 image to disk and return filename
-  async saveImage(base64Data) {
-    try {
-      // Remove header if present (e.g., "data:image/png;base64,")
-      const matches = base64Data.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-      
-      if (!matches || matches.length !== 3) {
-        throw new Error('Invalid base64 string');
+  // A file being sent comes encrypted by the renderer, one chunk (Base64) at a time and in
+  // order, and is written to "<id>.enc.part" until finishUpload. Attachments are only ever
+  // stored in this form; the key stays with the message.
+  async appendUpload({ id, index, data }) {
+      if (!/^[a-f0-9]{32}$/.test(id) || !Number.isInteger(index) || index < 0) {
+          throw new Error('Invalid attachment chunk');
       }
+      const part = path.join(this.imagesDir, `${id}.enc.part`);
+      await fs.promises.writeFile(part, Buffer.from(data, 'base64'), { flag: index === 0 ? 'w' : 'a' });
+      return true;
+  }
 
-      const type = matches[1];
-      const buffer = Buffer.from(matches[2], 'base64');
-      
-      // Generate unique filename based on content hash
-      const hash = crypto.createHash('md5').update(buffer).digest('hex');
-      const extension = type.split('/')[1] || 'png';
-      const filename = `${hash}.${extension}`;
-      const filePath = path.join(this.imagesDir, filename);
-
-      // Write file if it doesn't exist
-      if (!fs.existsSync(filePath)) {
-        await fs.promises.writeFile(filePath, buffer);
+  // Puts the written file in place once every chunk decrypts and it has the stated size.
+  // Returns { filename, digest } for the descriptor, hashed here so the renderer never holds
+  // the whole file, or null; the part is gone either way.
+  async finishUpload(attachment) {
+      if (!attachment || !/^[a-f0-9]{32}$/.test(attachment.id)) return null;
+      const filename = `${attachment.id}.enc`;
+      const part = path.join(this.imagesDir, `${filename}.part`);
+      try {
+          const hash = crypto.createHash('sha256');
+          let size = 0;
+          for await (const plain of this.openChunks(part, attachment)) {
+              hash.update(plain);
+              size += plain.length;
+          }
+          if (size !== attachment.size) throw new Error('Attachment has the wrong size');
+          await fs.promises.rename(part, path.join(this.imagesDir, filename));
+          return { filename, digest: hash.digest('base64') };
+      } catch (error) {
+          console.error(`FileService: Failed to store attachment ${attachment.id}`, error);
+          await fs.promises.rm(part, { force: true });
+          return null;
       }
+  }
 
-      return filename; // Return relative path (filename only)
-    } catch (error) {
-      console.error('FileService: Failed to save image', error);
-      throw error;
-    }
+  async discardUpload(id) {
+      if (/^[a-f0-9]{32}$/.test(id)) {
+          await fs.promises.rm(path.join(this.imagesDir, `${id}.enc.part`), { force: true });
+      }
+      return true;
   }
 
   // Get full path for a filename
@@ -51,12 +83,24 @@ class FileService {
     return path.join(this.imagesDir, filename);
   }
   
-  // Read image as Base64 (for display)
-  async readImage(filename) {
+  // Read a voice message (or an image, for re-sending) as Base64 data URL; images on screen
+  // come through openMedia instead. Encrypted attachments come
+  // with their descriptor and are decrypted here; a bare filename is a plaintext image from
+  // older versions.
+  async readImage(request) {
+      const filename = typeof request === 'string' ? request : request && request.filename;
       try {
-          const filePath = path.join(this.imagesDir, filename);
-          if (!fs.existsSync(filePath)) return null;
-          
+          const filePath = this.resolveImage(filename);
+          if (!filePath || !fs.existsSync(filePath)) return null;
+
+          if (typeof request !== 'string') {
+              const { mimeType } = request.attachment;
+              if (!/^(image|audio)\/[A-Za-z0-9.+-]+$/.test(mimeType)) {
+                  throw new Error('Invalid attachment type');
+              }
+              const plain = await this.decryptAttachment(filePath, request.attachment);
+              return `data:${mimeType};base64,${plain.toString('base64')}`;
+          }
           const buffer = await fs.promises.readFile(filePath);
           const extension = path.extname(filename).slice(1);
           return `data:image/${extension};base64,${buffer.toString('base64')}`;
@@ -66,14 +110,276 @@ class FileService {
       }
   }
 
+  // Raw ciphertext of a stored attachment (Base64), for sending it again. `start`/`end`
+  // select one chunk, so a large upload never has to be read in one go.
+  async readAttachment({ filename, start, end }) {
+      let handle;
+      try {
+          const filePath = this.resolveImage(filename);
+          if (!filePath || !fs.existsSync(filePath)) return null;
+          handle = await fs.promises.open(filePath, 'r');
+          const buffer = Buffer.alloc(end - start);
+          const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+          return buffer.subarray(0, bytesRead).toString('base64');
+      } catch (error) {
+          console.error(`FileService: Failed to read attachment ${filename}`, error);
+          return null;
+      } finally {
+          if (handle) await handle.close();
+      }
+  }
+
+  // Decrypt a received file into `targetDir` under its original name (made unique) and
+  // return the full path. The plaintext goes to a ".part" file first and only takes its real
+  // name once the digest has matched.
+  async exportFile({ filename, attachment }, targetDir) {
+      const filePath = this.resolveImage(filename);
+      if (!filePath || !fs.existsSync(filePath)) {
+          throw new Error(`Attachment ${filename} is missing`);
+      }
+
+      const safeName = this.exportName(attachment);
+      const ext = path.extname(safeName);
+      const base = path.basename(safeName, ext);
+      await fs.promises.mkdir(targetDir, { recursive: true });
+      let target = path.join(targetDir, safeName);
+      for (let n = 1; fs.existsSync(target); n++) {
+          target = path.join(targetDir, `${base} (${n})${ext}`);
+      }
+      const part = `${target}.part`;
+      try {
+          await pipeline(
+              Readable.from(this.decryptChunks(filePath, attachment)),
+              fs.createWriteStream(part, { flags: 'wx' })
+          );
+          await fs.promises.rename(part, target);
+      } catch (error) {
+          await fs.promises.rm(part, { force: true });
+          throw error;
+      }
+      return target;
+  }
+
+  // Never trust the sender's name as a path: no separators, no "." / "..". Windows drops
+  // trailing dots and spaces, so "x.exe." would still run as "x.exe".
+  exportName(attachment) {
+      const safeName = String(attachment.name || '')
+          .replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')
+          .replace(/[. ]+$/, '')
+          .trim();
+      return safeName && !/^\.+$/.test(safeName) ? safeName : attachment.id;
+  }
+
+  isExecutable(attachment) {
+      const ext = path.extname(this.exportName(attachment)).slice(1).toLowerCase();
+      return EXECUTABLE_EXTENSIONS.has(ext);
+  }
+
+  // Chunks of a file being received are kept one file each in "<id>.parts", next to a "from"
+  // file naming the sender of the first one; chunks from anyone else are refused
+  chunksDir(id) {
+      return /^[a-f0-9]{32}$/.test(id) ? path.join(this.imagesDir, `${id}.parts`) : null;
+  }
+
+  async saveChunk({ id, index, from, data }) {
+      try {
+          const dir = this.chunksDir(id);
+          if (!dir || !Number.isInteger(index) || index < 0 || typeof from !== 'string') {
+              throw new Error('Invalid chunk');
+          }
+          await fs.promises.mkdir(dir, { recursive: true });
+          const senderFile = path.join(dir, 'from');
+          try {
+              await fs.promises.writeFile(senderFile, from, { flag: 'wx' });
+          } catch (error) {
+              if (error.code !== 'EEXIST') throw error;
+              if ((await fs.promises.readFile(senderFile, 'utf8')) !== from) {
+                  throw new Error(`Chunk of ${id} from another sender`);
+              }
+          }
+          await fs.promises.writeFile(path.join(dir, String(index)), Buffer.from(data, 'base64'));
+          return true;
+      } catch (error) {
+          console.error(`FileService: Failed to save chunk ${index} of ${id}`, error);
+          return false;
+      }
+  }
+
+  // { from, indices, bytes } for the chunks kept so far, or null when there are none
+  async listChunks(id) {
+      const dir = this.chunksDir(id);
+      if (!dir || !fs.existsSync(dir)) return null;
+      try {
+          const from = await fs.promises.readFile(path.join(dir, 'from'), 'utf8');
+          const indices = [];
+          let bytes = 0;
+          for (const name of await fs.promises.readdir(dir)) {
+              if (!/^\d+$/.test(name)) continue;
+              indices.push(Number(name));
+              bytes += (await fs.promises.stat(path.join(dir, name))).size;
+          }
+          return { from, indices, bytes };
+      } catch (error) {
+          console.error(`FileService: Failed to list chunks of ${id}`, error);
+          return null;
+      }
+  }
+
+  // Join the chunks into the stored file once they are all here. It is decrypted once,
+  // without keeping the plaintext, so it only takes its place when every chunk authenticates
+  // and the digest matches. Returns the filename, or null; the chunks are gone either way.
+  async finishAttachment(attachment) {
+      const dir = this.chunksDir(attachment && attachment.id);
+      if (!dir) return null;
+      const filename = `${attachment.id}.enc`;
+      const part = path.join(this.imagesDir, `${filename}.part`);
+      try {
+          await pipeline(
+              Readable.from(this.readChunks(dir, attachment.chunks)),
+              fs.createWriteStream(part)
+          );
+          await this.verifyAttachment(part, attachment);
+          await fs.promises.rename(part, path.join(this.imagesDir, filename));
+          return filename;
+      } catch (error) {
+          console.error(`FileService: Failed to finish attachment ${attachment.id}`, error);
+          await fs.promises.rm(part, { force: true });
+          return null;
+      } finally {
+          await fs.promises.rm(dir, { recursive: true, force: true });
+      }
+  }
+
+  async *readChunks(dir, count) {
+      for (let index = 0; index < count; index++) {
+          yield await fs.promises.readFile(path.join(dir, String(index)));
+      }
+  }
+
+  async discardChunks(id) {
+      const dir = this.chunksDir(id);
+      if (dir) await fs.promises.rm(dir, { recursive: true, force: true });
+      return true;
+  }
+
+  discardStaleChunks() {
+      try {
+          const cutoff = Date.now() - STALE_CHUNKS_MS;
+          for (const name of fs.readdirSync(this.imagesDir)) {
+              const dir = path.join(this.imagesDir, name);
+              // Chunk folders, and files a crash left half written
+              if (/\.parts?$/.test(name) && fs.statSync(dir).mtimeMs < cutoff) {
+                  fs.rmSync(dir, { recursive: true, force: true });
+              }
+          }
+      } catch (error) {
+          console.warn('FileService: Failed to drop stale chunks', error);
+      }
+  }
+
+  // Only plain names inside the images directory
+  resolveImage(filename) {
+      if (typeof filename !== 'string' || filename !== path.basename(filename) || /^\.*$/.test(filename)) {
+          return null;
+      }
+      return path.join(this.imagesDir, filename);
+  }
+
+  // Stream for the qchat-media:// protocol: { stream, mimeType }, or null when there is
+  // nothing to serve. The first time a message's image is served it is decrypted in full without
+  // keeping the plaintext, and throws on a digest mismatch, so nothing of a tampered image is
+  // rendered; after that it streams straight from disk.
+  async openMedia(filename, attachment, messageId) {
+      const filePath = this.resolveImage(filename);
+      if (!filePath || !fs.existsSync(filePath)) return null;
+      if (attachment) {
+          if (!/^image\/[A-Za-z0-9.+-]+$/.test(attachment.mimeType)) return null;
+          if (!(attachment.size <= MAX_MEDIA_SIZE)) return null;
+          const verified = `${filename}|${attachment.digest}`;
+          if (this.verifiedMedia.get(messageId) !== verified) {
+              await this.verifyAttachment(filePath, attachment);
+          }
+          this.verifiedMedia.delete(messageId);
+          this.verifiedMedia.set(messageId, verified);
+          if (this.verifiedMedia.size > VERIFIED_MEDIA_LIMIT) {
+              this.verifiedMedia.delete(this.verifiedMedia.keys().next().value);
+          }
+          return {
+              stream: Readable.from(this.decryptChunks(filePath, attachment)),
+              mimeType: attachment.mimeType,
+          };
+      }
+      // Plaintext images from older versions; anything encrypted needs its descriptor
+      const extension = path.extname(filename).slice(1);
+      if (!/^[A-Za-z0-9]+$/.test(extension) || extension === 'enc') return null;
+      return { stream: fs.createReadStream(filePath), mimeType: `image/${extension}` };
+  }
+
+  // Yields the plaintext one chunk at a time. Every chunk is authenticated on its own before it
+  // is handed out, but the digest is only checked after the last one: callers must not use the
+  // output before the generator has finished.
+  async *decryptChunks(filePath, attachment) {
+      const hash = crypto.createHash('sha256');
+      for await (const plain of this.openChunks(filePath, attachment)) {
+          hash.update(plain);
+          yield plain;
+      }
+      if (hash.digest('base64') !== attachment.digest) {
+          throw new Error('Attachment failed its integrity check');
+      }
+  }
+
+  // Decrypts the file without keeping the plaintext; throws unless every chunk authenticates
+  // and the digest and size match
+  async verifyAttachment(filePath, attachment) {
+      let size = 0;
+      for await (const plain of this.decryptChunks(filePath, attachment)) size += plain.length;
+      if (size !== attachment.size) throw new Error('Attachment has the wrong size');
+  }
+
+  // Each chunk decrypted and authenticated, without the digest check
+  async *openChunks(filePath, attachment) {
+      const stride = attachment.chunkSize + TAG_LENGTH;
+      const handle = await fs.promises.open(filePath, 'r');
+      try {
+          for (let index = 0; index < attachment.chunks; index++) {
+              const buffer = Buffer.alloc(stride);
+              const { bytesRead } = await handle.read(buffer, 0, stride, index * stride);
+              yield this.decryptChunk(buffer.subarray(0, bytesRead), attachment, index);
+          }
+      } finally {
+          await handle.close();
+      }
+  }
+
+  // The whole plaintext, for callers that need it in one piece; decryptChunks has already
+  // checked the digest when this returns
+  async decryptAttachment(filePath, attachment) {
+      const parts = [];
+      for await (const plain of this.decryptChunks(filePath, attachment)) parts.push(plain);
+      return Buffer.concat(parts);
+  }
+
+  // Same layout as the renderer writes: per chunk AES-256-GCM with the chunk index as IV
+  // suffix and "id|index|chunks" as additional data; the tag follows each chunk
+  decryptChunk(chunk, attachment, index) {
+      const iv = Buffer.alloc(12);
+      iv.writeUInt32BE(index, 8);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', Buffer.from(attachment.key, 'base64'), iv);
+      decipher.setAAD(Buffer.from(`${attachment.id}|${index}|${attachment.chunks}`));
+      decipher.setAuthTag(chunk.subarray(chunk.length - TAG_LENGTH));
+      return Buffer.concat([decipher.update(chunk.subarray(0, chunk.length - TAG_LENGTH)), decipher.final()]);
+  }
+
   // Delete specific files
   async deleteFiles(filenames) {
       try {
           if (!filenames || !Array.isArray(filenames)) return;
           
+          // Names come from message content, which peers control: nothing outside imagesDir
           for (const filename of filenames) {
-              const filePath = path.join(this.imagesDir, filename);
-              if (fs.existsSync(filePath)) {
+              const filePath = this.resolveImage(filename);
+              if (filePath && fs.existsSync(filePath)) {
                   await fs.promises.unlink(filePath);
               }
           }
@@ -90,7 +396,7 @@ class FileService {
           if (fs.existsSync(this.imagesDir)) {
               const files = await fs.promises.readdir(this.imagesDir);
               for (const file of files) {
-                  await fs.promises.unlink(path.join(this.imagesDir, file));
+                  await fs.promises.rm(path.join(this.imagesDir, file), { recursive: true, force: true });
               }
           }
           return true;
@@ -1,6 +1,8 @@
-const { app, BrowserWindow, ipcMain } = require("electron");
+const { app, BrowserWindow, dialog, ipcMain, protocol, shell } = require("electron");
+const fs = require("fs");
 const path = require("path");
 const dns = require("dns");
+const { Readable } = require("stream");
 const fileService = require("./fileService");
 
 // Allow overriding the Electron `userData` path for isolated client instances.
@@ -20,6 +22,13 @@ dbService = require("./dbService");
 // Global reference to prevent garbage collection
 let mainWindow;
 
+// Stored images are served to <img> tags as qchat-media://media/<filename>?message=<id>
+// instead of travelling over IPC as data URLs. Must be declared before the app is ready.
+const MEDIA_SCHEME = "qchat-media";
+protocol.registerSchemesAsPrivileged([
+  { scheme: MEDIA_SCHEME, privileges: { standard: true, secure: true, stream: true } },
+]);
+
 // 1. Native check for Dev environment
 const isDev = !app.isPackaged;
 
@@ -66,8 +75,55 @@ function createWindow() {
   }
 }
 
+// Attachments are looked up through their message, which holds the key: the key never has
+// to appear in a URL, and only files the current user's messages point to can be opened
+function registerMediaProtocol() {
+  protocol.handle(MEDIA_SCHEME, async (request) => {
+    try {
+      const url = new URL(request.url);
+      const filename = decodeURIComponent(url.pathname.slice(1));
+      const messageId = url.searchParams.get("message");
+      let attachment = null;
+      if (messageId) {
+        const message = await dbService.getMessage(messageId);
+        if (!message || message.content !== filename || !message.attachment) {
+          return new Response(null, { status: 404 });
+        }
+        attachment = message.attachment;
+      }
+      // Throws (500) when an attachment fails its integrity check
+      const media = await fileService.openMedia(filename, attachment, messageId);
+      if (!media) return new Response(null, { status: 404 });
+      return new Response(Readable.toWeb(media.stream), {
+        headers: { "Content-Type": media.mimeType },
+      });
+    } catch (error) {
+      console.error(`[Main] Failed to serve ${request.url}`, error);
+      return new Response(null, { status: 500 });
+    }
+  });
+}
+
+// Plaintext of files opened from a chat; the viewer may still hold a file while we run, so
+// the folder is emptied at startup (after a crash) and on quit rather than after each open
+const openedFilesDir = () => path.join(app.getPath("temp"), "qchat-files");
+
+function clearOpenedFiles() {
+  try {
+    fs.rmSync(openedFilesDir(), { recursive: true, force: true });
+  } catch (error) {
+    console.warn("[Main] Failed to clear opened files:", error);
+  }
+}
+
 // App Lifecycle
-app.whenReady().then(initialize);
+app.whenReady().then(() => {
+  clearOpenedFiles();
+  registerMediaProtocol();
+  initialize();
+});
+
+app.on("will-quit", clearOpenedFiles);
 
 app.on("activate", () => {
   if (BrowserWindow.getAllWindows().length === 0) {
@@ -147,6 +203,9 @@ ipcMain.handle("db:get", async (event, key) => {
       unreadCount: c.unreadCount ?? 0,
       updatedAt: c.updatedAt ?? 0,
       lastMessage: c.lastMessageId ? byId.get(c.lastMessageId) || null : null,
+      kind: c.kind || "direct",
+      name: c.name || undefined,
+      participantIds: c.participantIds || undefined,
     }));
   }
 
@@ -218,7 +277,7 @@ ipcMain.handle("db:clear", async () => {
         .filter(
           (m) =>
             m &&
-            m.type === "IMAGE" &&
+            ["IMAGE", "FILE", "AUDIO"].includes(m.type) &&
             m.content &&
             typeof m.content === "string" &&
             !m.content.startsWith("data:"),
@@ -249,6 +308,30 @@ ipcMain.handle("db:message-upsert", async (event, message) => {
   return true;
 });
 
+ipcMain.handle("db:message-delete", async (event, messageId) => {
+  await dbService.deleteMessage(messageId);
+  return true;
+});
+
+ipcMain.handle("db:reactions-by-conversation", async (event, conversationId) => {
+  return await dbService.getReactionsByConversation(conversationId);
+});
+
+ipcMain.handle("db:reaction-add", async (event, reaction) => {
+  await dbService.addReaction(reaction);
+  return true;
+});
+
+ipcMain.handle("db:reaction-remove", async (event, reaction) => {
+  await dbService.removeReaction(reaction);
+  return true;
+});
+
+ipcMain.handle("db:message-update-status", async (event, { messageIds, status }) => {
+  await dbService.updateMessageStatus(messageIds, status);
+  return true;
+});
+
 ipcMain.handle(
   "db:conversation-update-last",
   async (event, { conversationId, message, currentUserId }) => {
@@ -299,6 +382,23 @@ ipcMain.handle("db:conversation-create", async (event, { participantId, currentU
   return newId;
 });
 
+// Create or refresh a group conversation from the server's group record
+ipcMain.handle("db:conversation-save-group", async (event, group) => {
+  const convos = await dbService.getConversations();
+  const existing = convos.find((c) => c.id === group.id);
+  await dbService.upsertConversation({
+    id: group.id,
+    participantId: group.id,
+    unreadCount: existing ? existing.unreadCount : 0,
+    updatedAt: existing ? existing.updatedAt : group.createdAt,
+    lastMessageId: existing ? existing.lastMessageId : null,
+    kind: "group",
+    name: group.name,
+    participantIds: group.members,
+  });
+  return true;
+});
+
 ipcMain.handle("db:conversation-mark-read", async (event, conversationId) => {
   const convos = await dbService.getConversations();
   const existing = convos.find((c) => c.id === conversationId);
@@ -345,10 +445,74 @@ ipcMain.handle("net:resolve-dns", async (event, hostname) => {
 });
 
 // File System Handlers
-ipcMain.handle("file:save-image", async (event, base64Data) => {
-  return await fileService.saveImage(base64Data);
+// Outgoing attachments: the renderer encrypts a chunk at a time and they are appended here,
+// then put in place with the digest worked out on the way
+ipcMain.handle("file:append-upload", async (event, chunk) => {
+  return await fileService.appendUpload(chunk);
+});
+
+ipcMain.handle("file:finish-upload", async (event, attachment) => {
+  return await fileService.finishUpload(attachment);
+});
+
+ipcMain.handle("file:discard-upload", async (event, id) => {
+  return await fileService.discardUpload(id);
+});
+
+ipcMain.handle("file:read-image", async (event, request) => {
+  return await fileService.readImage(request);
+});
+
+ipcMain.handle("file:read-attachment", async (event, request) => {
+  return await fileService.readAttachment(request);
 });
 
-ipcMain.handle("file:read-image", async (event, filename) => {
-  return await fileService.readImage(filename);
+// Incoming attachments: each chunk is kept on disk as it arrives, and the file is assembled
+// and verified here once complete
+ipcMain.handle("file:save-chunk", async (event, chunk) => {
+  return await fileService.saveChunk(chunk);
+});
+
+ipcMain.handle("file:list-chunks", async (event, id) => {
+  return await fileService.listChunks(id);
+});
+
+ipcMain.handle("file:finish-attachment", async (event, attachment) => {
+  return await fileService.finishAttachment(attachment);
+});
+
+ipcMain.handle("file:discard-chunks", async (event, id) => {
+  return await fileService.discardChunks(id);
+});
+
+// Received files: "open" decrypts into a temp folder and opens it with the default app,
+// "download" saves it to Downloads and shows it in the file manager. Programs are only
+// opened after the user confirms; false means they didn't.
+ipcMain.handle("file:export", async (event, { filename, attachment, open }) => {
+  try {
+    if (open && fileService.isExecutable(attachment)) {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const { response } = await dialog.showMessageBox(window, {
+        type: "warning",
+        buttons: ["取消", "仍然打开"],
+        defaultId: 0,
+        cancelId: 0,
+        message: `“${fileService.exportName(attachment)}”是可执行文件`,
+        detail: "打开后它会在这台电脑上运行。只打开你信任的人发来的程序。",
+      });
+      if (response !== 1) return false;
+    }
+    const targetDir = open ? openedFilesDir() : app.getPath("downloads");
+    const target = await fileService.exportFile({ filename, attachment }, targetDir);
+    if (open) {
+      const error = await shell.openPath(target);
+      if (error) throw new Error(error);
+    } else {
+      shell.showItemInFolder(target);
+    }
+    return target;
+  } catch (error) {
+    console.error(`[Main] Failed to export ${filename}`, error);
+    return null;
+  }
 });
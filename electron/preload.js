@@ -7,9 +7,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
         'db:get', 'db:set', 'db:clear', 
         'app:quit', 'auth:login', 'auth:logout', 
         'net:resolve-dns',
-        'file:save-image', 'file:read-image',
-        'db:messages-by-conversation', 'db:message-upsert',
-        'db:conversation-update-last', 'db:conversation-create',
+        'file:append-upload', 'file:finish-upload', 'file:discard-upload',
+        'file:read-image', 'file:read-attachment', 'file:export',
+        'file:save-chunk', 'file:list-chunks', 'file:finish-attachment', 'file:discard-chunks',
+        'db:messages-by-conversation', 'db:message-upsert', 'db:message-delete',
+        'db:message-update-status',
+        'db:reactions-by-conversation', 'db:reaction-add', 'db:reaction-remove',
+        'db:conversation-update-last', 'db:conversation-create', 'db:conversation-save-group',
         'db:conversation-mark-read', 'db:convo-delete-by-participant',
         'db:friend-request-upsert', 'db:friend-request-remove-by-userId'
     ];
@@ -1,11 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
-import { Conversation, User, FriendRequest, MessageType } from '../types';
+import { Conversation, User, FriendRequest, MessageType, MessageStatus, Group } from '../types';
 import { storageService } from '../services/storageService';
-import { socketService } from '../services/socketService';
+import { socketService, ReconnectInfo } from '../services/socketService';
+import { messageEditService } from '../services/messageEditService';
+import { keyChangeService } from '../services/keyChangeService';
+import { sealedMessageService } from '../services/sealedMessageService';
+import { attachmentService } from '../services/attachmentService';
+import { callService, CallState } from '../services/callService';
 import ChatInterface from '../components/ChatInterface';
+import CallWindow from '../components/CallWindow';
 import Avatar from '../components/Avatar';
-import { Search, Settings, MessageSquare, LogOut, Wifi, WifiOff, Plus, UserPlus, X, Check, Edit2 } from 'lucide-react';
+import { Search, Settings, MessageSquare, LogOut, Wifi, WifiOff, Plus, UserPlus, Users, X, Check, Edit2, RefreshCw, ShieldCheck, ShieldAlert, Phone, PhoneOff, Video } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
 const Dashboard: React.FC = () => {
@@ -15,7 +21,12 @@ const Dashboard: React.FC = () => {
   const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [connectionState, setConnectionState] = useState(socketService.getState());
+  const [reconnectInfo, setReconnectInfo] = useState<ReconnectInfo | null>(socketService.getReconnectInfo());
+  const [now, setNow] = useState(Date.now());
   const [friendRequests, setFriendRequests] = useState<FriendRequest[]>([]);
+  const [verifiedContacts, setVerifiedContacts] = useState<Record<string, string>>({});
+  const [unverifiedSenders, setUnverifiedSenders] = useState<Set<string>>(new Set(socketService.getUnverifiedSenders()));
+  const [call, setCall] = useState<CallState | null>(callService.getState());
   const [showAddFriend, setShowAddFriend] = useState(false);
     const [editingName, setEditingName] = useState(false);
     const [tempName, setTempName] = useState('');
@@ -26,6 +37,10 @@ const Dashboard: React.FC = () => {
   
   // Add Friend Inputs
   const [newFriendId, setNewFriendId] = useState('');
+  // New Group Inputs
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupMemberIds, setNewGroupMemberIds] = useState<string[]>([]);
   
   const navigate = useNavigate();
 
@@ -56,12 +71,13 @@ const Dashboard: React.FC = () => {
     init();
 
     // Listeners that don't depend on UI state
-    const subSocket = socketService.onConnectionChange((state) => {
+    const subSocket = socketService.onConnectionChange((state, reconnect) => {
         setConnectionState(state);
+        setReconnectInfo(reconnect);
     });
 
     const subReq = socketService.onFriendRequest(async (req) => {
-        const request = req as { fromUser: User, timestamp: number };
+        const request = req as FriendRequest;
         await storageService.addFriendRequest(request);
         refreshData();
     });
@@ -94,6 +110,63 @@ const Dashboard: React.FC = () => {
         setOnlineUserIds(new Set(userIds));
     });
 
+    // Contacts that sent something this session we couldn't check the signature of
+    const subUnverified = socketService.onUnverifiedSender((userId) => {
+        setUnverifiedSenders(prev => prev.has(userId) ? prev : new Set(prev).add(userId));
+    });
+
+    // The server's group list is authoritative: mirror it into local group conversations
+    const subGroups = socketService.onGroupsChange((groups) => {
+        syncGroups(groups);
+    });
+    if (socketService.isAuthenticated()) {
+        syncGroups(socketService.getGroups());
+    }
+
+    // Edits / recalls can change the last-message preview in the list
+    const subEdit = messageEditService.onChange(() => {
+        refreshData();
+    });
+
+    // A changed safety number drops the verified badge and adds a notice to the conversation
+    const subKeyChange = keyChangeService.onChange(() => {
+        refreshData();
+    });
+
+    // Messages that arrived before their key was known, now decrypted
+    const subSealed = sealedMessageService.onOpened(() => {
+        refreshData();
+    });
+
+    // Calls can ring whichever chat is open; their log entries show up in the list
+    const subCall = callService.onStateChange((state) => {
+        setCall(state);
+    });
+    const subCallLog = callService.onLogged(() => {
+        refreshData();
+    });
+
+    // Persist read receipts here so they are kept even when that chat isn't open. A receipt only
+    // marks our own messages, in the conversation we share with whoever sent it.
+    const subRead = socketService.onReadReceipt(async ({ conversationId, messageIds, from }) => {
+        const me = await storageService.getCurrentUser();
+        const convo = (await storageService.getConversations()).find(c => c.id === conversationId);
+        const shared = convo && (convo.kind === 'group' ? !!convo.participantIds?.includes(from) : convo.participantId === from);
+        if (!me || !shared) return;
+        const ids = new Set(messageIds);
+        const ours = (await storageService.getMessages(conversationId)).filter(m => ids.has(m.id) && m.senderId === me.id);
+        await storageService.updateMessageStatus(ours.map(m => m.id), MessageStatus.READ);
+    });
+
+    // Silent token re-auth after a refresh/reconnect can fail (expired or revoked session)
+    const subAuth = socketService.onAuthResult((result) => {
+        if (!result.success) {
+            // Keys at rest are password protected; after a reload or restart they need the password again
+            alert(result.reason === 'KEYS_LOCKED' ? '本机密钥已加密，请重新输入密码登录。' : '登录已失效，请重新登录。');
+            handleLogout();
+        }
+    });
+
     return () => {
         subSocket();
         subReq();
@@ -101,6 +174,15 @@ const Dashboard: React.FC = () => {
         subForceLogout();
         subStatus();
         subOnlineList();
+        subUnverified();
+        subRead();
+        subEdit();
+        subKeyChange();
+        subSealed();
+        subCall();
+        subCallLog();
+        subGroups();
+        subAuth();
     };
   }, []); // Empty dependency array: runs only on mount
 
@@ -109,19 +191,24 @@ const Dashboard: React.FC = () => {
     const subMsg = socketService.onMessage(async (msg) => {
         let messageToSave = msg;
 
-        // If image and has base64 content, save to disk
-        if (msg.type === MessageType.IMAGE && msg.content.startsWith('data:')) {
-             try {
-                 if (window.electronAPI) {
-                     const filename = await window.electronAPI.invoke('file:save-image', msg.content);
-                     messageToSave = { ...msg, content: filename };
-                 }
-             } catch (e) {
-                 console.error('Failed to save incoming image', e);
-             }
+        // Images wait for their encrypted file; old-style data URLs are encrypted before saving
+        try {
+            messageToSave = await attachmentService.toStored(msg);
+        } catch (e) {
+            console.error('Failed to save incoming image', e);
+        }
+
+        // Group messages may arrive before the matching GROUP_UPDATE was mirrored locally
+        const group = socketService.getGroup(msg.conversationId);
+        if (group) {
+            await storageService.saveGroupConversation(group);
         }
 
         await storageService.saveMessage(messageToSave);
+        if (messageToSave.sealed) {
+            await sealedMessageService.track(messageToSave);
+        }
+        await attachmentService.track(messageToSave);
 
         // Send Delivery Receipt
         socketService.sendDeliveryReceipt(msg.id, msg.senderId);
@@ -161,12 +248,22 @@ const Dashboard: React.FC = () => {
     };
   }, [activeConversationId, conversations]);
 
+  // Tick once per second while a reconnect is pending so the countdown stays current
+  useEffect(() => {
+      if (!reconnectInfo) return;
+      setNow(Date.now());
+      const timer = setInterval(() => setNow(Date.now()), 1000);
+      return () => clearInterval(timer);
+  }, [reconnectInfo]);
+
   const refreshData = async () => {
       const storedConvos = await storageService.getConversations();
       const storedContacts = await storageService.getContacts();
       const storedRequests = await storageService.getFriendRequests();
+      const storedVerified = await storageService.getVerifiedContacts();
       
       setConversations(storedConvos);
+      setVerifiedContacts(storedVerified);
       setContacts(storedContacts);
       setFriendRequests(storedRequests);
             if (currentUser && !editingName) {
@@ -188,7 +285,7 @@ const Dashboard: React.FC = () => {
           }
 
           const matches = await Promise.all(conversations.map(async (convo) => {
-              const contact = getContact(convo.participantId);
+              const contact = getConversationPeer(convo);
               const contactId = contact.id.toLowerCase();
               const contactName = (contact.username || '').toLowerCase();
 
@@ -234,9 +331,40 @@ const Dashboard: React.FC = () => {
       };
   };
 
-  const handleLogout = () => {
-      socketService.disconnect();
-      storageService.logout(); 
+  // Groups are shown through a pseudo contact carrying the group's id and name
+  const getConversationPeer = (convo: Conversation): User => {
+      if (convo.kind === 'group') {
+          return { id: convo.id, username: convo.name || '群聊', status: 'online' } as User;
+      }
+      return getContact(convo.participantId);
+  };
+
+  const syncGroups = async (groups: Group[]) => {
+      for (const group of groups) {
+          await storageService.saveGroupConversation(group);
+      }
+      const ids = new Set(groups.map(g => g.id));
+      const stale = (await storageService.getConversations()).filter(c => c.kind === 'group' && !ids.has(c.id));
+      for (const convo of stale) {
+          await storageService.removeConversationByParticipantId(convo.participantId);
+      }
+      setActiveConversationId(prev => prev && stale.some(c => c.id === prev) ? null : prev);
+      refreshData();
+  };
+
+  const handleAcceptCall = async () => {
+      try {
+          await callService.accept();
+      } catch (e) {
+          console.error('Failed to answer call', e);
+          alert('无法接听通话，请检查麦克风和摄像头');
+      }
+  };
+
+  const handleLogout = async () => {
+      await callService.hangUp();
+      await socketService.logout();
+      await storageService.logout();
       navigate('/');
   };
 
@@ -296,11 +424,42 @@ const Dashboard: React.FC = () => {
   const handleDeleteFriend = async (friendId: string) => {
       await storageService.removeContact(friendId);
       await storageService.removeConversationByParticipantId(friendId);
+      await storageService.setContactVerified(friendId, null);
       await socketService.removeFriend(friendId);
       setActiveConversationId(null);
       refreshData();
   };
 
+  const handleCreateGroup = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const name = newGroupName.trim();
+      if (!name || newGroupMemberIds.length === 0) return;
+
+      const result = await socketService.createGroup(name, newGroupMemberIds);
+      if (!result.success || !result.group) {
+          alert(result.reason === 'DISCONNECTED' ? '创建失败：未连接到服务器' : '创建群聊失败');
+          return;
+      }
+      await storageService.saveGroupConversation(result.group);
+      setShowNewGroup(false);
+      setNewGroupName('');
+      setNewGroupMemberIds([]);
+      await refreshData();
+      setActiveConversationId(result.group.id);
+  };
+
+  const handleLeaveGroup = async (groupId: string) => {
+      try {
+          await socketService.leaveGroup(groupId);
+      } catch (e) {
+          alert('退出失败：未连接到服务器');
+          return;
+      }
+      await storageService.removeConversationByParticipantId(groupId);
+      setActiveConversationId(null);
+      refreshData();
+  };
+
   const handleOpenConversation = async (convoId: string) => {
       setActiveConversationId(convoId);
       await storageService.markConversationRead(convoId);
@@ -309,11 +468,27 @@ const Dashboard: React.FC = () => {
 
   const ConnectionBanner = () => {
       if (connectionState === 'CONNECTED') return null;
+      const isRetrying = connectionState === 'RECONNECTING' || connectionState === 'CONNECTING';
+      let text = '连接已断开 - 请启动服务器';
+      if (reconnectInfo) {
+          const seconds = Math.max(0, Math.ceil((reconnectInfo.nextRetryAt - now) / 1000));
+          text = `连接已断开，${seconds} 秒后第 ${reconnectInfo.attempt} 次重连...`;
+      } else if (isRetrying) {
+          text = '正在重连...';
+      }
       return (
-          <div className={`px-4 py-1 text-xs text-white text-center font-medium ${
-              connectionState === 'RECONNECTING' ? 'bg-yellow-500' : 'bg-red-500'
+          <div className={`px-4 py-1 text-xs text-white text-center font-medium flex items-center justify-center gap-2 ${
+              isRetrying ? 'bg-yellow-500' : 'bg-red-500'
           }`}>
-              {connectionState === 'RECONNECTING' ? '正在重连...' : '连接已断开 - 请启动服务器'}
+              <span>{text}</span>
+              {(reconnectInfo || connectionState === 'DISCONNECTED') && (
+                  <button
+                      onClick={() => socketService.retryNow()}
+                      className="flex items-center gap-1 px-2 py-0.5 rounded bg-white/20 hover:bg-white/30 transition-colors"
+                  >
+                      <RefreshCw size={12} /> 立即重试
+                  </button>
+              )}
           </div>
       );
   };
@@ -322,6 +497,7 @@ const Dashboard: React.FC = () => {
 
     const isSearching = searchTerm.trim().length > 0;
     const listToRender = filteredConversations;
+    const activeConversation = conversations.find(c => c.id === activeConversationId);
 
   return (
     <div className="flex h-screen w-full bg-white dark:bg-slate-800 overflow-hidden transition-colors duration-200">
@@ -403,6 +579,13 @@ const Dashboard: React.FC = () => {
             >
                 <Plus size={20} />
             </button>
+            <button 
+                onClick={() => setShowNewGroup(true)}
+                className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                title="新建群聊"
+            >
+                <Users size={20} />
+            </button>
         </div>
 
         {/* Friend Requests Section */}
@@ -416,6 +599,9 @@ const Dashboard: React.FC = () => {
                             <div className="flex-1 min-w-0">
                                 <div className="text-xs font-bold truncate dark:text-white">{req.fromUser.username}</div>
                                 <div className="text-[10px] text-slate-400 truncate">ID: {req.fromUser.id}</div>
+                                {req.verified === false && (
+                                    <div className="text-[10px] text-amber-500 truncate" title="无法验证该申请的签名，可能并非对方本人发出">签名未验证</div>
+                                )}
                             </div>
                             <div className="flex gap-1">
                                 <button 
@@ -450,7 +636,8 @@ const Dashboard: React.FC = () => {
                 </div>
             )}
             {listToRender.map(convo => {
-                const contact = getContact(convo.participantId);
+                const contact = getConversationPeer(convo);
+                const isGroup = convo.kind === 'group';
                 const isActive = activeConversationId === convo.id;
                 
                 return (
@@ -466,7 +653,7 @@ const Dashboard: React.FC = () => {
                         }`}
                     >
                         <div className="relative">
-                            <Avatar name={contact.username} src={contact.avatarUrl} status={contact.status} />
+                            <Avatar name={contact.username} src={contact.avatarUrl} status={isGroup ? undefined : contact.status} />
                             {convo.unreadCount > 0 && (
                                 <span className="absolute -top-1 -right-1 bg-red-500 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-full shadow-sm">
                                     {convo.unreadCount}
@@ -475,15 +662,25 @@ const Dashboard: React.FC = () => {
                         </div>
                         <div className="flex-1 min-w-0">
                             <div className="flex justify-between items-baseline mb-0.5">
-                                <span className={`font-medium truncate ${isActive ? 'text-indigo-900 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200'}`}>
-                                    {`${contact.username || contact.id} (${contact.id})`}
+                                <span className={`font-medium truncate flex items-center gap-1 ${isActive ? 'text-indigo-900 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200'}`}>
+                                    <span className="truncate">
+                                        {isGroup
+                                            ? `${contact.username} (${convo.participantIds?.length || 0})`
+                                            : `${contact.username || contact.id} (${contact.id})`}
+                                    </span>
+                                    {!isGroup && verifiedContacts[contact.id] && (
+                                        <ShieldCheck size={14} className="text-green-500 flex-shrink-0" />
+                                    )}
+                                    {!isGroup && unverifiedSenders.has(contact.id) && (
+                                        <span title="收到过未验证签名的消息" className="flex-shrink-0"><ShieldAlert size={14} className="text-amber-500" /></span>
+                                    )}
                                 </span>
                                 <span className="text-[10px] text-slate-400 dark:text-slate-500">
                                     {convo.updatedAt ? new Date(convo.updatedAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : ''}
                                 </span>
                             </div>
                             <p className={`text-xs truncate ${convo.unreadCount > 0 ? 'font-semibold text-slate-800 dark:text-slate-200' : 'text-slate-500 dark:text-slate-400'}`}>
-                                {convo.lastMessage?.type === 'IMAGE' ? '[图片]' : convo.lastMessage?.content || '已添加好友，开始聊天吧'}
+                                {convo.lastMessage?.recalledAt ? '消息已撤回' : convo.lastMessage?.sealed ? '[加密消息]' : convo.lastMessage?.type === 'IMAGE' ? '[图片]' : convo.lastMessage?.type === 'FILE' ? `[文件] ${convo.lastMessage.attachment?.name || ''}` : convo.lastMessage?.type === 'AUDIO' ? '[语音]' : convo.lastMessage?.content || (isGroup ? '群聊已创建，开始聊天吧' : '已添加好友，开始聊天吧')}
                             </p>
                         </div>
                     </button>
@@ -516,14 +713,20 @@ const Dashboard: React.FC = () => {
       {/* Main Chat Area */}
       <main className="flex-1 flex flex-col h-full bg-slate-50 dark:bg-slate-800 relative shadow-inner transition-colors duration-200">
          <ConnectionBanner />
-         {activeConversationId ? (
+         {activeConversation ? (
              <ChatInterface 
-                conversationId={activeConversationId}
+                conversationId={activeConversation.id}
                 currentUser={currentUser}
-                recipient={getContact(conversations.find(c => c.id === activeConversationId)?.participantId || '')}
+                recipient={getConversationPeer(activeConversation)}
                 jumpToMessageId={focusedMessageId || undefined}
                 highlightTerm={searchTerm.trim() || undefined}
                 onDeleteFriend={handleDeleteFriend}
+                group={activeConversation.kind === 'group' ? activeConversation : undefined}
+                contacts={contacts}
+                onLeaveGroup={handleLeaveGroup}
+                verified={!!verifiedContacts[activeConversation.participantId]}
+                unverified={activeConversation.kind !== 'group' && unverifiedSenders.has(activeConversation.participantId)}
+                onVerifiedChange={refreshData}
              />
          ) : (
              <div className="flex-1 flex flex-col items-center justify-center text-slate-300 dark:text-slate-600">
@@ -536,6 +739,44 @@ const Dashboard: React.FC = () => {
          )}
       </main>
 
+      {/* Incoming Call Modal */}
+      {call && call.phase === 'incoming' && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-xs p-6 flex flex-col items-center animate-in fade-in zoom-in duration-200 transition-colors duration-200">
+                  <Avatar name={getContact(call.peerId).username} src={getContact(call.peerId).avatarUrl} size="xl" />
+                  <h3 className="text-lg font-bold text-slate-800 dark:text-white mt-3 flex items-center gap-1">
+                      {getContact(call.peerId).username}
+                      {unverifiedSenders.has(call.peerId) && (
+                          <span title="签名未验证，可能并非对方本人"><ShieldAlert size={16} className="text-amber-500" /></span>
+                      )}
+                  </h3>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                      邀请你{call.media === 'video' ? '视频通话' : '语音通话'}…
+                  </p>
+                  <div className="flex items-center gap-10">
+                      <button
+                        onClick={() => callService.decline()}
+                        className="w-14 h-14 rounded-full bg-red-600 hover:bg-red-700 text-white flex items-center justify-center transition-colors"
+                        title="拒绝"
+                      >
+                          <PhoneOff size={24} />
+                      </button>
+                      <button
+                        onClick={handleAcceptCall}
+                        className="w-14 h-14 rounded-full bg-green-600 hover:bg-green-700 text-white flex items-center justify-center transition-colors"
+                        title="接听"
+                      >
+                          {call.media === 'video' ? <Video size={24} /> : <Phone size={24} />}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {call && call.phase !== 'incoming' && (
+          <CallWindow call={call} peer={getContact(call.peerId)} unverified={unverifiedSenders.has(call.peerId)} />
+      )}
+
       {/* Add Friend Modal */}
       {showAddFriend && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -578,6 +819,66 @@ const Dashboard: React.FC = () => {
               </div>
           </div>
       )}
+
+      {/* New Group Modal */}
+      {showNewGroup && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-sm p-6 relative animate-in fade-in zoom-in duration-200 transition-colors duration-200">
+                  <button 
+                    onClick={() => setShowNewGroup(false)} 
+                    className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                  >
+                      <X size={20} />
+                  </button>
+                  <div className="flex items-center gap-3 mb-6">
+                      <div className="bg-indigo-100 dark:bg-indigo-900/30 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
+                        <Users size={24} />
+                      </div>
+                      <h3 className="text-lg font-bold text-slate-800 dark:text-white">新建群聊</h3>
+                  </div>
+                  
+                  <form onSubmit={handleCreateGroup}>
+                      <div className="space-y-4">
+                        <div>
+                            <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase mb-1">群名称</label>
+                            <input 
+                                type="text" 
+                                value={newGroupName}
+                                onChange={e => setNewGroupName(e.target.value)}
+                                placeholder="输入群名称"
+                                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase mb-1">选择成员</label>
+                            <div className="max-h-48 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg p-1">
+                                {contacts.length === 0 ? (
+                                    <p className="text-xs text-slate-400 text-center py-3">暂无好友</p>
+                                ) : contacts.map(c => (
+                                    <label key={c.id} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-slate-50 dark:hover:bg-slate-700 cursor-pointer">
+                                        <input 
+                                            type="checkbox"
+                                            checked={newGroupMemberIds.includes(c.id)}
+                                            onChange={e => setNewGroupMemberIds(prev => e.target.checked ? [...prev, c.id] : prev.filter(id => id !== c.id))}
+                                        />
+                                        <span className="text-sm text-slate-700 dark:text-slate-200 truncate">{c.username || c.id}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <button 
+                            type="submit"
+                            disabled={!newGroupName.trim() || newGroupMemberIds.length === 0}
+                            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2.5 rounded-lg transition-colors mt-2 disabled:opacity-50"
+                        >
+                            创建
+                        </button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
     </div>
   );
 };
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { socketService } from "../services/socketService";
 import { storageService } from "../services/storageService";
+import { KeyRecovery } from "../services/cryptoService";
 import { ShieldCheck, ArrowRight, Loader2, AlertCircle, UserPlus } from "lucide-react";
 
 const LoginPage: React.FC = () => {
@@ -9,6 +10,9 @@ const LoginPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [userId, setUserId] = useState("");
   const [password, setPassword] = useState("");
+  // Set when the password was changed on another device and the stored keys need the old one
+  const [staleKeys, setStaleKeys] = useState(false);
+  const [previousPassword, setPreviousPassword] = useState("");
   const [serverHost, setServerHost] = useState("");
   const [serverPort, setServerPort] = useState("");
   const navigate = useNavigate();
@@ -32,8 +36,26 @@ const LoginPage: React.FC = () => {
     loadLastUser();
   }, []);
 
-  const handleLogin = async (e: React.FormEvent) => {
+  const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
+    if (staleKeys && !previousPassword.trim()) {
+      setError("请输入旧密码，或重置本机密钥");
+      return;
+    }
+    login(staleKeys ? { previousPassword: previousPassword.trim() } : undefined);
+  };
+
+  const handleResetKeys = () => {
+    if (
+      window.confirm(
+        "重置后将生成新的密钥，本机的加密会话和群组密钥会丢失，好友会看到你的密钥已更换。确定重置吗？",
+      )
+    ) {
+      login({ reset: true });
+    }
+  };
+
+  const login = async (recovery?: KeyRecovery) => {
     if (!userId.trim() || !password.trim()) {
       setError("请输入用户 ID 和密码");
       return;
@@ -103,7 +125,7 @@ const LoginPage: React.FC = () => {
       clearTimeout(timeoutId);
     };
 
-    socketService.connect(user, password.trim());
+    socketService.connect(user, password.trim(), recovery);
 
     offAuth = socketService.onAuthResult((result) => {
       console.log(
@@ -118,6 +140,11 @@ const LoginPage: React.FC = () => {
         console.log("[LoginPage] Auth success, navigating to /app");
         setLoading(false);
         navigate("/app");
+      } else if (result.reason === "KEYS_STALE") {
+        setLoading(false);
+        setStaleKeys(true);
+        setError("密码已在其他设备上修改，请输入旧密码解锁本机保存的密钥");
+        socketService.disconnect();
       } else {
         console.log("[LoginPage] Auth failed:", result.reason);
         setLoading(false);
@@ -126,7 +153,11 @@ const LoginPage: React.FC = () => {
             ? "账号未注册，请先注册"
             : result.reason === "BAD_PASSWORD"
               ? "密码错误"
-              : "鉴权失败";
+              : result.reason === "KEYS_LOCKED"
+                ? recovery
+                  ? "旧密码无法解锁本机保存的密钥"
+                  : "密码无法解锁本机保存的密钥"
+                : "鉴权失败";
         setError(reason);
         socketService.disconnect();
       }
@@ -211,7 +242,10 @@ const LoginPage: React.FC = () => {
               <input
                 type="text"
                 value={userId}
-                onChange={(e) => setUserId(e.target.value)}
+                onChange={(e) => {
+                  setUserId(e.target.value);
+                  setStaleKeys(false);
+                }}
                 placeholder="例如: user_001, alice"
                 className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-200 dark:focus:ring-indigo-900 focus:border-indigo-500 outline-none transition-all text-slate-700 font-mono"
                 required
@@ -235,6 +269,29 @@ const LoginPage: React.FC = () => {
               />
             </div>
 
+            {staleKeys && (
+              <div>
+                <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase mb-1">
+                  旧密码
+                </label>
+                <input
+                  type="password"
+                  value={previousPassword}
+                  onChange={(e) => setPreviousPassword(e.target.value)}
+                  placeholder="修改前的密码"
+                  className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-200 dark:focus:ring-indigo-900 focus:border-indigo-500 outline-none transition-all text-slate-700"
+                />
+                <button
+                  type="button"
+                  onClick={handleResetKeys}
+                  disabled={loading}
+                  className="text-[11px] text-red-500 hover:underline mt-1"
+                >
+                  忘记旧密码？重置本机密钥
+                </button>
+              </div>
+            )}
+
             {/* Signaling Server Address (last section, IPv4 or Domain) */}
             <div>
               <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase mb-1">
@@ -11,6 +11,7 @@ const SettingsPage: React.FC = () => {
     const [settings, setSettings] = useState<AppSettings>({ theme: 'light', notificationsEnabled: true, logLevel: 'info' });
   const [saved, setSaved] = useState(false);
     const [showChangePwd, setShowChangePwd] = useState(false);
+    const [currentPwd, setCurrentPwd] = useState('');
     const [newPwd, setNewPwd] = useState('');
     const [confirmPwd, setConfirmPwd] = useState('');
     const [pwdError, setPwdError] = useState<string | null>(null);
@@ -43,6 +44,10 @@ const SettingsPage: React.FC = () => {
 
   const handleChangePassword = async () => {
       setPwdError(null);
+      if (!currentPwd) {
+          setPwdError('请输入当前密码');
+          return;
+      }
       if (!newPwd.trim() || !confirmPwd.trim()) {
           setPwdError('请输入新密码并确认');
           return;
@@ -52,16 +57,16 @@ const SettingsPage: React.FC = () => {
           return;
       }
       setPwdLoading(true);
-      const result = await socketService.changePassword(newPwd.trim());
+      const result = await socketService.changePassword(currentPwd, newPwd.trim());
       setPwdLoading(false);
       if (!result.success) {
-          const msg = result.reason === 'DISCONNECTED' ? '当前未连接，无法修改密码' : result.reason === 'TIMEOUT' ? '请求超时，请稍后重试' : '修改失败，请稍后重试';
+          const msg = result.reason === 'DISCONNECTED' ? '当前未连接，无法修改密码' : result.reason === 'TIMEOUT' ? '请求超时，请稍后重试' : result.reason === 'BAD_PASSWORD' ? '当前密码不正确' : result.reason === 'KEYS_FAILED' ? '本机密钥无法更新，密码未修改' : '修改失败，请稍后重试';
           setPwdError(msg);
           return;
       }
       alert('密码修改成功，请重新登录');
+      await socketService.logout();
       await storageService.logout();
-      socketService.disconnect();
       navigate('/');
   }
 
@@ -93,6 +98,41 @@ const SettingsPage: React.FC = () => {
                    </div>
                </div>
 
+               {/* Privacy */}
+               <div className="p-6 border-b border-slate-100 dark:border-slate-700">
+                   <h3 className="text-sm font-bold text-slate-900 dark:text-white uppercase tracking-wide mb-4">隐私</h3>
+                   <label className="flex items-center justify-between cursor-pointer">
+                       <span className="text-slate-600 dark:text-slate-300 text-sm">发送已读回执</span>
+                       <input
+                        type="checkbox"
+                        checked={settings.readReceiptsEnabled !== false}
+                        onChange={e => setSettings({...settings, readReceiptsEnabled: e.target.checked})}
+                        className="h-4 w-4 accent-indigo-600"
+                       />
+                   </label>
+                   <p className="text-xs text-slate-400 mt-2">关闭后，对方将看不到你是否已读其消息。</p>
+                   <label className="flex items-center justify-between cursor-pointer mt-4">
+                       <span className="text-slate-600 dark:text-slate-300 text-sm">安全码变更后暂停发送</span>
+                       <input
+                        type="checkbox"
+                        checked={!!settings.blockOnKeyChange}
+                        onChange={e => setSettings({...settings, blockOnKeyChange: e.target.checked})}
+                        className="h-4 w-4 accent-indigo-600"
+                       />
+                   </label>
+                   <p className="text-xs text-slate-400 mt-2">联系人的安全码变更后，需先确认才能继续向其发送消息。</p>
+                   <label className="flex items-center justify-between cursor-pointer mt-4">
+                       <span className="text-slate-600 dark:text-slate-300 text-sm">严格加密</span>
+                       <input
+                        type="checkbox"
+                        checked={settings.strictEncryption !== false}
+                        onChange={e => setSettings({...settings, strictEncryption: e.target.checked})}
+                        className="h-4 w-4 accent-indigo-600"
+                       />
+                   </label>
+                   <p className="text-xs text-slate-400 mt-2">开启后绝不以明文发送：尚未获取对方密钥的消息会暂存，取得密钥后自动发出。</p>
+               </div>
+
                {/* Debugging */}
                <div className="p-6 border-b border-slate-100 dark:border-slate-700">
                    <h3 className="text-sm font-bold text-slate-900 dark:text-white uppercase tracking-wide mb-4">高级</h3>
@@ -112,7 +152,7 @@ const SettingsPage: React.FC = () => {
                                         <div className="flex items-center justify-between mb-4">
                                                 <span className="text-slate-600 dark:text-slate-300 text-sm">修改密码</span>
                                                 <button
-                                                    onClick={() => { setShowChangePwd(true); setNewPwd(''); setConfirmPwd(''); setPwdError(null); }}
+                                                    onClick={() => { setShowChangePwd(true); setCurrentPwd(''); setNewPwd(''); setConfirmPwd(''); setPwdError(null); }}
                                                     className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-white rounded-md hover:bg-slate-200 dark:hover:bg-slate-600"
                                                 >
                                                     <KeyRound size={16} /> 修改
@@ -160,6 +200,15 @@ const SettingsPage: React.FC = () => {
                 )}
 
                 <div className="space-y-3">
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase mb-1">当前密码</label>
+                        <input 
+                            type="password"
+                            value={currentPwd}
+                            onChange={(e) => setCurrentPwd(e.target.value)}
+                            className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-200 dark:focus:ring-indigo-900 focus:border-indigo-500 outline-none transition-all"
+                        />
+                    </div>
                     <div>
                         <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase mb-1">新密码</label>
                         <input 
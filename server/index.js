@@ -2,6 +2,7 @@ const { WebSocketServer } = require("ws");
 const fs = require("fs");
 const path = require("path");
 const crypto = require("crypto");
+const readline = require("readline");
 
 // Store clients: userId -> { ws, username? }
 const clients = new Map();
@@ -10,6 +11,13 @@ const clients = new Map();
 const DATA_DIR = path.join(__dirname, "data");
 const OFFLINE_FILE = path.join(DATA_DIR, "offlineMessages.json");
 const ACCOUNTS_FILE = path.join(DATA_DIR, "accounts.json");
+const SESSIONS_FILE = path.join(DATA_DIR, "sessions.json");
+const GROUPS_FILE = path.join(DATA_DIR, "groups.json");
+// Attachment chunks for offline recipients: one append-only file per recipient and attachment
+const ATTACHMENTS_DIR = path.join(DATA_DIR, "attachments");
+
+// Session tokens are valid for a week; each successful AUTH issues a fresh one
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 // Ensure data directory exists
 if (!fs.existsSync(DATA_DIR)) {
@@ -46,6 +54,26 @@ function loadAccounts() {
   }
 }
 
+// Groups: groupId -> { id, name, ownerId, members: [userId], createdAt }
+function loadGroups() {
+  try {
+    if (!fs.existsSync(GROUPS_FILE)) return {};
+    const raw = fs.readFileSync(GROUPS_FILE, "utf-8");
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Failed to load groups store, starting empty.", e);
+    return {};
+  }
+}
+
+function saveGroups(store) {
+  try {
+    fs.writeFileSync(GROUPS_FILE, JSON.stringify(store, null, 2), "utf-8");
+  } catch (e) {
+    console.error("Failed to save groups store.", e);
+  }
+}
+
 function saveAccounts(store) {
   try {
     fs.writeFileSync(ACCOUNTS_FILE, JSON.stringify(store, null, 2), "utf-8");
@@ -54,23 +82,375 @@ function saveAccounts(store) {
   }
 }
 
-function hashPassword(password) {
+function loadSessions() {
+  try {
+    if (!fs.existsSync(SESSIONS_FILE)) return {};
+    const raw = fs.readFileSync(SESSIONS_FILE, "utf-8");
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Failed to load sessions store, starting empty.", e);
+    return {};
+  }
+}
+
+function saveSessions(store) {
+  try {
+    fs.writeFileSync(SESSIONS_FILE, JSON.stringify(store, null, 2), "utf-8");
+  } catch (e) {
+    console.error("Failed to save sessions store.", e);
+  }
+}
+
+// --- Password hashing ---
+// Records are stored as "scrypt$<version>$<N>$<r>$<p>$<salt>$<hash>" (salt/hash base64).
+// Accounts created before salted hashing hold a bare SHA-256 hex digest; they are
+// still accepted and transparently upgraded on the next successful login.
+const PASSWORD_HASH_VERSION = 1;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEYLEN = 64;
+const SALT_BYTES = 16;
+
+function legacyHashPassword(password) {
   return crypto.createHash("sha256").update(password).digest("hex");
 }
 
+function hashPassword(password) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN, { N, r, p });
+  return [
+    "scrypt",
+    PASSWORD_HASH_VERSION,
+    N,
+    r,
+    p,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+function safeEqual(a, b) {
+  if (a.length !== b.length) return false;
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Returns { ok, needsRehash }. needsRehash is set when the stored record uses the
+// legacy format or outdated parameters and should be replaced with hashPassword().
+function verifyPassword(password, storedHash) {
+  if (typeof password !== "string" || typeof storedHash !== "string") {
+    return { ok: false, needsRehash: false };
+  }
+
+  const parts = storedHash.split("$");
+  if (parts.length === 1) {
+    // Legacy unsalted SHA-256 record
+    const ok = safeEqual(
+      Buffer.from(legacyHashPassword(password), "hex"),
+      Buffer.from(storedHash, "hex"),
+    );
+    return { ok, needsRehash: ok };
+  }
+
+  const [scheme, version, N, r, p, saltB64, hashB64] = parts;
+  if (scheme !== "scrypt" || parts.length !== 7) {
+    return { ok: false, needsRehash: false };
+  }
+
+  try {
+    const params = { N: Number(N), r: Number(r), p: Number(p) };
+    const expected = Buffer.from(hashB64, "base64");
+    const actual = crypto.scryptSync(password, Buffer.from(saltB64, "base64"), expected.length, {
+      ...params,
+      maxmem: 256 * params.N * params.r,
+    });
+    const ok = safeEqual(actual, expected);
+    const outdated =
+      Number(version) !== PASSWORD_HASH_VERSION ||
+      params.N !== SCRYPT_PARAMS.N ||
+      params.r !== SCRYPT_PARAMS.r ||
+      params.p !== SCRYPT_PARAMS.p ||
+      expected.length !== SCRYPT_KEYLEN;
+    return { ok, needsRehash: ok && outdated };
+  } catch (e) {
+    console.error("Failed to verify password hash", e);
+    return { ok: false, needsRehash: false };
+  }
+}
+
 // In-memory cache, synced to disk on change
 let offlineStore = loadOfflineStore();
 let accountsStore = loadAccounts();
+let sessionsStore = loadSessions();
+let groupsStore = loadGroups();
+
+// Signing secret for session tokens: env override, otherwise generated once and persisted
+if (!sessionsStore.secret) {
+  sessionsStore.secret = crypto.randomBytes(32).toString("hex");
+  saveSessions(sessionsStore);
+}
+if (!sessionsStore.revoked) sessionsStore.revoked = {};
+const SESSION_SECRET = process.env.SESSION_SECRET || sessionsStore.secret;
+
+// --- Attachments ---
+// Files travel as encrypted chunks of at most ATTACHMENT_CHUNK_SIZE bytes plus the GCM tag.
+// The content is opaque to us, so the size limit is enforced through chunk count and length.
+const MAX_FILE_SIZE = Number(process.env.MAX_FILE_SIZE) || 100 * 1024 * 1024;
+const ATTACHMENT_CHUNK_SIZE = 64 * 1024;
+const MAX_CHUNK_BASE64_LENGTH = Math.ceil((ATTACHMENT_CHUNK_SIZE + 16) / 3) * 4;
+
+// Reason to reject an ATTACHMENT_CHUNK payload, or null if it may be relayed
+function checkAttachmentChunk(payload) {
+  const { attachmentId, index, total, data } = payload || {};
+  if (
+    typeof attachmentId !== "string" ||
+    typeof data !== "string" ||
+    !Number.isInteger(index) ||
+    !Number.isInteger(total) ||
+    index < 0 ||
+    index >= total
+  ) {
+    return "INVALID_CHUNK";
+  }
+  if (
+    total > Math.ceil(MAX_FILE_SIZE / ATTACHMENT_CHUNK_SIZE) ||
+    data.length > MAX_CHUNK_BASE64_LENGTH
+  ) {
+    return "FILE_TOO_LARGE";
+  }
+  return null;
+}
+
+// The JSON offline store is rewritten on every change, which doesn't scale to file chunks, so
+// they are appended to a spool file instead and streamed out when the recipient logs in.
+// Both ids come from clients and are hashed before they name anything on disk.
+const spoolName = (id) => crypto.createHash("sha256").update(String(id)).digest("hex");
+const spoolDir = (userId) => path.join(ATTACHMENTS_DIR, spoolName(userId));
+// Don't let a flush queue up more than this in the socket's send buffer
+const SPOOL_FLUSH_HIGH_WATER = 4 * 1024 * 1024;
+// What may pile up on disk for one recipient until they log in
+const MAX_SPOOL_SIZE = Number(process.env.MAX_SPOOL_SIZE) || 1024 * 1024 * 1024;
+// Pending appends per spool file, so chunks land in the order they arrived
+const spoolWrites = new Map();
+// Bytes spooled per recipient, read from disk on first use and again after each delivery
+const spoolSizes = new Map();
 
-function queueOfflineMessage(targetUserId, type, payload) {
+async function spoolSize(userId) {
+  if (!spoolSizes.has(userId)) {
+    const dir = spoolDir(userId);
+    let size = 0;
+    try {
+      for (const name of await fs.promises.readdir(dir)) {
+        size += await fs.promises.stat(path.join(dir, name)).then((s) => s.size, () => 0);
+      }
+    } catch (e) {
+      if (e.code !== "ENOENT") throw e;
+    }
+    if (!spoolSizes.has(userId)) spoolSizes.set(userId, size);
+  }
+  return spoolSizes.get(userId);
+}
+
+// Rejects with code SPOOL_FULL once the recipient has MAX_SPOOL_SIZE waiting
+async function spoolAttachmentChunk(userId, payload, from) {
+  const file = path.join(spoolDir(userId), `${spoolName(payload.attachmentId)}.jsonl`);
+  const line = `${JSON.stringify({ payload, from })}\n`;
+  const length = Buffer.byteLength(line);
+  await spoolSize(userId);
+  const size = spoolSizes.get(userId) || 0;
+  if (size + length > MAX_SPOOL_SIZE) {
+    throw Object.assign(new Error(`Spool of ${userId} is full`), { code: "SPOOL_FULL" });
+  }
+  spoolSizes.set(userId, size + length);
+  const write = (spoolWrites.get(file) || Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, line, "utf-8");
+    });
+  spoolWrites.set(file, write);
+  const settle = () => {
+    if (spoolWrites.get(file) === write) spoolWrites.delete(file);
+  };
+  write.then(settle, settle);
+  return write;
+}
+
+// Relay a chunk live, or spool it for a registered recipient who is offline. Resolves to true
+// when it was delivered live.
+async function relayAttachmentChunk(userId, payload, from) {
+  if (relayTo(userId, "ATTACHMENT_CHUNK", payload, false, from)) return true;
+  if (accountsStore[userId]) await spoolAttachmentChunk(userId, payload, from);
+  return false;
+}
+
+// Streams spooled chunks to a user who just logged in. A file is renamed to a name of its own
+// before it is read, so chunks spooled meanwhile start a new one and a file left over from a
+// delivery cut short isn't overwritten. It is deleted once sent in full, and kept for the next
+// login if the connection drops first.
+async function deliverSpooledChunks(userId, ws) {
+  const dir = spoolDir(userId);
+  let names;
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch (e) {
+    if (e.code !== "ENOENT") console.error(`Failed to read spooled chunks for ${userId}`, e);
+    return;
+  }
+  const sending = names.filter((name) => name.endsWith(".sending"));
+  for (const name of names.filter((n) => n.endsWith(".jsonl"))) {
+    const file = path.join(dir, name);
+    const claimed = `${name}.${Date.now()}-${crypto.randomBytes(4).toString("hex")}.sending`;
+    try {
+      await (spoolWrites.get(file) || Promise.resolve()).catch(() => {});
+      await fs.promises.rename(file, path.join(dir, claimed));
+      sending.push(claimed);
+    } catch (e) {
+      console.error(`Failed to claim spooled chunks ${name} for ${userId}`, e);
+    }
+  }
+  try {
+    // Oldest first: the timestamp in a claimed name orders the files of one attachment
+    for (const name of sending.sort()) {
+      if (ws.readyState !== 1) return;
+      try {
+        await sendSpoolFile(path.join(dir, name), userId, ws);
+      } catch (e) {
+        console.error(`Failed to deliver spooled chunks ${name} to ${userId}`, e);
+      }
+    }
+  } finally {
+    spoolSizes.delete(userId);
+  }
+}
+
+async function sendSpoolFile(file, userId, ws) {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file, "utf-8"),
+    crlfDelay: Infinity,
+  });
+  let sent = 0;
+  for await (const line of lines) {
+    if (ws.readyState !== 1) {
+      lines.close();
+      return;
+    }
+    if (!line) continue;
+    let chunk;
+    try {
+      chunk = JSON.parse(line);
+    } catch {
+      console.warn(`Skipping a malformed spooled chunk for ${userId}`);
+      continue;
+    }
+    ws.send(JSON.stringify({ type: "ATTACHMENT_CHUNK", payload: chunk.payload, from: chunk.from }));
+    sent++;
+    while (ws.readyState === 1 && ws.bufferedAmount > SPOOL_FLUSH_HIGH_WATER) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+  await fs.promises.unlink(file);
+  console.log(`Delivered ${sent} spooled attachment chunks to ${userId}`);
+}
+
+// --- Session tokens ---
+// Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload)).
+// Payload: { sub: userId, jti: token id, ver: account tokenVersion, exp: ms timestamp }.
+// Bumping an account's tokenVersion (password change) revokes all of its tokens;
+// LOGOUT revokes a single token by jti until it would have expired anyway.
+function signSessionPayload(encoded) {
+  return crypto.createHmac("sha256", SESSION_SECRET).update(encoded).digest("base64url");
+}
+
+function issueSessionToken(userId) {
+  const account = accountsStore[userId] || {};
+  const payload = {
+    sub: userId,
+    jti: crypto.randomBytes(16).toString("hex"),
+    ver: account.tokenVersion || 0,
+    exp: Date.now() + SESSION_TTL_MS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { token: `${encoded}.${signSessionPayload(encoded)}`, payload };
+}
+
+function verifySessionToken(token, userId) {
+  if (typeof token !== "string") return { ok: false, reason: "INVALID_TOKEN" };
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return { ok: false, reason: "INVALID_TOKEN" };
+
+  const expected = Buffer.from(signSessionPayload(encoded));
+  if (!safeEqual(Buffer.from(signature), expected)) {
+    return { ok: false, reason: "INVALID_TOKEN" };
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8"));
+  } catch (e) {
+    return { ok: false, reason: "INVALID_TOKEN" };
+  }
+
+  const account = accountsStore[userId];
+  if (!payload || payload.sub !== userId || !account) {
+    return { ok: false, reason: "INVALID_TOKEN" };
+  }
+  if (typeof payload.exp !== "number" || payload.exp <= Date.now()) {
+    return { ok: false, reason: "TOKEN_EXPIRED" };
+  }
+  if (payload.ver !== (account.tokenVersion || 0) || sessionsStore.revoked[payload.jti]) {
+    return { ok: false, reason: "TOKEN_REVOKED" };
+  }
+  return { ok: true, payload };
+}
+
+function revokeSession(payload) {
+  if (!payload || !payload.jti) return;
+  const now = Date.now();
+  // Drop revocations for tokens that have expired on their own
+  for (const [jti, exp] of Object.entries(sessionsStore.revoked)) {
+    if (exp <= now) delete sessionsStore.revoked[jti];
+  }
+  sessionsStore.revoked[payload.jti] = payload.exp;
+  saveSessions(sessionsStore);
+}
+
+function queueOfflineMessage(targetUserId, type, payload, from) {
   if (!targetUserId) return;
   if (!offlineStore[targetUserId]) {
     offlineStore[targetUserId] = [];
   }
-  offlineStore[targetUserId].push({ type, payload, queuedAt: Date.now() });
+  offlineStore[targetUserId].push({ type, payload, from, queuedAt: Date.now() });
   saveOfflineStore(offlineStore);
 }
 
+// Send to one user if connected; otherwise queue it when asked to. Returns true if delivered live.
+// `from` is the authenticated sender of a relayed frame, so receivers can tell who it came from.
+function relayTo(userId, type, payload, queueIfOffline, from) {
+  const target = clients.get(userId);
+  const targetWs = target && target.ws;
+  if (targetWs && targetWs.readyState === 1) {
+    // 1 = OPEN
+    targetWs.send(JSON.stringify({ type, payload, from }));
+    return true;
+  }
+  if (queueIfOffline) {
+    queueOfflineMessage(userId, type, payload, from);
+  }
+  return false;
+}
+
+function groupsForUser(userId) {
+  return Object.values(groupsStore).filter((g) => g.members.includes(userId));
+}
+
+// Members that are offline pick up the current state from GROUP_LIST on their next AUTH
+function broadcastGroupUpdate(group, extraRecipients = []) {
+  const recipients = new Set([...group.members, ...extraRecipients]);
+  for (const userId of recipients) {
+    relayTo(userId, "GROUP_UPDATE", { group }, false);
+  }
+}
+
 function deliverQueuedMessages(userId, ws) {
   const messages = offlineStore[userId];
   if (!messages || !messages.length) return;
@@ -78,7 +458,7 @@ function deliverQueuedMessages(userId, ws) {
   console.log(`Delivering ${messages.length} queued messages to ${userId}`);
   for (const msg of messages) {
     if (ws.readyState === 1) {
-      ws.send(JSON.stringify({ type: msg.type, payload: msg.payload }));
+      ws.send(JSON.stringify({ type: msg.type, payload: msg.payload, from: msg.from }));
     }
   }
 
@@ -111,6 +491,8 @@ function startServer(port, host) {
   wss.on("connection", (ws, req) => {
     let currentUserId = null;
     let authenticated = false;
+    // Payload of the session token issued to this connection (revoked on LOGOUT)
+    let currentSession = null;
 
     ws.on("message", (data) => {
       try {
@@ -147,18 +529,21 @@ function startServer(port, host) {
         }
 
         if (message.type === "AUTH") {
-          currentUserId = message.userId;
+          // Only bound to this socket once the password or token checks out: a failed AUTH
+          // must not switch an authenticated connection over to another account
+          const userId = message.userId;
           const password = message.password;
+          const token = message.token;
           const publicKey = message.publicKey;
 
-          if (!currentUserId || !password) {
+          if (!userId || (!password && !token)) {
             ws.send(
               JSON.stringify({ type: "AUTH_RESULT", success: false, reason: "INVALID_INPUT" }),
             );
             return;
           }
 
-          const account = accountsStore[currentUserId];
+          const account = accountsStore[userId];
           if (!account) {
             ws.send(
               JSON.stringify({ type: "AUTH_RESULT", success: false, reason: "NOT_REGISTERED" }),
@@ -166,14 +551,47 @@ function startServer(port, host) {
             return;
           }
 
-          const isPasswordOk = account.passwordHash === hashPassword(password);
-          if (!isPasswordOk) {
-            ws.send(
-              JSON.stringify({ type: "AUTH_RESULT", success: false, reason: "BAD_PASSWORD" }),
-            );
-            return;
+          if (password) {
+            const { ok: isPasswordOk, needsRehash } = verifyPassword(password, account.passwordHash);
+            if (!isPasswordOk) {
+              ws.send(
+                JSON.stringify({ type: "AUTH_RESULT", success: false, reason: "BAD_PASSWORD" }),
+              );
+              return;
+            }
+
+            if (needsRehash) {
+              accountsStore[userId] = { ...account, passwordHash: hashPassword(password) };
+              saveAccounts(accountsStore);
+              console.log(`Upgraded password hash for ${userId}`);
+            }
+
+            // A client that can't unlock its stored keys only asks whether the password is
+            // right; it isn't logged in and its queued messages stay queued
+            if (message.verifyOnly) {
+              ws.send(JSON.stringify({ type: "AUTH_RESULT", success: true, verifyOnly: true }));
+              return;
+            }
+          } else {
+            const tokenResult = verifySessionToken(token, userId);
+            if (!tokenResult.ok) {
+              ws.send(
+                JSON.stringify({ type: "AUTH_RESULT", success: false, reason: tokenResult.reason }),
+              );
+              return;
+            }
           }
 
+          // Re-authenticating as someone else: this socket no longer speaks for the old account
+          if (currentUserId && currentUserId !== userId) {
+            const previous = clients.get(currentUserId);
+            if (previous && previous.ws === ws) {
+              clients.delete(currentUserId);
+              broadcastStatus(currentUserId, "offline");
+            }
+          }
+          currentUserId = userId;
+
           // Check if user is already connected
           if (clients.has(currentUserId)) {
             console.log(`User ${currentUserId} already connected. Kicking old session.`);
@@ -192,6 +610,22 @@ function startServer(port, host) {
 
           // Store connection with optional username and publicKey
           clients.set(currentUserId, { ws, username: message.username, publicKey });
+
+          // Remember the latest key so others can encrypt to this account while it is offline
+          if (typeof publicKey === "string" && accountsStore[currentUserId].publicKey !== publicKey) {
+            accountsStore[currentUserId] = { ...accountsStore[currentUserId], publicKey };
+            saveAccounts(accountsStore);
+          }
+          // Signed prekey for starting ratchet sessions; the signature is checked by the peers
+          const preKeyBundle = message.preKeyBundle;
+          if (
+            preKeyBundle &&
+            typeof preKeyBundle === "object" &&
+            JSON.stringify(accountsStore[currentUserId].preKeyBundle) !== JSON.stringify(preKeyBundle)
+          ) {
+            accountsStore[currentUserId] = { ...accountsStore[currentUserId], preKeyBundle };
+            saveAccounts(accountsStore);
+          }
           authenticated = true;
           console.log(`User connected: ${currentUserId} (username: ${message.username || "N/A"})`);
 
@@ -226,15 +660,40 @@ function startServer(port, host) {
             console.error(`Failed sending USER_KEYS_LIST to ${currentUserId}`, e);
           }
 
-          // Deliver any queued offline messages for this user
+          // Groups first, so queued group messages below land in a known conversation
+          try {
+            ws.send(
+              JSON.stringify({
+                type: "GROUP_LIST",
+                groups: groupsForUser(currentUserId),
+              }),
+            );
+          } catch (e) {
+            console.error(`Failed sending GROUP_LIST to ${currentUserId}`, e);
+          }
+
+          // Deliver any queued offline messages for this user, then the chunks of their files
           deliverQueuedMessages(currentUserId, ws);
+          deliverSpooledChunks(currentUserId, ws).catch((e) =>
+            console.error(`Failed to deliver spooled chunks to ${userId}`, e),
+          );
 
           // Broadcast presence
           broadcastStatus(currentUserId, "online", publicKey);
 
-          // Notify client auth success
+          // Notify client auth success with a fresh session token for silent reconnects
+          const session = issueSessionToken(currentUserId);
+          currentSession = session.payload;
           try {
-            ws.send(JSON.stringify({ type: "AUTH_RESULT", success: true }));
+            ws.send(
+              JSON.stringify({
+                type: "AUTH_RESULT",
+                success: true,
+                token: session.token,
+                expiresAt: session.payload.exp,
+                maxFileSize: MAX_FILE_SIZE,
+              }),
+            );
             console.log(`Auth success and ACK sent for ${currentUserId}`);
           } catch (e) {
             console.error(`Failed sending AUTH_RESULT to ${currentUserId}`, e);
@@ -249,36 +708,199 @@ function startServer(port, host) {
           "FRIEND_ACCEPT",
           "FRIEND_REMOVE",
           "MESSAGE_DELIVERED",
+          "MESSAGE_READ",
+          "TYPING",
+          "MESSAGE_EDIT",
+          "MESSAGE_RECALL",
+          "REACTION",
+          "SENDER_KEY",
+          "ATTACHMENT_CHUNK",
+          "CALL_OFFER",
+          "CALL_ANSWER",
+          "ICE_CANDIDATE",
+          "CALL_END",
+        ];
+        // Call signaling is one-to-one and only makes sense live, so it is never queued
+        const CALL_TYPES = ["CALL_OFFER", "CALL_ANSWER", "ICE_CANDIDATE", "CALL_END"];
+        // Relay types persisted for offline recipients; the rest (e.g. TYPING) are dropped if nobody is there
+        const OFFLINE_QUEUED_TYPES = [
+          "CHAT",
+          "FRIEND_REQUEST",
+          "FRIEND_ACCEPT",
+          "MESSAGE_READ",
+          "MESSAGE_EDIT",
+          "MESSAGE_RECALL",
+          "REACTION",
+          "SENDER_KEY",
         ];
         if (RELAY_TYPES.includes(message.type)) {
-          if (!authenticated) return; // Ignore relay attempts before auth
           const { targetUserId, payload } = message;
-          const target = clients.get(targetUserId);
-          const targetWs = target && target.ws;
-
-          if (targetWs && targetWs.readyState === 1) {
-            // 1 = OPEN
-            targetWs.send(
+          // Chat senders wait for CHAT_ACK before showing SENT, and attachment senders for a
+          // per-chunk ack before moving on, so tell them what happened. Callers only hear back
+          // when the callee couldn't be reached, so they can stop ringing.
+          const ackRelay = (success, extra) => {
+            if (message.type === "CALL_OFFER") {
+              if (success && extra.delivery === "relayed") return;
+              ws.send(
+                JSON.stringify({
+                  type: "CALL_UNAVAILABLE",
+                  callId: payload && payload.callId,
+                  targetUserId,
+                }),
+              );
+              return;
+            }
+            if (message.type === "ATTACHMENT_CHUNK") {
+              ws.send(
+                JSON.stringify({
+                  type: "ATTACHMENT_CHUNK_ACK",
+                  attachmentId: payload && payload.attachmentId,
+                  index: payload && payload.index,
+                  success,
+                  ...extra,
+                }),
+              );
+              return;
+            }
+            if (message.type !== "CHAT") return;
+            ws.send(
               JSON.stringify({
-                type: message.type,
-                payload: payload,
+                type: "CHAT_ACK",
+                messageId: payload && payload.id,
+                success,
+                ...extra,
               }),
             );
-            console.log(`Relayed ${message.type} from ${currentUserId} to ${targetUserId}`);
-          } else {
-            // Persist offline messages so they survive server restarts
-            console.log(
-              `User ${targetUserId} is offline or not found. Queuing offline ${message.type}.`,
-            );
-            // Only queue actual chat payloads and delivery receipts; friend signals usually can be ignored/offline as needed
-            if (
-              message.type === "CHAT" ||
-              message.type === "FRIEND_REQUEST" ||
-              message.type === "FRIEND_ACCEPT"
-            ) {
-              queueOfflineMessage(targetUserId, message.type, payload);
+          };
+
+          if (!authenticated) {
+            // Ignore relay attempts before auth
+            ackRelay(false, { reason: "NOT_AUTHENTICATED" });
+            return;
+          }
+          if (message.type === "ATTACHMENT_CHUNK") {
+            const reason = checkAttachmentChunk(payload);
+            if (reason) {
+              console.warn(`Rejected attachment chunk from ${currentUserId}: ${reason}`);
+              ackRelay(false, { reason });
+              return;
+            }
+          }
+          // Only queue what the recipient must eventually see (OFFLINE_QUEUED_TYPES); the rest can be dropped.
+          // Queued messages are persisted so they survive server restarts. Attachment chunks
+          // for offline recipients are spooled separately.
+          const queueIfOffline = OFFLINE_QUEUED_TYPES.includes(message.type);
+          const relay = (userId, relayPayload) =>
+            message.type === "ATTACHMENT_CHUNK"
+              ? relayAttachmentChunk(userId, relayPayload, currentUserId)
+              : Promise.resolve(
+                  relayTo(userId, message.type, relayPayload, queueIfOffline, currentUserId),
+                );
+          const spoolFailed = (e) => {
+            console.error(`Failed to spool ${message.type} from ${currentUserId}`, e);
+            ackRelay(false, { reason: e.code === "SPOOL_FULL" ? "SPOOL_FULL" : "SPOOL_FAILED" });
+          };
+
+          if (message.groupId && CALL_TYPES.includes(message.type)) {
+            console.warn(`Rejected ${message.type} from ${currentUserId} to group ${message.groupId}`);
+            ackRelay(false, { reason: "NOT_SUPPORTED" });
+            return;
+          }
+
+          if (message.groupId) {
+            const group = groupsStore[message.groupId];
+            if (!group || !group.members.includes(currentUserId)) {
+              console.warn(`Rejected ${message.type} from ${currentUserId} to group ${message.groupId}`);
+              ackRelay(false, { reason: "NOT_GROUP_MEMBER" });
+              return;
             }
+            // Fan out to every other member, each queued individually if offline.
+            // perMember carries per-recipient fields (e.g. content encrypted for that member).
+            const perMember = message.perMember || {};
+            const deliveries = [];
+            for (const memberId of group.members) {
+              if (memberId === currentUserId) continue;
+              const memberPayload = perMember[memberId] ? { ...payload, ...perMember[memberId] } : payload;
+              deliveries.push(relay(memberId, memberPayload));
+            }
+            Promise.all(deliveries).then((live) => {
+              console.log(`Fanned out ${message.type} from ${currentUserId} to group ${group.id}`);
+              ackRelay(true, { delivery: live.every(Boolean) ? "relayed" : "queued" });
+            }, spoolFailed);
+            return;
           }
+
+          relay(targetUserId, payload).then((live) => {
+            if (live) {
+              console.log(`Relayed ${message.type} from ${currentUserId} to ${targetUserId}`);
+              ackRelay(true, { delivery: "relayed" });
+            } else {
+              console.log(`User ${targetUserId} is offline or not found. ${message.type} not relayed live.`);
+              ackRelay(true, { delivery: "queued" });
+            }
+          }, spoolFailed);
+          return;
+        }
+
+        // --- Groups ---
+        if (message.type === "GROUP_CREATE") {
+          if (!authenticated) return;
+          const name = typeof message.name === "string" ? message.name.trim().slice(0, 64) : "";
+          const invited = Array.isArray(message.memberIds) ? message.memberIds : [];
+          const members = Array.from(
+            new Set([currentUserId, ...invited.filter((id) => accountsStore[id])]),
+          );
+          const reply = (result) =>
+            ws.send(JSON.stringify({ type: "GROUP_CREATE_RESULT", requestId: message.requestId, ...result }));
+
+          if (!name || members.length < 2) {
+            reply({ success: false, reason: "INVALID_GROUP" });
+            return;
+          }
+          const group = {
+            id: `group_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`,
+            name,
+            ownerId: currentUserId,
+            members,
+            createdAt: Date.now(),
+          };
+          groupsStore[group.id] = group;
+          saveGroups(groupsStore);
+          console.log(`Group ${group.id} created by ${currentUserId} with ${members.length} members`);
+          reply({ success: true, group });
+          broadcastGroupUpdate(group);
+          return;
+        }
+
+        if (message.type === "GROUP_INVITE") {
+          if (!authenticated) return;
+          const group = groupsStore[message.groupId];
+          if (!group || !group.members.includes(currentUserId)) return;
+          const invited = (Array.isArray(message.userIds) ? message.userIds : []).filter(
+            (id) => accountsStore[id] && !group.members.includes(id),
+          );
+          if (invited.length === 0) return;
+          group.members = [...group.members, ...invited];
+          saveGroups(groupsStore);
+          console.log(`${currentUserId} invited ${invited.join(", ")} to group ${group.id}`);
+          broadcastGroupUpdate(group);
+          return;
+        }
+
+        if (message.type === "GROUP_LEAVE") {
+          if (!authenticated) return;
+          const group = groupsStore[message.groupId];
+          if (!group || !group.members.includes(currentUserId)) return;
+          group.members = group.members.filter((id) => id !== currentUserId);
+          if (group.members.length === 0) {
+            delete groupsStore[group.id];
+          } else if (group.ownerId === currentUserId) {
+            group.ownerId = group.members[0];
+          }
+          saveGroups(groupsStore);
+          console.log(`${currentUserId} left group ${group.id}`);
+          // The leaver gets the update too, so their other sessions see they are out
+          broadcastGroupUpdate(group, [currentUserId]);
           return;
         }
 
@@ -286,7 +908,7 @@ function startServer(port, host) {
         if (message.type === "USER_UPDATE") {
           if (!authenticated) return;
           const userId = message.from;
-          const { username } = message.payload || {};
+          const { username, sig } = message.payload || {};
           if (!userId || !username) return;
 
           const clientInfo = clients.get(userId);
@@ -299,7 +921,8 @@ function startServer(port, host) {
           const broadcastMsg = JSON.stringify({
             type: "USER_UPDATE_BROADCAST",
             from: userId,
-            payload: { username },
+            // The sender's signature travels along so receivers can tell we didn't make this up
+            payload: sig ? { username, sig } : { username },
           });
 
           // For now, broadcast to all connected clients
@@ -313,7 +936,7 @@ function startServer(port, host) {
 
         if (message.type === "CHANGE_PASSWORD") {
           if (!authenticated) return;
-          const { newPassword } = message;
+          const { currentPassword, newPassword } = message;
           if (!newPassword || typeof newPassword !== "string" || !newPassword.trim()) {
             ws.send(
               JSON.stringify({
@@ -324,11 +947,48 @@ function startServer(port, host) {
             );
             return;
           }
-          accountsStore[currentUserId] = { passwordHash: hashPassword(newPassword) };
+          const account = accountsStore[currentUserId] || {};
+          // A session token alone isn't enough to take over the account
+          if (!verifyPassword(currentPassword, account.passwordHash).ok) {
+            ws.send(
+              JSON.stringify({
+                type: "CHANGE_PASSWORD_RESULT",
+                success: false,
+                reason: "BAD_PASSWORD",
+              }),
+            );
+            return;
+          }
+          // Bumping tokenVersion invalidates every session token issued so far
+          accountsStore[currentUserId] = {
+            ...account,
+            passwordHash: hashPassword(newPassword),
+            tokenVersion: (account.tokenVersion || 0) + 1,
+          };
           saveAccounts(accountsStore);
           ws.send(JSON.stringify({ type: "CHANGE_PASSWORD_RESULT", success: true }));
           return;
         }
+
+        // Key directory lookup; answers for offline accounts too
+        if (message.type === "GET_PUBLIC_KEY") {
+          if (!authenticated) return;
+          const { userId } = message;
+          const online = clients.get(userId);
+          const account = accountsStore[userId];
+          const publicKey = (online && online.publicKey) || (account && account.publicKey) || null;
+          const preKeyBundle = (account && account.preKeyBundle) || null;
+          ws.send(JSON.stringify({ type: "GET_PUBLIC_KEY_RESULT", userId, publicKey, preKeyBundle }));
+          return;
+        }
+
+        if (message.type === "LOGOUT") {
+          if (!authenticated) return;
+          revokeSession(currentSession);
+          currentSession = null;
+          console.log(`User ${currentUserId} logged out, session revoked`);
+          return;
+        }
       } catch (e) {
         console.error("Failed to parse message", e);
       }
@@ -370,4 +1030,4 @@ if (require.main === module) {
   startServer(PORT, HOST);
 }
 
-module.exports = { startServer };
+module.exports = { startServer, hashPassword, verifyPassword };
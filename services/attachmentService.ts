@@ -0,0 +1,566 @@
+// services/attachmentService.ts
+// Images and files are encrypted with a random per-file key and sent as ATTACHMENT_CHUNK frames; the chat
+// message only carries the descriptor (key, digest, layout), end-to-end encrypted like any other
+// content. Files are kept encrypted on disk and only decrypted when they are displayed.
+import {
+  ATTACHMENT_CHUNK_SIZE,
+  ATTACHMENT_MAX_UNCLAIMED,
+  ATTACHMENT_RECEIVE_TIMEOUT_MS,
+  ATTACHMENT_UPLOAD_WINDOW,
+} from "../constants";
+import { Attachment, AttachmentChunk, Message, MessageType } from "../types";
+import { Bytes, concatBytes, fromBase64, readBlob, toBase64 } from "./encoding";
+import { logger } from "./logger";
+import { socketService } from "./socketService";
+import { storageService } from "./storageService";
+
+const TAG_LENGTH = 16;
+// Larger chunks than ours would only come from a peer we don't understand
+const MAX_CHUNK_SIZE = 1024 * 1024;
+const MAX_NAME_LENGTH = 255;
+const MAX_WAVEFORM_BARS = 100;
+const MIME_PATTERN = /^[A-Za-z0-9.+-]+\/[A-Za-z0-9.+-]+$/;
+
+export const FILE_TOO_LARGE = "FILE_TOO_LARGE";
+
+export type AttachmentProgress = {
+  attachmentId: string;
+  direction: "upload" | "download";
+  done: number;
+  total: number;
+  failed?: boolean;
+};
+
+type ProgressHandler = (progress: AttachmentProgress) => void;
+type CompleteHandler = (message: Message) => void;
+
+// A file on its way from `senderId`. Electron appends each chunk to disk as it comes (see
+// fileService.saveChunk), so only the indices are kept here; the browser build has nowhere
+// else to put the chunks. `bytes` counts plaintext, for the size limit.
+type ReceiveBuffer = {
+  senderId: string;
+  received: Set<number>;
+  chunks: Map<number, Bytes>;
+  bytes: number;
+  updatedAt: number;
+};
+
+function randomId(): string {
+  return Array.from(window.crypto.getRandomValues(new Uint8Array(16)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Chunk index in the last four bytes: each file has its own key, so the index keeps IVs unique
+function chunkParams(attachment: Attachment, index: number): AesGcmParams {
+  const iv = new Uint8Array(12);
+  new DataView(iv.buffer).setUint32(8, index);
+  const aad = `${attachment.id}|${index}|${attachment.chunks}`;
+  return { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(aad) };
+}
+
+function importFileKey(attachment: Attachment): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey(
+    "raw",
+    fromBase64(attachment.key),
+    { name: "AES-GCM" },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function sha256(bytes: Bytes): Promise<string> {
+  return toBase64(await window.crypto.subtle.digest("SHA-256", bytes));
+}
+
+function toDataUrl(mimeType: string, bytes: Bytes): string {
+  return `data:${mimeType};base64,${toBase64(bytes)}`;
+}
+
+function parseDataUrl(dataUrl: string): { mimeType: string; bytes: Bytes } {
+  const match = dataUrl.match(/^data:([A-Za-z0-9.+-]+\/[A-Za-z0-9.+-]+);base64,(.*)$/);
+  if (!match) throw new Error("Not a data URL");
+  return { mimeType: match[1], bytes: fromBase64(match[2]) };
+}
+
+// Media shown inline must really be of its kind
+const REQUIRED_MIME_PREFIX: Partial<Record<MessageType, string>> = {
+  [MessageType.IMAGE]: "image/",
+  [MessageType.AUDIO]: "audio/",
+};
+
+function isWaveform(value: any): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_WAVEFORM_BARS &&
+    value.every((v) => typeof v === "number" && v >= 0 && v <= 1)
+  );
+}
+
+function isAttachment(value: any, type: MessageType): value is Attachment {
+  return (
+    !!value &&
+    typeof value.id === "string" &&
+    /^[a-f0-9]{32}$/.test(value.id) &&
+    typeof value.key === "string" &&
+    typeof value.digest === "string" &&
+    typeof value.mimeType === "string" &&
+    MIME_PATTERN.test(value.mimeType) &&
+    value.mimeType.startsWith(REQUIRED_MIME_PREFIX[type] || "") &&
+    (value.name === undefined ||
+      (typeof value.name === "string" && value.name.length <= MAX_NAME_LENGTH)) &&
+    (value.duration === undefined || (Number.isFinite(value.duration) && value.duration >= 0)) &&
+    (value.waveform === undefined || isWaveform(value.waveform)) &&
+    Number.isInteger(value.size) &&
+    value.size >= 0 &&
+    value.size <= socketService.getMaxFileSize() &&
+    Number.isInteger(value.chunkSize) &&
+    value.chunkSize > 0 &&
+    value.chunkSize <= MAX_CHUNK_SIZE &&
+    value.chunks === Math.max(1, Math.ceil(value.size / value.chunkSize))
+  );
+}
+
+class AttachmentService {
+  private progressHandlers: Set<ProgressHandler> = new Set();
+  private completeHandlers: Set<CompleteHandler> = new Set();
+  private progress: Map<string, AttachmentProgress> = new Map();
+  // Received messages whose file is still on its way, and the chunks seen so far. Chunks are
+  // sent ahead of the message, so either side may show up first.
+  private awaiting: Map<string, Message> = new Map();
+  private buffers: Map<string, ReceiveBuffer> = new Map();
+  // Received in full this session; chunks sent again after that are repeats
+  private finished: Set<string> = new Set();
+  // Chunks are taken one at a time, so a chunk counts as received only once it is kept
+  private receiving: Promise<void> = Promise.resolve();
+
+  constructor() {
+    socketService.onAttachmentChunk((chunk) => {
+      this.receiving = this.receiving
+        .then(() => this.receiveChunk(chunk))
+        .catch((e) => logger.error("Attachment", `Bad chunk of ${chunk.attachmentId}`, e));
+    });
+    socketService.onAuthResult((result) => {
+      if (result.success) {
+        this.resumeAll();
+      }
+    });
+  }
+
+  // Encrypt a picked file and keep the ciphertext. `content` is what the message stores:
+  // the file name in Electron, a data URL in the browser build. Rejects with FILE_TOO_LARGE
+  // above the size limit.
+  async prepare(
+    file: Blob,
+    mimeType: string,
+    details: Pick<Attachment, "name" | "duration" | "waveform"> = {},
+  ): Promise<{ content: string; attachment: Attachment }> {
+    if (file.size > socketService.getMaxFileSize()) throw new Error(FILE_TOO_LARGE);
+    const key = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+      "encrypt",
+      "decrypt",
+    ]);
+    const attachment: Attachment = {
+      id: randomId(),
+      key: toBase64(await window.crypto.subtle.exportKey("raw", key)),
+      digest: "",
+      size: file.size,
+      mimeType: MIME_PATTERN.test(mimeType) ? mimeType : "application/octet-stream",
+      ...details,
+      ...(details.name ? { name: details.name.slice(0, MAX_NAME_LENGTH) } : {}),
+      chunkSize: ATTACHMENT_CHUNK_SIZE,
+      chunks: Math.max(1, Math.ceil(file.size / ATTACHMENT_CHUNK_SIZE)),
+    };
+    if (window.electronAPI) return this.store(attachment, file);
+    // The browser build has nowhere to put files and keeps a data URL in the message
+    const bytes = await readBlob(file);
+    return {
+      content: toDataUrl(attachment.mimeType, bytes),
+      attachment: { ...attachment, digest: await sha256(bytes) },
+    };
+  }
+
+  prepareDataUrl(dataUrl: string): Promise<{ content: string; attachment: Attachment }> {
+    const { mimeType, bytes } = parseDataUrl(dataUrl);
+    return this.prepare(new Blob([bytes]), mimeType);
+  }
+
+  // Send the file ahead of its message, a few chunks at a time. Chunks the server has acked
+  // are remembered, so after a dropped connection (or restart) only the rest goes out.
+  async upload(message: Message, recipientId: string): Promise<void> {
+    const attachment = message.attachment!;
+    const acked = new Set(await storageService.getUploadedChunks(attachment.id));
+    const remaining = Array.from({ length: attachment.chunks }, (_, i) => i).filter(
+      (i) => !acked.has(i),
+    );
+    if (acked.size > 0) {
+      logger.info("Attachment", `Resuming ${attachment.id} at ${acked.size}/${attachment.chunks}`);
+    }
+    const readChunk = this.chunkReader(message);
+
+    const sendNext = async () => {
+      while (remaining.length > 0) {
+        const index = remaining.shift()!;
+        await socketService.sendAttachmentChunk(recipientId, {
+          attachmentId: attachment.id,
+          index,
+          total: attachment.chunks,
+          data: toBase64(await readChunk(index)),
+        });
+        acked.add(index);
+        await storageService.addUploadedChunks(attachment.id, [index]);
+        this.report({
+          attachmentId: attachment.id,
+          direction: "upload",
+          done: acked.size,
+          total: attachment.chunks,
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: ATTACHMENT_UPLOAD_WINDOW }, sendNext));
+  }
+
+  // Once the message itself went out the upload has nothing left to resume
+  async finishUpload(attachmentId: string): Promise<void> {
+    await storageService.removeUploadedChunks(attachmentId);
+  }
+
+  // The descriptor replaces the content on the wire; the stored file name never leaves
+  toWireMessage(message: Message): Message {
+    const { attachment, ...rest } = message;
+    return attachment ? { ...rest, content: JSON.stringify(attachment) } : message;
+  }
+
+  // An incoming image or file as it can be shown right away: waiting for its file, or, for
+  // images from older clients, still a data URL
+  fromWireMessage(message: Message): Message {
+    const carriesFile = [MessageType.IMAGE, MessageType.FILE, MessageType.AUDIO].includes(
+      message.type,
+    );
+    if (!carriesFile || message.sealed || !message.content.startsWith("{")) {
+      return message;
+    }
+    try {
+      const attachment = JSON.parse(message.content);
+      if (isAttachment(attachment, message.type)) return { ...message, content: "", attachment };
+    } catch {
+      // Not a descriptor
+    }
+    logger.warn("Attachment", `Ignoring malformed attachment in ${message.id}`);
+    return { ...message, content: "" };
+  }
+
+  // What gets persisted for an incoming image. Data URLs from older clients are encrypted
+  // locally, so no image lands on disk in clear.
+  async toStored(message: Message): Promise<Message> {
+    const opened = this.fromWireMessage(message);
+    if (
+      opened.type !== MessageType.IMAGE ||
+      !opened.content.startsWith("data:") ||
+      !window.electronAPI
+    ) {
+      return opened;
+    }
+    return { ...opened, ...(await this.prepareDataUrl(opened.content)) };
+  }
+
+  // Start waiting for the file of a stored message (chunks may already be here, or on disk
+  // from before a restart)
+  async track(message: Message): Promise<void> {
+    if (!message.attachment || message.content) return;
+    const { id } = message.attachment;
+    this.awaiting.set(id, message);
+    await storageService.addReceivingAttachment(id, {
+      messageId: message.id,
+      conversationId: message.conversationId,
+    });
+    await this.restore(id);
+    await this.tryComplete(id);
+  }
+
+  isReceiving(attachmentId: string): boolean {
+    return this.awaiting.has(attachmentId);
+  }
+
+  getProgress(attachmentId: string): AttachmentProgress | undefined {
+    return this.progress.get(attachmentId);
+  }
+
+  onProgress(handler: ProgressHandler) {
+    this.progressHandlers.add(handler);
+    return () => this.progressHandlers.delete(handler);
+  }
+
+  // A received file was verified and stored; the message now points at it
+  onComplete(handler: CompleteHandler) {
+    this.completeHandlers.add(handler);
+    return () => this.completeHandlers.delete(handler);
+  }
+
+  private async encryptChunks(attachment: Attachment, bytes: Bytes): Promise<Bytes[]> {
+    const key = await importFileKey(attachment);
+    const chunks: Bytes[] = [];
+    for (let index = 0; index < attachment.chunks; index++) {
+      const plain = bytes.slice(index * attachment.chunkSize, (index + 1) * attachment.chunkSize);
+      const sealed = await window.crypto.subtle.encrypt(chunkParams(attachment, index), key, plain);
+      chunks.push(new Uint8Array(sealed));
+    }
+    return chunks;
+  }
+
+  // Throws unless every chunk authenticates and the result matches the sender's digest
+  private async decryptChunks(attachment: Attachment, chunks: Bytes[]): Promise<Bytes> {
+    const key = await importFileKey(attachment);
+    const parts: Bytes[] = [];
+    for (let index = 0; index < chunks.length; index++) {
+      const params = chunkParams(attachment, index);
+      parts.push(new Uint8Array(await window.crypto.subtle.decrypt(params, key, chunks[index])));
+    }
+    const bytes = concatBytes(...parts);
+    if (bytes.length !== attachment.size || (await sha256(bytes)) !== attachment.digest) {
+      throw new Error(`Attachment ${attachment.id} failed its integrity check`);
+    }
+    return bytes;
+  }
+
+  // Electron keeps the ciphertext in the images directory. The file is read, encrypted and
+  // handed to main one chunk at a time; main works out the digest from what it was given, so
+  // the whole file is never held here.
+  private async store(
+    attachment: Attachment,
+    file: Blob,
+  ): Promise<{ content: string; attachment: Attachment }> {
+    const electronAPI = window.electronAPI!;
+    const key = await importFileKey(attachment);
+    try {
+      for (let index = 0; index < attachment.chunks; index++) {
+        const start = index * attachment.chunkSize;
+        const plain = await readBlob(file.slice(start, start + attachment.chunkSize));
+        const sealed = await window.crypto.subtle.encrypt(chunkParams(attachment, index), key, plain);
+        await electronAPI.invoke("file:append-upload", {
+          id: attachment.id,
+          index,
+          data: toBase64(sealed),
+        });
+      }
+      const stored = await electronAPI.invoke("file:finish-upload", attachment);
+      if (!stored) throw new Error(`Could not store ${attachment.id}`);
+      return { content: stored.filename, attachment: { ...attachment, digest: stored.digest } };
+    } catch (e) {
+      await electronAPI.invoke("file:discard-upload", attachment.id);
+      throw e;
+    }
+  }
+
+  private chunkReader(message: Message): (index: number) => Promise<Bytes> {
+    const attachment = message.attachment!;
+    if (!window.electronAPI) {
+      // Same key and IVs, so this reproduces the chunks exactly
+      const encrypted = this.encryptChunks(attachment, parseDataUrl(message.content).bytes);
+      return async (index) => (await encrypted)[index];
+    }
+    const stride = attachment.chunkSize + TAG_LENGTH;
+    return async (index) => {
+      const stored = await window.electronAPI!.invoke("file:read-attachment", {
+        filename: message.content,
+        start: index * stride,
+        end: (index + 1) * stride,
+      });
+      if (!stored) throw new Error(`Attachment ${message.content} is missing`);
+      return fromBase64(stored);
+    };
+  }
+
+  // Files still on their way when we last ran; what came of them so far is on disk
+  private async resumeAll() {
+    try {
+      const receiving = Object.entries(await storageService.getReceivingAttachments());
+      for (const [attachmentId, { messageId, conversationId }] of receiving) {
+        if (this.awaiting.has(attachmentId)) continue;
+        const message = (await storageService.getMessages(conversationId)).find(
+          (m) => m.id === messageId,
+        );
+        if (!message?.attachment || message.content) {
+          await storageService.removeReceivingAttachment(attachmentId);
+          continue;
+        }
+        await this.track(message);
+      }
+    } catch (e) {
+      logger.error("Attachment", "Failed to resume receiving attachments", e);
+    }
+  }
+
+  // Adds the chunks Electron kept on disk, e.g. from before a restart. Main only keeps chunks
+  // from the sender of the first one, so the senders agree.
+  private async restore(attachmentId: string) {
+    if (!window.electronAPI) return;
+    const stored = await window.electronAPI.invoke("file:list-chunks", attachmentId);
+    if (!stored || !this.awaiting.has(attachmentId)) return;
+    const buffer = this.buffers.get(attachmentId) || {
+      senderId: stored.from,
+      received: new Set<number>(),
+      chunks: new Map(),
+      bytes: 0,
+      updatedAt: Date.now(),
+    };
+    stored.indices.forEach((index: number) => buffer.received.add(index));
+    buffer.bytes = Math.max(buffer.bytes, stored.bytes - stored.indices.length * TAG_LENGTH);
+    this.buffers.set(attachmentId, buffer);
+  }
+
+  // Only the uploader of an attachment gets to fill it in, and until its message is here a
+  // file may not grow beyond the size limit, nor may more than a few be on their way
+  private async receiveChunk(chunk: AttachmentChunk) {
+    this.evictStale();
+    const { attachmentId, index, total, from } = chunk;
+    if (!/^[a-f0-9]{32}$/.test(attachmentId) || index < 0 || index >= total || !from) return;
+    if (this.finished.has(attachmentId)) return;
+    const message = this.awaiting.get(attachmentId);
+    const attachment = message?.attachment;
+    let buffer = this.buffers.get(attachmentId);
+    if (
+      (message && (from !== message.senderId || total !== attachment!.chunks)) ||
+      (buffer && from !== buffer.senderId)
+    ) {
+      logger.warn("Attachment", `Ignoring chunk of ${attachmentId} from ${from}`);
+      return;
+    }
+    if (buffer?.received.has(index)) return;
+
+    const data = fromBase64(chunk.data);
+    const size = data.length - TAG_LENGTH;
+    const limit = attachment ? attachment.size : socketService.getMaxFileSize();
+    if (size < 0 || size > (attachment?.chunkSize ?? MAX_CHUNK_SIZE)) return;
+    if (!buffer) {
+      if (this.unclaimedCount() >= ATTACHMENT_MAX_UNCLAIMED) {
+        logger.warn("Attachment", `Too many files on their way, dropping ${attachmentId}`);
+        return;
+      }
+      const updatedAt = Date.now();
+      buffer = { senderId: from, received: new Set(), chunks: new Map(), bytes: 0, updatedAt };
+      this.buffers.set(attachmentId, buffer);
+    }
+    if (buffer.bytes + size > limit) {
+      logger.warn("Attachment", `Attachment ${attachmentId} is larger than it may be`);
+      if (message) this.fail(attachmentId, total);
+      else this.discard(attachmentId);
+      return;
+    }
+
+    try {
+      await this.keepChunk(chunk, data, buffer);
+    } catch (e) {
+      logger.error("Attachment", `Failed to keep chunk ${index} of ${attachmentId}`, e);
+      return;
+    }
+    buffer.received.add(index);
+    buffer.bytes += size;
+    buffer.updatedAt = Date.now();
+    this.report({ attachmentId, direction: "download", done: buffer.received.size, total });
+    await this.tryComplete(attachmentId);
+  }
+
+  private async keepChunk(chunk: AttachmentChunk, data: Bytes, buffer: ReceiveBuffer) {
+    if (!window.electronAPI) {
+      buffer.chunks.set(chunk.index, data);
+      return;
+    }
+    const saved = await window.electronAPI.invoke("file:save-chunk", {
+      id: chunk.attachmentId,
+      index: chunk.index,
+      from: chunk.from,
+      data: chunk.data,
+    });
+    if (!saved) throw new Error("Chunk was not saved");
+  }
+
+  private unclaimedCount(): number {
+    let count = 0;
+    for (const attachmentId of this.buffers.keys()) {
+      if (!this.awaiting.has(attachmentId)) count++;
+    }
+    return count;
+  }
+
+  private async tryComplete(attachmentId: string) {
+    const message = this.awaiting.get(attachmentId);
+    const buffer = this.buffers.get(attachmentId);
+    if (!message || !buffer) return;
+    const attachment = message.attachment!;
+    if (buffer.senderId !== message.senderId) {
+      logger.warn("Attachment", `Chunks of ${attachmentId} came from ${buffer.senderId}`);
+      this.fail(attachmentId, attachment.chunks);
+      return;
+    }
+    for (let index = 0; index < attachment.chunks; index++) {
+      if (!buffer.received.has(index)) return;
+    }
+    this.awaiting.delete(attachmentId);
+    this.buffers.delete(attachmentId);
+    this.finished.add(attachmentId);
+
+    try {
+      const content = await this.assemble(attachment, buffer);
+      // Status may have moved on (e.g. read) since the message was tracked
+      const current = (await storageService.getMessages(message.conversationId)).find(
+        (m) => m.id === message.id,
+      );
+      const completed = { ...(current || message), content };
+      await storageService.updateMessage(completed);
+      await storageService.removeReceivingAttachment(attachmentId);
+      logger.info("Attachment", `Received attachment ${attachmentId} (${attachment.size} bytes)`);
+      this.progress.delete(attachmentId);
+      this.completeHandlers.forEach((h) => h(completed));
+    } catch (e) {
+      logger.error("Attachment", `Dropped attachment ${attachmentId}`, e);
+      this.fail(attachmentId, attachment.chunks);
+    }
+  }
+
+  // Electron joins and verifies the chunks it kept, so the file never crosses IPC whole; the
+  // browser build decrypts them here and keeps a data URL
+  private async assemble(attachment: Attachment, buffer: ReceiveBuffer): Promise<string> {
+    if (window.electronAPI) {
+      const filename = await window.electronAPI.invoke("file:finish-attachment", attachment);
+      if (!filename) throw new Error(`Attachment ${attachment.id} failed its integrity check`);
+      return filename;
+    }
+    const chunks = Array.from({ length: attachment.chunks }, (_, i) => buffer.chunks.get(i)!);
+    return toDataUrl(attachment.mimeType, await this.decryptChunks(attachment, chunks));
+  }
+
+  private fail(attachmentId: string, total: number) {
+    this.discard(attachmentId);
+    storageService.removeReceivingAttachment(attachmentId).catch(() => {});
+    this.report({ attachmentId, direction: "download", done: 0, total, failed: true });
+  }
+
+  // Forget a half-received file, along with whatever Electron kept of it
+  private discard(attachmentId: string) {
+    this.awaiting.delete(attachmentId);
+    this.buffers.delete(attachmentId);
+    window.electronAPI?.invoke("file:discard-chunks", attachmentId);
+  }
+
+  // Half-received files whose remaining chunks never came
+  private evictStale() {
+    const cutoff = Date.now() - ATTACHMENT_RECEIVE_TIMEOUT_MS;
+    for (const [attachmentId, buffer] of this.buffers) {
+      if (buffer.updatedAt >= cutoff) continue;
+      if (this.awaiting.has(attachmentId)) {
+        logger.warn("Attachment", `Gave up on attachment ${attachmentId}`);
+        this.fail(attachmentId, 0);
+      } else {
+        this.discard(attachmentId);
+      }
+    }
+  }
+
+  private report(progress: AttachmentProgress) {
+    this.progress.set(progress.attachmentId, progress);
+    this.progressHandlers.forEach((h) => h(progress));
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,420 @@
+// services/callService.ts
+// One-to-one voice and video calls over WebRTC. Offer, answer and ICE candidates travel as
+// end-to-end encrypted signals through the server; media flows peer to peer. Both sides log the
+// call into the conversation when it ends. Media capture and the peer connection are
+// injectable, so the state machine runs against fakes in tests.
+import { CALL_ICE_SERVERS, CALL_RING_TIMEOUT_MS } from "../constants";
+import { CallMedia, CallOutcome, CallRecord, Message, MessageStatus, MessageType } from "../types";
+import { logger } from "./logger";
+import { CallSignal, socketService } from "./socketService";
+import { storageService } from "./storageService";
+
+// The parts of RTCPeerConnection we use
+export interface PeerConnectionLike {
+  connectionState: string;
+  onicecandidate: ((event: RTCPeerConnectionIceEvent) => void) | null;
+  ontrack: ((event: RTCTrackEvent) => void) | null;
+  onconnectionstatechange: ((event: Event) => void) | null;
+  addTrack(track: MediaStreamTrack, ...streams: MediaStream[]): unknown;
+  createOffer(): Promise<RTCSessionDescriptionInit>;
+  createAnswer(): Promise<RTCSessionDescriptionInit>;
+  setLocalDescription(description: RTCSessionDescriptionInit): Promise<void>;
+  setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void>;
+  addIceCandidate(candidate: RTCIceCandidateInit): Promise<void>;
+  close(): void;
+}
+
+export interface CallServiceDeps {
+  getMedia: (media: CallMedia) => Promise<MediaStream>;
+  createPeerConnection: () => PeerConnectionLike;
+  now: () => number;
+}
+
+// incoming/outgoing: ringing. connecting: answered, media not flowing yet. active: connected.
+export type CallPhase = "outgoing" | "incoming" | "connecting" | "active";
+
+export interface CallState {
+  id: string;
+  peerId: string;
+  media: CallMedia;
+  direction: "outgoing" | "incoming";
+  phase: CallPhase;
+  muted: boolean;
+  cameraOff: boolean;
+  connectedAt: number | null;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+}
+
+type Call = CallState & {
+  pc: PeerConnectionLike | null;
+  offer: string | null; // incoming only, until answered
+  // Candidates that arrived before the remote description was set
+  pendingCandidates: RTCIceCandidateInit[];
+  hasRemoteDescription: boolean;
+  ringTimer: any;
+};
+
+type StateHandler = (state: CallState | null) => void;
+type LoggedHandler = (message: Message) => void;
+
+const browserDeps: CallServiceDeps = {
+  getMedia: (media) =>
+    navigator.mediaDevices.getUserMedia({ audio: true, video: media === "video" }),
+  createPeerConnection: () => new RTCPeerConnection({ iceServers: CALL_ICE_SERVERS }),
+  now: () => Date.now(),
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Summary stored as the log message's content, so previews and search show it as is
+export function describeCall(record: CallRecord): string {
+  const kind = record.media === "video" ? "视频通话" : "语音通话";
+  switch (record.outcome) {
+    case "completed":
+      return `${kind} ${formatDuration(record.duration || 0)}`;
+    case "missed":
+      return `未接${kind}`;
+    case "declined":
+      return record.direction === "outgoing" ? `对方已拒绝${kind}` : `已拒绝${kind}`;
+    case "cancelled":
+      return `已取消${kind}`;
+    case "unanswered":
+      return `${kind}未接通`;
+    case "failed":
+      return `${kind}连接失败`;
+  }
+}
+
+export class CallService {
+  private call: Call | null = null;
+  private stateHandlers: Set<StateHandler> = new Set();
+  private loggedHandlers: Set<LoggedHandler> = new Set();
+
+  constructor(private deps: CallServiceDeps = browserDeps) {
+    socketService.onCallSignal((signal) => {
+      this.handleSignal(signal).catch((e) =>
+        logger.error("Call", `Failed to handle ${signal.type} for ${signal.callId}`, e),
+      );
+    });
+  }
+
+  getState(): CallState | null {
+    return this.call ? this.snapshot(this.call) : null;
+  }
+
+  // Rejects when a call is already going on, or the microphone / camera can't be opened
+  async start(peerId: string, media: CallMedia): Promise<void> {
+    if (this.call) throw new Error("Already in a call");
+    const call = this.createCall(
+      `call_${this.deps.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      peerId,
+      media,
+      "outgoing",
+    );
+    this.call = call;
+    call.ringTimer = setTimeout(() => this.hangUp("timeout"), CALL_RING_TIMEOUT_MS);
+    this.emit();
+    try {
+      await this.openMedia(call);
+      const offer = await call.pc!.createOffer();
+      await call.pc!.setLocalDescription(offer);
+      if (this.call !== call) return;
+      await socketService.sendCallSignal(peerId, {
+        type: "CALL_OFFER",
+        callId: call.id,
+        media,
+        sdp: offer.sdp,
+      });
+    } catch (e) {
+      // Hung up while the devices were still opening
+      if (this.call !== call) return;
+      this.release(call);
+      throw e;
+    }
+  }
+
+  // Answers the ringing incoming call; rejects when the microphone / camera can't be opened
+  async accept(): Promise<void> {
+    const call = this.call;
+    if (!call || call.phase !== "incoming" || !call.offer) return;
+    clearTimeout(call.ringTimer);
+    call.phase = "connecting";
+    this.emit();
+    try {
+      await this.openMedia(call);
+      await this.applyRemoteDescription(call, { type: "offer", sdp: call.offer });
+      const answer = await call.pc!.createAnswer();
+      await call.pc!.setLocalDescription(answer);
+      call.offer = null;
+      if (this.call !== call) return;
+      await socketService.sendCallSignal(call.peerId, {
+        type: "CALL_ANSWER",
+        callId: call.id,
+        sdp: answer.sdp,
+      });
+    } catch (e) {
+      if (this.call !== call) return;
+      await this.end(call, "failed", "failed");
+      throw e;
+    }
+  }
+
+  decline(): Promise<void> {
+    return this.hangUp("declined");
+  }
+
+  // Ends the current call, whatever phase it is in
+  async hangUp(reason: string = "hangup"): Promise<void> {
+    const call = this.call;
+    if (!call) return;
+    await this.end(call, this.outcomeOf(call, reason, true), reason);
+  }
+
+  toggleMute() {
+    if (!this.call) return;
+    this.call.muted = !this.call.muted;
+    this.call.localStream?.getAudioTracks().forEach((t) => (t.enabled = !this.call!.muted));
+    this.emit();
+  }
+
+  toggleCamera() {
+    if (!this.call || this.call.media !== "video") return;
+    this.call.cameraOff = !this.call.cameraOff;
+    this.call.localStream?.getVideoTracks().forEach((t) => (t.enabled = !this.call!.cameraOff));
+    this.emit();
+  }
+
+  // Called with the new state on every change, and with null once the call is over
+  onStateChange(handler: StateHandler) {
+    this.stateHandlers.add(handler);
+    return () => this.stateHandlers.delete(handler);
+  }
+
+  // Called with each call log entry after it has been stored
+  onLogged(handler: LoggedHandler) {
+    this.loggedHandlers.add(handler);
+    return () => this.loggedHandlers.delete(handler);
+  }
+
+  private async handleSignal(signal: CallSignal) {
+    const call = this.call;
+    if (signal.type === "CALL_OFFER") {
+      await this.handleOffer(signal);
+      return;
+    }
+    // Everything else belongs to the current call, and only its peer may send it
+    if (!call || call.id !== signal.callId || call.peerId !== signal.from) return;
+
+    if (signal.type === "CALL_ANSWER") {
+      if (call.direction !== "outgoing" || call.phase !== "outgoing" || !signal.sdp) return;
+      clearTimeout(call.ringTimer);
+      call.phase = "connecting";
+      this.emit();
+      await this.applyRemoteDescription(call, { type: "answer", sdp: signal.sdp });
+      return;
+    }
+    if (signal.type === "ICE_CANDIDATE") {
+      if (!signal.candidate) return;
+      if (call.hasRemoteDescription) {
+        await call.pc!.addIceCandidate(signal.candidate);
+      } else {
+        call.pendingCandidates.push(signal.candidate);
+      }
+      return;
+    }
+    // CALL_END
+    await this.end(call, this.outcomeOf(call, signal.reason, false), null);
+  }
+
+  // How the call ended for us, given the phase it was in and why it ended. `local`: we ended it.
+  private outcomeOf(call: Call, reason: string | undefined, local: boolean): CallOutcome {
+    if (call.phase === "active") return "completed";
+    if (reason === "declined") return "declined";
+    if (call.phase === "incoming") return "missed";
+    if (call.phase === "outgoing") return local && reason !== "timeout" ? "cancelled" : "unanswered";
+    // Answered, but media never started flowing
+    return reason === "failed" ? "failed" : "completed";
+  }
+
+  private async handleOffer(signal: CallSignal) {
+    if (!signal.sdp) return;
+    const contacts = await storageService.getContacts();
+    if (!contacts.some((c) => c.id === signal.from)) {
+      logger.warn("Call", `Ignored a call from ${signal.from}, who isn't a contact`);
+      return;
+    }
+    const media = signal.media || "audio";
+    if (this.call?.id === signal.callId) return;
+    if (this.call) {
+      // Busy: the caller hears a decline and we still see that they tried
+      logger.info("Call", `Rejected ${signal.callId} from ${signal.from} while in another call`);
+      this.sendEnd(signal.from, signal.callId, "busy");
+      await this.log(signal.callId, signal.from, { media, direction: "incoming", outcome: "missed" });
+      return;
+    }
+    const call = this.createCall(signal.callId, signal.from, media, "incoming");
+    call.offer = signal.sdp;
+    call.ringTimer = setTimeout(() => this.hangUp("timeout"), CALL_RING_TIMEOUT_MS);
+    this.call = call;
+    this.emit();
+  }
+
+  private createCall(
+    id: string,
+    peerId: string,
+    media: CallMedia,
+    direction: "outgoing" | "incoming",
+  ): Call {
+    return {
+      id,
+      peerId,
+      media,
+      direction,
+      phase: direction,
+      muted: false,
+      cameraOff: false,
+      connectedAt: null,
+      localStream: null,
+      remoteStream: null,
+      pc: null,
+      offer: null,
+      pendingCandidates: [],
+      hasRemoteDescription: false,
+      ringTimer: null,
+    };
+  }
+
+  // Captures the microphone (and camera) and sets up the peer connection around it
+  private async openMedia(call: Call) {
+    const stream = await this.deps.getMedia(call.media);
+    if (this.call !== call) {
+      stream.getTracks().forEach((t) => t.stop());
+      throw new Error("Call ended while opening media");
+    }
+    call.localStream = stream;
+    const pc = this.deps.createPeerConnection();
+    call.pc = pc;
+    stream.getTracks().forEach((track) => pc.addTrack(track, stream));
+
+    pc.onicecandidate = (event) => {
+      if (!event.candidate || this.call !== call) return;
+      socketService
+        .sendCallSignal(call.peerId, {
+          type: "ICE_CANDIDATE",
+          callId: call.id,
+          candidate: event.candidate.toJSON(),
+        })
+        .catch((e) => logger.warn("Call", `Failed to send ICE candidate for ${call.id}`, e));
+    };
+    pc.ontrack = (event) => {
+      call.remoteStream = event.streams[0] || new MediaStream([event.track]);
+      this.emit();
+    };
+    pc.onconnectionstatechange = () => {
+      if (this.call !== call) return;
+      if (pc.connectionState === "connected" && call.phase !== "active") {
+        call.phase = "active";
+        call.connectedAt = this.deps.now();
+        logger.info("Call", `Call ${call.id} with ${call.peerId} connected`);
+        this.emit();
+      } else if (pc.connectionState === "failed") {
+        logger.warn("Call", `Call ${call.id} with ${call.peerId} lost its connection`);
+        this.hangUp("failed");
+      }
+    };
+    this.emit();
+  }
+
+  private async applyRemoteDescription(call: Call, description: RTCSessionDescriptionInit) {
+    await call.pc!.setRemoteDescription(description);
+    call.hasRemoteDescription = true;
+    const pending = call.pendingCandidates;
+    call.pendingCandidates = [];
+    for (const candidate of pending) {
+      await call.pc!.addIceCandidate(candidate);
+    }
+  }
+
+  // `reason` is what the peer is told; null when the peer ended the call itself
+  private async end(call: Call, outcome: CallOutcome, reason: string | null) {
+    if (this.call !== call) return;
+    const duration = call.connectedAt !== null ? this.deps.now() - call.connectedAt : 0;
+    this.release(call);
+    if (reason) this.sendEnd(call.peerId, call.id, reason);
+    logger.info("Call", `Call ${call.id} with ${call.peerId} ended: ${outcome}`);
+    await this.log(call.id, call.peerId, {
+      media: call.media,
+      direction: call.direction,
+      outcome,
+      ...(outcome === "completed" ? { duration } : {}),
+    });
+  }
+
+  private release(call: Call) {
+    clearTimeout(call.ringTimer);
+    call.localStream?.getTracks().forEach((t) => t.stop());
+    call.pc?.close();
+    this.call = null;
+    this.emit();
+  }
+
+  private sendEnd(peerId: string, callId: string, reason: string) {
+    socketService
+      .sendCallSignal(peerId, { type: "CALL_END", callId, reason })
+      .catch((e) => logger.warn("Call", `Failed to send CALL_END for ${callId}`, e));
+  }
+
+  // Adds the call to the conversation with `peerId`, attributed to whoever placed the call
+  private async log(callId: string, peerId: string, record: CallRecord) {
+    try {
+      const convo = (await storageService.getConversations()).find(
+        (c) => c.kind !== "group" && c.participantId === peerId,
+      );
+      const user = await storageService.getCurrentUser();
+      if (!convo || !user) return;
+      const message: Message = {
+        id: callId,
+        conversationId: convo.id,
+        senderId: record.direction === "outgoing" ? user.id : peerId,
+        content: describeCall(record),
+        type: MessageType.CALL,
+        // Nothing to acknowledge to the other side
+        status: MessageStatus.READ,
+        timestamp: this.deps.now(),
+        call: record,
+      };
+      await storageService.saveMessage(message);
+      this.loggedHandlers.forEach((h) => h(message));
+    } catch (e) {
+      logger.error("Call", `Failed to log call ${callId}`, e);
+    }
+  }
+
+  private snapshot(call: Call): CallState {
+    const { id, peerId, media, direction, phase, muted, cameraOff, connectedAt } = call;
+    const { localStream, remoteStream } = call;
+    return {
+      id,
+      peerId,
+      media,
+      direction,
+      phase,
+      muted,
+      cameraOff,
+      connectedAt,
+      localStream,
+      remoteStream,
+    };
+  }
+
+  private emit() {
+    const state = this.getState();
+    this.stateHandlers.forEach((h) => h(state));
+  }
+}
+
+export const callService = new CallService();
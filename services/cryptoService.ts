@@ -1,4 +1,30 @@
 // services/cryptoService.ts
+import {
+  RatchetHeader,
+  RatchetState,
+  SerializedKeyPair,
+  canSend,
+  dh,
+  generateKeyPair,
+  hkdf,
+  importPrivateKey,
+  importPublicKey,
+  initInitiator,
+  initResponder,
+  parseMessage,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  RATCHET_PREFIX,
+} from "./doubleRatchet";
+import { Bytes, concatBytes } from "./encoding";
+import {
+  WrappedDataKey,
+  createDataKey,
+  seal,
+  unseal,
+  unwrapDataKey,
+  wrapDataKey,
+} from "./keyVault";
 
 // Utilities for converting ArrayBuffer to Base64 and back
 function arrayBufferToBase64(buffer: ArrayBuffer): string {
@@ -21,58 +47,225 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+// AES-GCM parameters; `context` (e.g. message id and timestamp) is authenticated as additional
+// data, so a ciphertext moved to another message no longer decrypts
+function gcmParams(iv: Uint8Array<ArrayBuffer>, context?: string): AesGcmParams {
+  if (!context) return { name: "AES-GCM", iv };
+  return { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(context) };
+}
+
+// What decryption yields when the key is missing or the ciphertext doesn't check out
+export const DECRYPTION_FAILED = "[Decryption Failed]";
+// Thrown by init when the stored keys are password protected and can't be unwrapped
+export const KEYS_LOCKED = "KEYS_LOCKED";
+// Reported on login when the server takes the password but it doesn't unwrap the stored keys
+export const KEYS_STALE = "KEYS_STALE";
+
+// For stored keys the login password doesn't unwrap because it was changed on another device:
+// unlock them with the password they were wrapped with, or start over with new keys
+export type KeyRecovery = { previousPassword: string } | { reset: true };
+
+const BASE64_PART = /^[A-Za-z0-9+/]+={0,2}$/;
+// 12-byte AES-GCM IV in base64
+const IV_LENGTH = 16;
+
+// Published through the key directory so contacts can start a session while we are offline
+export interface PreKeyBundle {
+  identityKey: string; // ECDH identity key (JWK string), same as the directory key
+  signingKey: string; // ECDSA key (JWK string) the prekey is signed with
+  signedPreKey: { id: string; key: string }; // raw P-256 public key, base64
+  signature: string; // over identityKey|id|key
+}
+
+type StoredPreKey = { id: string; pair: SerializedKeyPair; createdAt: number };
+
+// Signed prekeys are replaced weekly; older ones stay usable for handshakes still in flight
+const SIGNED_PREKEY_ROTATION_MS = 7 * 24 * 60 * 60 * 1000;
+const OLD_SIGNED_PREKEYS = 2;
+// More than one session per contact exists briefly when both sides start a handshake at once
+const SESSIONS_PER_CONTACT = 3;
+const X3DH_INFO = "QChatX3DH";
+const ECDSA = { name: "ECDSA", namedCurve: "P-256" };
+const ECDSA_SHA256 = { name: "ECDSA", hash: "SHA-256" };
+
+export interface SenderKeyDistribution {
+  groupId: string;
+  keyId: string;
+  key: string; // raw AES-GCM key, base64
+}
+
+// How many of a member's sender keys we keep, so messages sent just before a rotation still decrypt
+const RECEIVING_KEYS_PER_SENDER = 2;
+type IdentityKeyChangeHandler = (userId: string, previousKey: string, newKey: string) => void;
+
+// Hash iterations per safety number half; slows down searching for a key with a colliding number
+const FINGERPRINT_ITERATIONS = 5200;
+
 class CryptoService {
   private keyPair: CryptoKeyPair | null = null;
   private sharedKeys: Map<string, CryptoKey> = new Map();
+  // Identity keys we derived shared keys from, as received from the server
+  private peerPublicKeys: Map<string, string> = new Map();
+  // Last identity key seen per contact, persisted so a key swapped in by the server is noticed
+  private knownKeys: Record<string, string> = {};
+  private identityKeyChangeHandlers: Set<IdentityKeyChangeHandler> = new Set();
   private myPublicKeyStr: string | null = null;
+  private userId: string | null = null;
+  // Group sender keys. Our own sending keys live only in memory (a fresh one per session);
+  // keys received from other members are persisted so queued messages decrypt after a restart.
+  private sendingKeys: Map<string, { keyId: string; key: CryptoKey; raw: string }> = new Map();
+  // groupId -> senderId -> keys, oldest first
+  private receivingKeys: Record<string, Record<string, { keyId: string; key: string }[]>> = {};
+  // Session layer: X3DH handshake from a signed prekey, then a Double Ratchet per contact
+  private signingKeyPair: CryptoKeyPair | null = null;
+  private signingPublicKeyStr: string | null = null;
+  private signedPreKeys: StoredPreKey[] = []; // newest first
+  private preKeyBundle: PreKeyBundle | null = null;
+  // Verified bundles of contacts, used to start a session on the next send
+  private peerBundles: Map<string, PreKeyBundle> = new Map();
+  // Per contact, most recently used first
+  private sessions: Record<string, RatchetState[]> = {};
+  // Key each contact's prekeys are signed with, pinned until their identity key changes
+  private knownSigningKeys: Record<string, string> = {};
+  private sessionLocks: Map<string, Promise<unknown>> = new Map();
+  // Private keys, prekeys, sessions and group keys are sealed under this data key once the
+  // user has logged in with a password; vault holds it wrapped with the password.
+  private dataKey: CryptoKey | null = null;
+  private vault: WrappedDataKey | null = null;
+  private keyStore: any = null;
+  private secretWrites: Promise<void> = Promise.resolve();
 
-  // Initialize keys (load from storage or generate new)
-  async init(userId: string): Promise<string> {
+  // Initialize keys (load from storage or generate new). With a password the keys are unwrapped
+  // with it (and wrapped, if they were still stored in plain text); without one, password
+  // protected keys stay locked, e.g. after a reload, and the user has to log in again.
+  async init(userId: string, password?: string, recovery?: KeyRecovery): Promise<string> {
+    this.userId = userId;
+    this.sendingKeys.clear();
+    this.peerBundles.clear();
+    this.loadKnownKeys();
+    if (recovery && "reset" in recovery) this.discardStoredKeys();
     const storageKey = `qchat_keys_${userId}`;
-    const storedKeys = localStorage.getItem(storageKey);
+    let stored: any;
+    try {
+      stored = await this.openKeyStore(storageKey, password, recovery);
+    } catch (e) {
+      // Stay locked, with nothing that could write the stores back unsealed
+      this.lock();
+      throw e;
+    }
+    await this.loadReceivingKeys();
+    await this.loadSessions();
 
-    if (storedKeys) {
+    if (stored) {
       try {
-        const { privateKeyJwk, publicKeyJwk } = JSON.parse(storedKeys);
         const privateKey = await window.crypto.subtle.importKey(
           "jwk",
-          privateKeyJwk,
+          stored.privateKeyJwk,
           { name: "ECDH", namedCurve: "P-256" },
           true,
           ["deriveKey", "deriveBits"],
         );
         const publicKey = await window.crypto.subtle.importKey(
           "jwk",
-          publicKeyJwk,
+          stored.publicKeyJwk,
           { name: "ECDH", namedCurve: "P-256" },
           true,
           [],
         );
         this.keyPair = { privateKey, publicKey };
-        this.myPublicKeyStr = JSON.stringify(publicKeyJwk);
+        this.myPublicKeyStr = JSON.stringify(stored.publicKeyJwk);
         console.log("[Crypto] Keys loaded from storage");
-        return this.myPublicKeyStr;
       } catch (e) {
         console.error("[Crypto] Failed to load keys, generating new ones", e);
+        stored = null;
       }
     }
 
-    // Generate new keys
-    this.keyPair = await window.crypto.subtle.generateKey(
-      { name: "ECDH", namedCurve: "P-256" },
-      true,
-      ["deriveKey", "deriveBits"],
-    );
+    if (!stored) {
+      // Generate new keys
+      this.keyPair = await window.crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-256" },
+        true,
+        ["deriveKey", "deriveBits"],
+      );
+
+      const publicKeyJwk = await window.crypto.subtle.exportKey("jwk", this.keyPair.publicKey);
+      const privateKeyJwk = await window.crypto.subtle.exportKey("jwk", this.keyPair.privateKey);
 
-    const publicKeyJwk = await window.crypto.subtle.exportKey("jwk", this.keyPair.publicKey);
-    const privateKeyJwk = await window.crypto.subtle.exportKey("jwk", this.keyPair.privateKey);
+      stored = { privateKeyJwk, publicKeyJwk };
+      await this.saveKeyStore(stored);
+      this.myPublicKeyStr = JSON.stringify(publicKeyJwk);
+      console.log("[Crypto] New keys generated");
+    }
 
-    localStorage.setItem(storageKey, JSON.stringify({ privateKeyJwk, publicKeyJwk }));
-    this.myPublicKeyStr = JSON.stringify(publicKeyJwk);
-    console.log("[Crypto] New keys generated");
+    await this.initSigningKey(stored);
+    await this.initSignedPreKeys();
+    if (this.dataKey) {
+      // Reseal everything that was still stored in plain text
+      await this.saveKeyStore(this.keyStore);
+      this.saveSessions();
+      this.saveReceivingKeys();
+      await this.secretWrites;
+    }
     return this.myPublicKeyStr!;
   }
 
+  // Re-wraps the data key for the new password; keys stored in plain text get sealed now. If that
+  // fails the stored keys are left as they were. Resolves to an undo that restores the previous
+  // wrapping, for when the server turns the new password down.
+  async changePassword(newPassword: string): Promise<() => Promise<void>> {
+    if (!this.userId || !this.keyStore) throw new Error("Crypto service not initialized");
+    const userId = this.userId;
+    const previous = { vault: this.vault, dataKey: this.dataKey };
+    const restore = async () => {
+      this.vault = previous.vault;
+      this.dataKey = previous.dataKey;
+      await this.saveKeyStore(this.keyStore);
+    };
+    try {
+      const dataKey = this.dataKey || (await createDataKey());
+      this.vault = await wrapDataKey(dataKey, newPassword);
+      this.dataKey = dataKey;
+      await this.saveKeyStore(this.keyStore);
+    } catch (e) {
+      await restore();
+      throw e;
+    }
+    await this.resealSecrets();
+    console.log("[Crypto] Keys wrapped with the new password");
+
+    return async () => {
+      if (this.userId !== userId) return;
+      await restore();
+      await this.resealSecrets();
+      console.log("[Crypto] Keys wrapped with the previous password again");
+    };
+  }
+
+  // Logout: forget the data key and everything unwrapped with it, so the next login needs the
+  // password again. Without a user nothing is written back until then.
+  lock() {
+    this.dataKey = null;
+    this.vault = null;
+    this.keyStore = null;
+    this.userId = null;
+    this.keyPair = null;
+    this.myPublicKeyStr = null;
+    this.signingKeyPair = null;
+    this.signingPublicKeyStr = null;
+    this.signedPreKeys = [];
+    this.preKeyBundle = null;
+    this.sharedKeys.clear();
+    this.peerPublicKeys.clear();
+    this.peerBundles.clear();
+    this.sessions = {};
+    this.knownSigningKeys = {};
+    this.sessionLocks.clear();
+    this.sendingKeys.clear();
+    this.receivingKeys = {};
+    this.knownKeys = {};
+  }
+
   getPublicKey(): string | null {
     return this.myPublicKeyStr;
   }
@@ -100,13 +293,33 @@ class CryptoService {
       );
 
       this.sharedKeys.set(otherUserId, sharedKey);
+      this.peerPublicKeys.set(otherUserId, otherPublicKeyStr);
+      this.recordIdentityKey(otherUserId, otherPublicKeyStr);
       console.log(`[Crypto] Shared secret established with ${otherUserId}`);
     } catch (e) {
       console.error(`[Crypto] Failed to compute shared secret for ${otherUserId}`, e);
     }
   }
 
-  async encrypt(content: string, recipientId: string): Promise<string> {
+  // Uses the ratchet session with the recipient when there is one (or can be started from their
+  // prekey bundle); otherwise the static shared key, for contacts that never published a prekey.
+  async encrypt(content: string, recipientId: string, context?: string): Promise<string> {
+    return this.withSessionLock(recipientId, async () => {
+      const session = await this.getSendingSession(recipientId);
+      if (session) {
+        const result = await ratchetEncrypt(session, content, context);
+        this.storeSession(recipientId, result.state);
+        return result.content;
+      }
+      return this.encryptStatic(content, recipientId, context);
+    });
+  }
+
+  private async encryptStatic(
+    content: string,
+    recipientId: string,
+    context?: string,
+  ): Promise<string> {
     const key = this.sharedKeys.get(recipientId);
     if (!key) {
       throw new Error(`No shared key for ${recipientId}. Cannot encrypt.`);
@@ -115,21 +328,24 @@ class CryptoService {
     const iv = window.crypto.getRandomValues(new Uint8Array(12));
     const encoded = new TextEncoder().encode(content);
 
-    const ciphertext = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoded);
+    const ciphertext = await window.crypto.subtle.encrypt(gcmParams(iv, context), key, encoded);
 
     // Format: IV (base64) : Ciphertext (base64)
     // iv.buffer is ArrayBuffer; ciphertext is already ArrayBuffer
     return `${arrayBufferToBase64(iv.buffer)}:${arrayBufferToBase64(ciphertext)}`;
   }
 
-  async decrypt(encryptedContent: string, senderId: string): Promise<string> {
+  // `context` must match what the sender passed to encrypt
+  async decrypt(encryptedContent: string, senderId: string, context?: string): Promise<string> {
+    if (parseMessage(encryptedContent)) {
+      return this.decryptSession(encryptedContent, senderId, context);
+    }
     const key = this.sharedKeys.get(senderId);
     if (!key) {
-      // If we don't have the key yet, we can't decrypt.
-      // In a real app, we might request the public key again.
-      // For now, return raw content or error.
-      console.warn(`[Crypto] No shared key for ${senderId}, returning raw content.`);
-      return encryptedContent;
+      // Plain text (sent without encryption) passes through; ciphertext we can't open yet never does
+      if (!this.isCiphertext(encryptedContent)) return encryptedContent;
+      console.warn(`[Crypto] No shared key for ${senderId}, cannot decrypt yet.`);
+      return DECRYPTION_FAILED;
     }
 
     try {
@@ -141,7 +357,7 @@ class CryptoService {
 
       // Use Uint8Array for cross-platform compatibility (Node.js and browser)
       const decrypted = await window.crypto.subtle.decrypt(
-        { name: "AES-GCM", iv: new Uint8Array(ivBuffer) },
+        gcmParams(new Uint8Array(ivBuffer), context),
         key,
         new Uint8Array(ciphertextBuffer),
       );
@@ -149,9 +365,614 @@ class CryptoService {
       return new TextDecoder().decode(decrypted);
     } catch (e) {
       console.error("[Crypto] Decryption failed", e);
-      return "[Decryption Failed]";
+      return DECRYPTION_FAILED;
+    }
+  }
+
+  // Shape check for IV:Ciphertext, keyId:IV:Ciphertext or R:header:IV:Ciphertext, all base64
+  isCiphertext(content: string): boolean {
+    const parts = content.split(":");
+    if (parts.length < 2 || parts.length > 4) return false;
+    if (parts.length === 4 && parts[0] !== RATCHET_PREFIX) return false;
+    return parts[parts.length - 2].length === IV_LENGTH && parts.every((p) => BASE64_PART.test(p));
+  }
+
+  hasSharedKey(userId: string): boolean {
+    return this.sharedKeys.has(userId);
+  }
+
+  // --- Ratchet sessions ---
+
+  getPreKeyBundle(): PreKeyBundle | null {
+    return this.preKeyBundle;
+  }
+
+  // Whether the next message to userId goes through a ratchet session
+  hasSession(userId: string): boolean {
+    return (this.sessions[userId] || []).some(canSend) || this.peerBundles.has(userId);
+  }
+
+  // Accepts a contact's bundle from the key directory if it belongs to the identity key we know
+  // for them and is signed by their pinned signing key
+  async addPreKeyBundle(userId: string, bundle: PreKeyBundle): Promise<boolean> {
+    try {
+      const identityKey = this.peerPublicKeys.get(userId);
+      if (!identityKey || !this.isSameKey(identityKey, bundle.identityKey)) {
+        console.warn(`[Crypto] Prekey bundle of ${userId} doesn't match their identity key`);
+        return false;
+      }
+      const pinned = this.knownSigningKeys[userId];
+      if (pinned && pinned !== bundle.signingKey) {
+        console.warn(`[Crypto] Prekey bundle of ${userId} is signed by an unknown key`);
+        return false;
+      }
+      const signingKey = await window.crypto.subtle.importKey(
+        "jwk",
+        JSON.parse(bundle.signingKey),
+        ECDSA,
+        false,
+        ["verify"],
+      );
+      const valid = await window.crypto.subtle.verify(
+        ECDSA_SHA256,
+        signingKey,
+        new Uint8Array(base64ToArrayBuffer(bundle.signature)),
+        this.preKeySignatureInput(bundle.identityKey, bundle.signedPreKey),
+      );
+      if (!valid) {
+        console.warn(`[Crypto] Bad prekey signature from ${userId}`);
+        return false;
+      }
+      if (!pinned) {
+        this.knownSigningKeys[userId] = bundle.signingKey;
+        this.saveSessions();
+      }
+      this.peerBundles.set(userId, bundle);
+      return true;
+    } catch (e) {
+      console.error(`[Crypto] Failed to verify prekey bundle of ${userId}`, e);
+      return false;
+    }
+  }
+
+  // ECDSA signature (base64) with our signing key, the one our prekey bundle is signed with
+  async sign(data: string): Promise<string> {
+    if (!this.signingKeyPair) throw new Error("Crypto service not initialized");
+    const signature = await window.crypto.subtle.sign(
+      ECDSA_SHA256,
+      this.signingKeyPair.privateKey,
+      new TextEncoder().encode(data),
+    );
+    return arrayBufferToBase64(signature);
+  }
+
+  hasSigningKey(userId: string): boolean {
+    return !!this.knownSigningKeys[userId];
+  }
+
+  // null when we haven't pinned a signing key for the user yet (no verified prekey bundle)
+  async verify(userId: string, data: string, signature: string): Promise<boolean | null> {
+    const signingKey = this.knownSigningKeys[userId];
+    if (!signingKey) return null;
+    try {
+      const key = await window.crypto.subtle.importKey(
+        "jwk",
+        JSON.parse(signingKey),
+        ECDSA,
+        false,
+        ["verify"],
+      );
+      return await window.crypto.subtle.verify(
+        ECDSA_SHA256,
+        key,
+        new Uint8Array(base64ToArrayBuffer(signature)),
+        new TextEncoder().encode(data),
+      );
+    } catch (e) {
+      console.error(`[Crypto] Could not check signature from ${userId}`, e);
+      return false;
     }
   }
+
+  // Fired when a contact shows up with a different identity key than the one we knew
+  onIdentityKeyChange(handler: IdentityKeyChangeHandler) {
+    this.identityKeyChangeHandlers.add(handler);
+    return () => this.identityKeyChangeHandlers.delete(handler);
+  }
+
+  getPeerPublicKey(userId: string): string | null {
+    return this.peerPublicKeys.get(userId) || null;
+  }
+
+  // 60-digit safety number for the conversation with otherUserId: a 30-digit fingerprint of
+  // each side's identity and signing key, lower user id first so both ends show the same number.
+  // The signing key only comes from the directory, so comparing the number is what vouches for
+  // it. Returns null until we have the other side's keys.
+  async getSafetyNumber(otherUserId: string): Promise<string | null> {
+    const otherKey = this.peerPublicKeys.get(otherUserId);
+    const otherSigningKey = this.knownSigningKeys[otherUserId];
+    if (!this.userId || !this.myPublicKeyStr || !this.signingPublicKeyStr) return null;
+    if (!otherKey || !otherSigningKey) return null;
+
+    const mine = await this.fingerprint(this.userId, this.myPublicKeyStr, this.signingPublicKeyStr);
+    const theirs = await this.fingerprint(otherUserId, otherKey, otherSigningKey);
+    return this.userId < otherUserId ? mine + theirs : theirs + mine;
+  }
+
+  // --- Group sender keys ---
+  // Each member encrypts group messages once with its own sending key and hands that key to
+  // the other members over the pairwise channel. Ciphertext format: keyId:IV:Ciphertext
+
+  getSenderKey(groupId: string): SenderKeyDistribution | null {
+    const current = this.sendingKeys.get(groupId);
+    return current ? { groupId, keyId: current.keyId, key: current.raw } : null;
+  }
+
+  async createSenderKey(groupId: string): Promise<SenderKeyDistribution> {
+    const key = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+      "encrypt",
+      "decrypt",
+    ]);
+    const raw = arrayBufferToBase64(await window.crypto.subtle.exportKey("raw", key));
+    const keyId = arrayBufferToBase64(window.crypto.getRandomValues(new Uint8Array(6)).buffer);
+    this.sendingKeys.set(groupId, { keyId, key, raw });
+    console.log(`[Crypto] New sender key ${keyId} for group ${groupId}`);
+    return { groupId, keyId, key: raw };
+  }
+
+  // Membership changed: the next group message goes out under a new key
+  discardSenderKey(groupId: string) {
+    this.sendingKeys.delete(groupId);
+  }
+
+  importSenderKey(senderId: string, distribution: SenderKeyDistribution) {
+    const { groupId, keyId, key } = distribution;
+    const group = (this.receivingKeys[groupId] = this.receivingKeys[groupId] || {});
+    const keys = (group[senderId] || []).filter((k) => k.keyId !== keyId);
+    group[senderId] = [...keys, { keyId, key }].slice(-RECEIVING_KEYS_PER_SENDER);
+    this.saveReceivingKeys();
+  }
+
+  // Drop keys of members who left, or of the whole group when we left it
+  forgetSenderKeys(groupId: string, senderIds?: string[]) {
+    if (!senderIds) {
+      this.sendingKeys.delete(groupId);
+      delete this.receivingKeys[groupId];
+    } else if (this.receivingKeys[groupId]) {
+      senderIds.forEach((id) => delete this.receivingKeys[groupId][id]);
+    }
+    this.saveReceivingKeys();
+  }
+
+  isGroupCiphertext(content: string): boolean {
+    return content.split(":").length === 3;
+  }
+
+  async encryptForGroup(content: string, groupId: string, context?: string): Promise<string> {
+    const current = this.sendingKeys.get(groupId);
+    if (!current) {
+      throw new Error(`No sender key for group ${groupId}. Cannot encrypt.`);
+    }
+
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const encoded = new TextEncoder().encode(content);
+    const ciphertext = await window.crypto.subtle.encrypt(
+      gcmParams(iv, context),
+      current.key,
+      encoded,
+    );
+    return `${current.keyId}:${arrayBufferToBase64(iv.buffer)}:${arrayBufferToBase64(ciphertext)}`;
+  }
+
+  async decryptFromGroup(
+    encryptedContent: string,
+    groupId: string,
+    senderId: string,
+    context?: string,
+  ): Promise<string> {
+    const parts = encryptedContent.split(":");
+    if (parts.length !== 3) return encryptedContent;
+
+    const raw = this.receivingKeys[groupId]?.[senderId]?.find((k) => k.keyId === parts[0])?.key;
+    if (!raw) {
+      console.warn(`[Crypto] No sender key ${parts[0]} from ${senderId} in ${groupId}`);
+      return DECRYPTION_FAILED;
+    }
+
+    try {
+      const key = await window.crypto.subtle.importKey(
+        "raw",
+        new Uint8Array(base64ToArrayBuffer(raw)),
+        { name: "AES-GCM" },
+        false,
+        ["decrypt"],
+      );
+      const decrypted = await window.crypto.subtle.decrypt(
+        gcmParams(new Uint8Array(base64ToArrayBuffer(parts[1])), context),
+        key,
+        new Uint8Array(base64ToArrayBuffer(parts[2])),
+      );
+      return new TextDecoder().decode(decrypted);
+    } catch (e) {
+      console.error("[Crypto] Group decryption failed", e);
+      return DECRYPTION_FAILED;
+    }
+  }
+
+  private async fingerprint(
+    userId: string,
+    publicKeyStr: string,
+    signingKeyStr: string,
+  ): Promise<string> {
+    // Only the curve points identify the keys; JWK field order or extra fields must not matter
+    const points = `${this.curvePoint(publicKeyStr)}|${this.curvePoint(signingKeyStr)}`;
+    const key = new TextEncoder().encode(points);
+    let hash = new Uint8Array(
+      await window.crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${userId}:${points}`)),
+    );
+    for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+      const input = new Uint8Array(hash.length + key.length);
+      input.set(hash);
+      input.set(key, hash.length);
+      hash = new Uint8Array(await window.crypto.subtle.digest("SHA-256", input));
+    }
+
+    // Six 5-byte chunks, each reduced to five digits
+    let digits = "";
+    for (let i = 0; i < 30; i += 5) {
+      const chunk = hash.slice(i, i + 5).reduce((acc, b) => acc * 256 + b, 0);
+      digits += String(chunk % 100000).padStart(5, "0");
+    }
+    return digits;
+  }
+
+  private withSessionLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.sessionLocks.get(userId) || Promise.resolve();
+    const next = prev.then(fn);
+    this.sessionLocks.set(userId, next.catch(() => {}));
+    return next;
+  }
+
+  private async getSendingSession(recipientId: string): Promise<RatchetState | null> {
+    const existing = (this.sessions[recipientId] || []).find(canSend);
+    if (existing) return existing;
+    const bundle = this.peerBundles.get(recipientId);
+    if (!bundle || !this.keyPair || !this.myPublicKeyStr) return null;
+
+    // X3DH as initiator: our identity and a fresh ephemeral key against their identity and prekey
+    const ephemeral = await generateKeyPair();
+    const ephemeralKey = await importPrivateKey(ephemeral.priv);
+    const theirIdentity = await this.importIdentityKey(bundle.identityKey);
+    const theirPreKey = await importPublicKey(bundle.signedPreKey.key);
+    const sk = await this.x3dhSecret(
+      await dh(this.keyPair.privateKey, theirPreKey),
+      await dh(ephemeralKey, theirIdentity),
+      await dh(ephemeralKey, theirPreKey),
+    );
+    const sid = arrayBufferToBase64(window.crypto.getRandomValues(new Uint8Array(8)).buffer);
+    console.log(`[Crypto] Starting session ${sid} with ${recipientId}`);
+    return initInitiator(
+      sk,
+      sid,
+      `${this.curvePoint(this.myPublicKeyStr)}|${this.curvePoint(bundle.identityKey)}`,
+      bundle.signedPreKey.key,
+      { ek: ephemeral.pub, spk: bundle.signedPreKey.id },
+    );
+  }
+
+  // X3DH as responder, from the header of the first message(s) of a session the peer started
+  private async acceptSession(
+    senderId: string,
+    header: RatchetHeader,
+  ): Promise<RatchetState | null> {
+    const theirIdentityStr = this.peerPublicKeys.get(senderId);
+    const preKey = this.signedPreKeys.find((k) => k.id === header.pk?.spk);
+    if (!header.pk || !theirIdentityStr || !preKey || !this.keyPair || !this.myPublicKeyStr) {
+      console.warn(`[Crypto] Can't accept session ${header.sid} from ${senderId} (missing keys)`);
+      return null;
+    }
+    const preKeyPrivate = await importPrivateKey(preKey.pair.priv);
+    const theirEphemeral = await importPublicKey(header.pk.ek);
+    const sk = await this.x3dhSecret(
+      await dh(preKeyPrivate, await this.importIdentityKey(theirIdentityStr)),
+      await dh(this.keyPair.privateKey, theirEphemeral),
+      await dh(preKeyPrivate, theirEphemeral),
+    );
+    console.log(`[Crypto] Accepted session ${header.sid} from ${senderId}`);
+    return initResponder(
+      sk,
+      header.sid,
+      `${this.curvePoint(theirIdentityStr)}|${this.curvePoint(this.myPublicKeyStr)}`,
+      preKey.pair,
+    );
+  }
+
+  private decryptSession(content: string, senderId: string, context?: string): Promise<string> {
+    return this.withSessionLock(senderId, async () => {
+      try {
+        const { header } = parseMessage(content)!;
+        const session =
+          (this.sessions[senderId] || []).find((s) => s.sid === header.sid) ||
+          (await this.acceptSession(senderId, header));
+        if (!session) return DECRYPTION_FAILED;
+        const result = await ratchetDecrypt(session, content, context);
+        this.storeSession(senderId, result.state);
+        return result.plaintext;
+      } catch (e) {
+        console.error(`[Crypto] Session decryption failed for ${senderId}`, e);
+        return DECRYPTION_FAILED;
+      }
+    });
+  }
+
+  private x3dhSecret(dh1: Bytes, dh2: Bytes, dh3: Bytes): Promise<Bytes> {
+    const ikm = concatBytes(new Uint8Array(32).fill(0xff), dh1, dh2, dh3);
+    return hkdf(ikm, new Uint8Array(32), X3DH_INFO, 256);
+  }
+
+  // The session last used in either direction is the one we send on
+  private storeSession(userId: string, state: RatchetState) {
+    const others = (this.sessions[userId] || []).filter((s) => s.sid !== state.sid);
+    this.sessions[userId] = [state, ...others].slice(0, SESSIONS_PER_CONTACT);
+    this.saveSessions();
+  }
+
+  private importIdentityKey(publicKeyStr: string): Promise<CryptoKey> {
+    return window.crypto.subtle.importKey(
+      "jwk",
+      JSON.parse(publicKeyStr),
+      { name: "ECDH", namedCurve: "P-256" },
+      false,
+      [],
+    );
+  }
+
+  private curvePoint(publicKeyStr: string): string {
+    const { x, y } = JSON.parse(publicKeyStr);
+    return `${x}.${y}`;
+  }
+
+  private preKeySignatureInput(identityKey: string, preKey: { id: string; key: string }): Bytes {
+    return new TextEncoder().encode(`${identityKey}|${preKey.id}|${preKey.key}`);
+  }
+
+  // Accounts from before the session layer get their signing key on first start
+  private async initSigningKey(stored: any) {
+    if (stored.signingKeyJwk) {
+      try {
+        const { privateKeyJwk, publicKeyJwk } = stored.signingKeyJwk;
+        const subtle = window.crypto.subtle;
+        this.signingKeyPair = {
+          privateKey: await subtle.importKey("jwk", privateKeyJwk, ECDSA, true, ["sign"]),
+          publicKey: await subtle.importKey("jwk", publicKeyJwk, ECDSA, true, ["verify"]),
+        };
+        this.signingPublicKeyStr = JSON.stringify(publicKeyJwk);
+        return;
+      } catch (e) {
+        console.error("[Crypto] Failed to load signing key, generating a new one", e);
+      }
+    }
+    this.signingKeyPair = await window.crypto.subtle.generateKey(ECDSA, true, ["sign", "verify"]);
+    const { privateKey, publicKey } = this.signingKeyPair;
+    const privateKeyJwk = await window.crypto.subtle.exportKey("jwk", privateKey);
+    const publicKeyJwk = await window.crypto.subtle.exportKey("jwk", publicKey);
+    await this.saveKeyStore({ ...stored, signingKeyJwk: { privateKeyJwk, publicKeyJwk } });
+    this.signingPublicKeyStr = JSON.stringify(publicKeyJwk);
+  }
+
+  // Rotates the signed prekey when it is due and builds the bundle we publish
+  private async initSignedPreKeys() {
+    const storageKey = `qchat_prekeys_${this.userId}`;
+    let stored: { keys: StoredPreKey[]; signature?: string; signedWith?: string } = { keys: [] };
+    try {
+      stored = (await this.readSecret(storageKey)) || stored;
+    } catch (e) {
+      console.error("[Crypto] Failed to load signed prekeys", e);
+    }
+
+    if (!stored.keys[0] || Date.now() - stored.keys[0].createdAt > SIGNED_PREKEY_ROTATION_MS) {
+      const id = arrayBufferToBase64(window.crypto.getRandomValues(new Uint8Array(6)).buffer);
+      const key: StoredPreKey = { id, pair: await generateKeyPair(), createdAt: Date.now() };
+      stored = { keys: [key, ...stored.keys].slice(0, 1 + OLD_SIGNED_PREKEYS) };
+      console.log(`[Crypto] New signed prekey ${id}`);
+    }
+
+    const signedPreKey = { id: stored.keys[0].id, key: stored.keys[0].pair.pub };
+    const signedWith = `${this.myPublicKeyStr}|${this.signingPublicKeyStr}`;
+    if (!stored.signature || stored.signedWith !== signedWith) {
+      const signature = await window.crypto.subtle.sign(
+        ECDSA_SHA256,
+        this.signingKeyPair!.privateKey,
+        this.preKeySignatureInput(this.myPublicKeyStr!, signedPreKey),
+      );
+      stored.signature = arrayBufferToBase64(signature);
+      stored.signedWith = signedWith;
+    }
+    this.writeSecret(storageKey, stored);
+
+    this.signedPreKeys = stored.keys;
+    this.preKeyBundle = {
+      identityKey: this.myPublicKeyStr!,
+      signingKey: this.signingPublicKeyStr!,
+      signedPreKey,
+      signature: stored.signature,
+    };
+  }
+
+  private async loadSessions() {
+    try {
+      const parsed = (await this.readSecret(`qchat_sessions_${this.userId}`)) || {};
+      this.sessions = parsed.sessions || {};
+      this.knownSigningKeys = parsed.signingKeys || {};
+    } catch (e) {
+      console.error("[Crypto] Failed to load sessions", e);
+      this.sessions = {};
+      this.knownSigningKeys = {};
+    }
+  }
+
+  private saveSessions() {
+    if (!this.userId) return;
+    this.writeSecret(`qchat_sessions_${this.userId}`, {
+      sessions: this.sessions,
+      signingKeys: this.knownSigningKeys,
+    });
+  }
+
+  private recordIdentityKey(userId: string, publicKeyStr: string) {
+    const previous = this.knownKeys[userId];
+    if (previous === publicKeyStr) return;
+    this.knownKeys[userId] = publicKeyStr;
+    if (this.userId) {
+      localStorage.setItem(`qchat_known_keys_${this.userId}`, JSON.stringify(this.knownKeys));
+    }
+    // First contact is trusted as-is; only a different curve point counts as a change
+    if (previous && !this.isSameKey(previous, publicKeyStr)) {
+      console.warn(`[Crypto] Identity key of ${userId} changed`);
+      // Sessions and the signing key belonged to the old identity
+      delete this.sessions[userId];
+      delete this.knownSigningKeys[userId];
+      this.peerBundles.delete(userId);
+      this.saveSessions();
+      this.identityKeyChangeHandlers.forEach((h) => h(userId, previous, publicKeyStr));
+    }
+  }
+
+  private isSameKey(a: string, b: string): boolean {
+    try {
+      const ka = JSON.parse(a);
+      const kb = JSON.parse(b);
+      return ka.x === kb.x && ka.y === kb.y;
+    } catch (_e) {
+      return a === b;
+    }
+  }
+
+  private loadKnownKeys() {
+    try {
+      const stored = localStorage.getItem(`qchat_known_keys_${this.userId}`);
+      this.knownKeys = stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      console.error("[Crypto] Failed to load known identity keys", e);
+      this.knownKeys = {};
+    }
+  }
+
+  private async loadReceivingKeys() {
+    try {
+      this.receivingKeys = (await this.readSecret(`qchat_group_keys_${this.userId}`)) || {};
+    } catch (e) {
+      console.error("[Crypto] Failed to load group keys", e);
+      this.receivingKeys = {};
+    }
+  }
+
+  private saveReceivingKeys() {
+    if (!this.userId) return;
+    this.writeSecret(`qchat_group_keys_${this.userId}`, this.receivingKeys);
+  }
+
+  private async resealSecrets() {
+    await this.initSignedPreKeys();
+    this.saveSessions();
+    this.saveReceivingKeys();
+    await this.secretWrites;
+  }
+
+  // Starting over: contacts see a new identity key, and old sessions and group keys are gone
+  private discardStoredKeys() {
+    for (const name of ["keys", "prekeys", "sessions", "group_keys"]) {
+      localStorage.removeItem(`qchat_${name}_${this.userId}`);
+    }
+    console.log("[Crypto] Discarded the stored keys");
+  }
+
+  // Loads the identity key blob, unlocking the vault first when it is password protected
+  private async openKeyStore(
+    storageKey: string,
+    password?: string,
+    recovery?: KeyRecovery,
+  ): Promise<any> {
+    this.dataKey = null;
+    this.vault = null;
+    this.keyStore = null;
+    let parsed: any = null;
+    try {
+      const raw = localStorage.getItem(storageKey);
+      parsed = raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      console.error("[Crypto] Failed to read stored keys", e);
+    }
+
+    if (parsed && parsed.vault) {
+      const previousPassword =
+        recovery && "previousPassword" in recovery ? recovery.previousPassword : null;
+      const dataKey = await this.unlockVault(parsed.vault, previousPassword || password);
+      // Unlocked with the old password: init reseals it wrapped for the current one
+      this.vault =
+        previousPassword && password ? await wrapDataKey(dataKey, password) : parsed.vault;
+      this.dataKey = dataKey;
+      this.keyStore = JSON.parse(await unseal(dataKey, parsed.sealed));
+      return this.keyStore;
+    }
+    // Fresh account, or keys from before the vault: wrapped as soon as we have the password
+    if (password) {
+      const dataKey = await createDataKey();
+      this.vault = await wrapDataKey(dataKey, password);
+      this.dataKey = dataKey;
+      if (parsed) console.log("[Crypto] Wrapping stored keys with the password");
+    }
+    this.keyStore = parsed;
+    return parsed;
+  }
+
+  // The data key only ever lives in memory: nothing that survives a reload can unseal the keys
+  private async unlockVault(vault: WrappedDataKey, password?: string): Promise<CryptoKey> {
+    if (!password) throw new Error(KEYS_LOCKED);
+    try {
+      return await unwrapDataKey(vault, password);
+    } catch (e) {
+      console.error("[Crypto] Password doesn't unwrap the stored keys", e);
+      throw new Error(KEYS_LOCKED);
+    }
+  }
+
+  private async saveKeyStore(stored: any) {
+    this.keyStore = stored;
+    const storageKey = `qchat_keys_${this.userId}`;
+    if (!this.dataKey || !this.vault) {
+      localStorage.setItem(storageKey, JSON.stringify(stored));
+      return;
+    }
+    const sealed = await seal(this.dataKey, JSON.stringify(stored));
+    localStorage.setItem(
+      storageKey,
+      JSON.stringify({ publicKeyJwk: stored.publicKeyJwk, vault: this.vault, sealed }),
+    );
+  }
+
+  // Plain text is still read, for stores written before the vault was unlocked
+  private async readSecret(storageKey: string): Promise<any> {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed.sealed !== "string") return parsed;
+    if (!this.dataKey) throw new Error(`${storageKey} is sealed and the keys are locked`);
+    return JSON.parse(await unseal(this.dataKey, parsed.sealed));
+  }
+
+  // Writes are chained so an older snapshot never lands after a newer one
+  private writeSecret(storageKey: string, value: unknown): Promise<void> {
+    const json = JSON.stringify(value);
+    const dataKey = this.dataKey;
+    this.secretWrites = this.secretWrites
+      .then(async () => {
+        const data = dataKey ? JSON.stringify({ sealed: await seal(dataKey, json) }) : json;
+        localStorage.setItem(storageKey, data);
+      })
+      .catch((e) => console.error(`[Crypto] Failed to store ${storageKey}`, e));
+    return this.secretWrites;
+  }
 }
 
 export const cryptoService = new CryptoService();
@@ -0,0 +1,279 @@
+// services/doubleRatchet.ts
+// Double Ratchet over P-256 / HKDF-SHA256 / AES-GCM, following the Signal specification.
+// States are plain JSON so CryptoService can persist them; every step works on a copy, so a
+// message that fails to decrypt leaves the session untouched.
+import { Bytes, fromBase64, toBase64 } from "./encoding";
+
+// Message keys we keep for a chain we skip ahead on, and for the whole session
+const MAX_SKIP = 1000;
+const MAX_SKIPPED_KEYS = 2000;
+const ROOT_INFO = "QChatRatchet";
+
+export const RATCHET_PREFIX = "R";
+
+// Raw public key (base64) and private JWK
+export type SerializedKeyPair = { pub: string; priv: JsonWebKey };
+
+export interface RatchetHeader {
+  sid: string; // session id, chosen by the initiator
+  dh: string; // sender's current ratchet public key
+  pn: number; // length of the sender's previous sending chain
+  n: number; // message number in the current sending chain
+  // X3DH ephemeral key and signed prekey id, sent until the peer answers
+  pk?: { ek: string; spk: string };
+}
+
+export interface RatchetState {
+  sid: string;
+  ad: string; // associated data: initiator identity | responder identity
+  dhs: SerializedKeyPair;
+  dhr: string | null;
+  rk: string;
+  cks: string | null;
+  ckr: string | null;
+  ns: number;
+  nr: number;
+  pn: number;
+  skipped: Record<string, string>; // `${dh}:${n}` -> message key
+  preKey?: { ek: string; spk: string };
+}
+
+export async function generateKeyPair(): Promise<SerializedKeyPair> {
+  const pair = await window.crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, [
+    "deriveBits",
+  ]);
+  return {
+    pub: toBase64(await window.crypto.subtle.exportKey("raw", pair.publicKey)),
+    priv: await window.crypto.subtle.exportKey("jwk", pair.privateKey),
+  };
+}
+
+export function importPublicKey(raw: string): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey(
+    "raw",
+    fromBase64(raw),
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    [],
+  );
+}
+
+export function importPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey("jwk", jwk, { name: "ECDH", namedCurve: "P-256" }, false, [
+    "deriveBits",
+  ]);
+}
+
+export async function dh(privateKey: CryptoKey, publicKey: CryptoKey): Promise<Bytes> {
+  return new Uint8Array(
+    await window.crypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256),
+  );
+}
+
+export async function hkdf(ikm: Bytes, salt: Bytes, info: string, bits: number): Promise<Bytes> {
+  const key = await window.crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  return new Uint8Array(
+    await window.crypto.subtle.deriveBits(
+      { name: "HKDF", hash: "SHA-256", salt, info: new TextEncoder().encode(info) },
+      key,
+      bits,
+    ),
+  );
+}
+
+// Root key step: new root key and a fresh chain key from a DH output
+async function kdfRoot(rk: string, dhOut: Bytes): Promise<[string, string]> {
+  const out = await hkdf(dhOut, fromBase64(rk), ROOT_INFO, 512);
+  return [toBase64(out.slice(0, 32)), toBase64(out.slice(32))];
+}
+
+// Chain key step: [message key, next chain key]
+async function kdfChain(ck: string): Promise<[string, string]> {
+  const key = await window.crypto.subtle.importKey(
+    "raw",
+    fromBase64(ck),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mk = await window.crypto.subtle.sign("HMAC", key, new Uint8Array([1]));
+  const next = await window.crypto.subtle.sign("HMAC", key, new Uint8Array([2]));
+  return [toBase64(mk), toBase64(next)];
+}
+
+async function dhWith(pair: SerializedKeyPair, publicKey: string): Promise<Bytes> {
+  return dh(await importPrivateKey(pair.priv), await importPublicKey(publicKey));
+}
+
+function aeadKey(mk: string, usage: KeyUsage): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey("raw", fromBase64(mk), { name: "AES-GCM" }, false, [usage]);
+}
+
+// `context` is whatever the caller binds the message to on top of the session (e.g. its id)
+function additionalData(state: RatchetState, header: string, context: string): Bytes {
+  return new TextEncoder().encode(`${state.ad}|${header}|${context}`);
+}
+
+// Initiator side, after X3DH: the responder's signed prekey doubles as its first ratchet key
+export async function initInitiator(
+  sk: Bytes,
+  sid: string,
+  ad: string,
+  theirRatchetKey: string,
+  preKey: { ek: string; spk: string },
+): Promise<RatchetState> {
+  const dhs = await generateKeyPair();
+  const [rk, cks] = await kdfRoot(toBase64(sk), await dhWith(dhs, theirRatchetKey));
+  return {
+    sid,
+    ad,
+    dhs,
+    dhr: theirRatchetKey,
+    rk,
+    cks,
+    ckr: null,
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+    preKey,
+  };
+}
+
+// Responder side: can only send once the first message has moved the ratchet
+export function initResponder(
+  sk: Bytes,
+  sid: string,
+  ad: string,
+  signedPreKey: SerializedKeyPair,
+): RatchetState {
+  return {
+    sid,
+    ad,
+    dhs: signedPreKey,
+    dhr: null,
+    rk: toBase64(sk),
+    cks: null,
+    ckr: null,
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+  };
+}
+
+export function canSend(state: RatchetState): boolean {
+  return state.cks !== null;
+}
+
+type ParsedMessage = {
+  header: RatchetHeader;
+  encodedHeader: string;
+  iv: string;
+  ciphertext: string;
+};
+
+export function parseMessage(content: string): ParsedMessage | null {
+  const parts = content.split(":");
+  if (parts.length !== 4 || parts[0] !== RATCHET_PREFIX) return null;
+  try {
+    const header = JSON.parse(new TextDecoder().decode(fromBase64(parts[1])));
+    return { header, encodedHeader: parts[1], iv: parts[2], ciphertext: parts[3] };
+  } catch {
+    return null;
+  }
+}
+
+// Wire format: R:header:IV:Ciphertext, all base64; the header is authenticated as associated data
+export async function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: string,
+  context = "",
+): Promise<{ state: RatchetState; content: string }> {
+  if (!state.cks) throw new Error(`Session ${state.sid} cannot send yet`);
+  const next: RatchetState = JSON.parse(JSON.stringify(state));
+  const [mk, ck] = await kdfChain(state.cks);
+  next.cks = ck;
+
+  const header: RatchetHeader = { sid: next.sid, dh: next.dhs.pub, pn: next.pn, n: next.ns };
+  if (next.preKey) header.pk = next.preKey;
+  next.ns += 1;
+
+  const encodedHeader = toBase64(new TextEncoder().encode(JSON.stringify(header)));
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(next, encodedHeader, context) },
+    await aeadKey(mk, "encrypt"),
+    new TextEncoder().encode(plaintext),
+  );
+  return {
+    state: next,
+    content: `${RATCHET_PREFIX}:${encodedHeader}:${toBase64(iv)}:${toBase64(ciphertext)}`,
+  };
+}
+
+// Throws when the message can't be authenticated; the passed state is never modified
+export async function ratchetDecrypt(
+  state: RatchetState,
+  content: string,
+  context = "",
+): Promise<{ state: RatchetState; plaintext: string }> {
+  const parsed = parseMessage(content);
+  if (!parsed || parsed.header.sid !== state.sid) throw new Error("Not a message of this session");
+  const { header, encodedHeader, iv, ciphertext } = parsed;
+  const next: RatchetState = JSON.parse(JSON.stringify(state));
+
+  let mk = next.skipped[`${header.dh}:${header.n}`];
+  if (mk) {
+    delete next.skipped[`${header.dh}:${header.n}`];
+  } else {
+    if (header.dh !== next.dhr) {
+      await skipMessageKeys(next, header.pn);
+      await dhRatchet(next, header.dh);
+    }
+    await skipMessageKeys(next, header.n);
+    const [messageKey, ck] = await kdfChain(next.ckr!);
+    mk = messageKey;
+    next.ckr = ck;
+    next.nr += 1;
+  }
+
+  const decrypted = await window.crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: fromBase64(iv),
+      additionalData: additionalData(next, encodedHeader, context),
+    },
+    await aeadKey(mk, "decrypt"),
+    fromBase64(ciphertext),
+  );
+  // The peer answered on this session, so it no longer needs the X3DH header
+  delete next.preKey;
+  return { state: next, plaintext: new TextDecoder().decode(decrypted) };
+}
+
+async function skipMessageKeys(state: RatchetState, until: number) {
+  if (!state.ckr) return;
+  if (until - state.nr > MAX_SKIP) throw new Error(`Too many skipped messages in ${state.sid}`);
+  while (state.nr < until) {
+    const [mk, ck] = await kdfChain(state.ckr);
+    state.skipped[`${state.dhr}:${state.nr}`] = mk;
+    state.ckr = ck;
+    state.nr += 1;
+  }
+  // Oldest first (insertion order); messages that never arrive eventually stop costing storage
+  const ids = Object.keys(state.skipped);
+  ids
+    .slice(0, Math.max(0, ids.length - MAX_SKIPPED_KEYS))
+    .forEach((id) => delete state.skipped[id]);
+}
+
+async function dhRatchet(state: RatchetState, theirKey: string) {
+  state.pn = state.ns;
+  state.ns = 0;
+  state.nr = 0;
+  state.dhr = theirKey;
+  [state.rk, state.ckr] = await kdfRoot(state.rk, await dhWith(state.dhs, theirKey));
+  state.dhs = await generateKeyPair();
+  [state.rk, state.cks] = await kdfRoot(state.rk, await dhWith(state.dhs, theirKey));
+}
@@ -0,0 +1,39 @@
+// services/encoding.ts
+// Byte helpers shared by the crypto modules: base64 for storage and the wire, concatenation for
+// key derivation input, and reading picked or recorded blobs.
+
+// Byte arrays backed by a plain ArrayBuffer, as WebCrypto expects
+export type Bytes = Uint8Array<ArrayBuffer>;
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  for (let i = 0; i < view.length; i++) binary += String.fromCharCode(view[i]);
+  return window.btoa(binary);
+}
+
+export function fromBase64(base64: string): Bytes {
+  const binary = window.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function concatBytes(...parts: Uint8Array[]): Bytes {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+export function readBlob(blob: Blob): Promise<Bytes> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
@@ -0,0 +1,70 @@
+import { Message, MessageStatus, MessageType } from "../types";
+import { cryptoService } from "./cryptoService";
+import { logger } from "./logger";
+import { storageService } from "./storageService";
+
+type ChangeHandler = (contactId: string) => void;
+
+export const KEY_CHANGED_NOTICE = "对方的安全码已更改";
+
+// Reacts to a contact's identity key changing: the contact loses its verified status, the
+// conversation gets a notice, and the change stays pending until the user acknowledges it.
+class KeyChangeService {
+  private changeHandlers: Set<ChangeHandler> = new Set();
+
+  constructor() {
+    cryptoService.onIdentityKeyChange((userId) => {
+      this.handleKeyChange(userId);
+    });
+  }
+
+  async handleKeyChange(contactId: string, changedAt: number = Date.now()): Promise<void> {
+    try {
+      logger.warn("Crypto", `Safety number with ${contactId} changed`);
+      await storageService.setContactVerified(contactId, null);
+      await storageService.addKeyChange(contactId, changedAt);
+
+      const convo = (await storageService.getConversations()).find(
+        (c) => c.kind !== "group" && c.participantId === contactId,
+      );
+      if (convo) {
+        const notice: Message = {
+          id: `sys_${changedAt}_${Math.random().toString(36).slice(2, 8)}`,
+          conversationId: convo.id,
+          senderId: contactId,
+          content: KEY_CHANGED_NOTICE,
+          type: MessageType.SYSTEM,
+          // Nothing to acknowledge to the other side
+          status: MessageStatus.READ,
+          timestamp: changedAt,
+        };
+        await storageService.saveMessage(notice);
+      }
+      this.changeHandlers.forEach((h) => h(contactId));
+    } catch (e) {
+      logger.error("Crypto", `Failed to record key change for ${contactId}`, e);
+    }
+  }
+
+  async hasPendingChange(contactId: string): Promise<boolean> {
+    return !!(await storageService.getKeyChanges())[contactId];
+  }
+
+  // Sending is only held back when the user opted into it in settings
+  async isSendingBlocked(contactId: string): Promise<boolean> {
+    const settings = await storageService.getSettings();
+    return !!settings.blockOnKeyChange && (await this.hasPendingChange(contactId));
+  }
+
+  async acknowledge(contactId: string): Promise<void> {
+    await storageService.acknowledgeKeyChange(contactId);
+    this.changeHandlers.forEach((h) => h(contactId));
+  }
+
+  onChange(handler: ChangeHandler) {
+    this.changeHandlers.add(handler);
+    return () => this.changeHandlers.delete(handler);
+  }
+}
+
+export const keyChangeService = new KeyChangeService();
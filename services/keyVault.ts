@@ -0,0 +1,81 @@
+// services/keyVault.ts
+// Password protection for key material at rest. A random data key seals the secrets with
+// AES-GCM; the data key itself is wrapped with AES-KW under a key derived from the password
+// (PBKDF2), so a password change only re-wraps the data key.
+import { Bytes, fromBase64, toBase64 } from "./encoding";
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_LENGTH = 16;
+
+// Stored next to the sealed keys; everything needed to unwrap except the password
+export interface WrappedDataKey {
+  salt: string;
+  iterations: number;
+  wrapped: string; // AES-KW output, base64
+}
+
+async function deriveWrappingKey(password: string, salt: Bytes, iterations: number) {
+  const material = await window.crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return window.crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-KW", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"],
+  );
+}
+
+export function createDataKey(): Promise<CryptoKey> {
+  return window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export async function wrapDataKey(dataKey: CryptoKey, password: string): Promise<WrappedDataKey> {
+  const salt = window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const wrappingKey = await deriveWrappingKey(password, salt, PBKDF2_ITERATIONS);
+  const wrapped = await window.crypto.subtle.wrapKey("raw", dataKey, wrappingKey, "AES-KW");
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, wrapped: toBase64(wrapped) };
+}
+
+// Rejects when the password is wrong: AES-KW checks its integrity value on unwrap
+export async function unwrapDataKey(stored: WrappedDataKey, password: string): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(password, fromBase64(stored.salt), stored.iterations);
+  return window.crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(stored.wrapped),
+    wrappingKey,
+    "AES-KW",
+    { name: "AES-GCM" },
+    true,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// Format: IV:Ciphertext, both base64
+export async function seal(dataKey: CryptoKey, json: string): Promise<string> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    dataKey,
+    new TextEncoder().encode(json),
+  );
+  return `${toBase64(iv)}:${toBase64(ciphertext)}`;
+}
+
+export async function unseal(dataKey: CryptoKey, sealed: string): Promise<string> {
+  const [iv, ciphertext] = sealed.split(":");
+  const plaintext = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    dataKey,
+    fromBase64(ciphertext),
+  );
+  return new TextDecoder().decode(plaintext);
+}
@@ -0,0 +1,119 @@
+import { Message, MessageStatus, MessageType, MessageUpdate } from "../types";
+import { MESSAGE_EDIT_WINDOW_MS } from "../constants";
+import { logger } from "./logger";
+import { socketService } from "./socketService";
+import { storageService } from "./storageService";
+
+type ChangeHandler = (message: Message) => void;
+
+// Edits and recalls of already-sent messages. Both sides apply the same update to their
+// local copy: ours right after sending it, theirs when MESSAGE_EDIT / MESSAGE_RECALL arrives
+// (possibly from the server's offline queue).
+class MessageEditService {
+  private changeHandlers: Set<ChangeHandler> = new Set();
+
+  constructor() {
+    socketService.onMessageUpdate((update) => {
+      this.apply(update);
+    });
+  }
+
+  // Only messages the server has accepted, still inside the edit window, can be changed
+  canModify(message: Message, now: number = Date.now()): boolean {
+    if (message.recalledAt) return false;
+    if (
+      message.status === MessageStatus.PENDING ||
+      message.status === MessageStatus.PENDING_KEY ||
+      message.status === MessageStatus.FAILED
+    ) {
+      return false;
+    }
+    return now - message.timestamp <= MESSAGE_EDIT_WINDOW_MS;
+  }
+
+  async edit(message: Message, content: string, recipientId: string): Promise<Message | null> {
+    if (message.type !== MessageType.TEXT || !this.canModify(message)) {
+      throw new Error("Message can no longer be edited");
+    }
+    return this.send({ kind: "edit", content, ...this.baseUpdate(message) }, recipientId);
+  }
+
+  async recall(message: Message, recipientId: string): Promise<Message | null> {
+    if (!this.canModify(message)) {
+      throw new Error("Message can no longer be recalled");
+    }
+    return this.send({ kind: "recall", ...this.baseUpdate(message) }, recipientId);
+  }
+
+  onChange(handler: ChangeHandler) {
+    this.changeHandlers.add(handler);
+    return () => this.changeHandlers.delete(handler);
+  }
+
+  // Validate an update against the stored message and persist the result.
+  // Returns the updated message, or null if the update was rejected.
+  async apply(update: MessageUpdate): Promise<Message | null> {
+    try {
+      const messages = await storageService.getMessages(update.conversationId);
+      const original = messages.find((m) => m.id === update.messageId);
+      if (!original) {
+        logger.warn("Messages", `Ignoring ${update.kind} for unknown message ${update.messageId}`);
+        return null;
+      }
+      if (original.senderId !== update.senderId) {
+        logger.warn("Messages", `Rejected ${update.kind} of ${original.id} from ${update.senderId}`);
+        return null;
+      }
+      if (original.recalledAt) return null;
+      // Checked against the sender's timestamp so updates queued while we were offline still apply
+      if (update.at - original.timestamp > MESSAGE_EDIT_WINDOW_MS) {
+        logger.warn("Messages", `Rejected late ${update.kind} of ${original.id}`);
+        return null;
+      }
+
+      let updated: Message;
+      if (update.kind === "recall") {
+        updated = {
+          ...original,
+          content: "",
+          editHistory: undefined,
+          recalledAt: update.at,
+        };
+      } else {
+        if (typeof update.content !== "string" || update.content === original.content) return null;
+        updated = {
+          ...original,
+          content: update.content,
+          editedAt: update.at,
+          editHistory: [
+            ...(original.editHistory || []),
+            { content: original.content, editedAt: update.at },
+          ],
+        };
+      }
+
+      await storageService.updateMessage(updated);
+      this.changeHandlers.forEach((h) => h(updated));
+      return updated;
+    } catch (e) {
+      logger.error("Messages", `Failed to apply ${update.kind} to ${update.messageId}`, e);
+      return null;
+    }
+  }
+
+  private baseUpdate(message: Message) {
+    return {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      at: Date.now(),
+    };
+  }
+
+  private async send(update: MessageUpdate, recipientId: string): Promise<Message | null> {
+    await socketService.sendMessageUpdate(update, recipientId);
+    return this.apply(update);
+  }
+}
+
+export const messageEditService = new MessageEditService();
@@ -0,0 +1,163 @@
+import { Message, MessageStatus, MessageType, OutboxEntry } from "../types";
+import { attachmentService } from "./attachmentService";
+import { logger } from "./logger";
+import { socketService } from "./socketService";
+import { storageService } from "./storageService";
+
+type StatusHandler = (message: Message) => void;
+// sent: no longer queued; held: waiting for the recipient's key; failed: retried on reconnect
+type DeliveryResult = "sent" | "held" | "failed";
+
+// Keeps outgoing messages until the server accepts them. Entries survive restarts
+// (persisted via storageService) and are resent in order once the socket is
+// connected and authenticated again.
+class OutboxService {
+  private statusHandlers: Set<StatusHandler> = new Set();
+  // Deliveries run one at a time so a flush and a fresh send never race each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    socketService.onAuthResult((result) => {
+      if (result.success) {
+        this.flush();
+      }
+    });
+    // Messages held for lack of a key go out as soon as that key arrives
+    socketService.onKeyAvailable(async (userId) => {
+      if (!socketService.isAuthenticated()) return;
+      const entries = await storageService.getOutbox();
+      if (entries.some((e) => e.recipientId === userId)) {
+        this.flush();
+      }
+    });
+  }
+
+  // Queue a freshly created message and try to send it right away
+  async send(message: Message, recipientId: string): Promise<void> {
+    const entry: OutboxEntry = { message, recipientId, queuedAt: message.timestamp };
+    await storageService.addToOutbox(entry);
+    await this.runExclusive(() => this.deliver(message.id));
+  }
+
+  // Manually resend a failed message (re-queues it if it predates the outbox)
+  async retry(message: Message, recipientId: string): Promise<void> {
+    const entries = await storageService.getOutbox();
+    const entry = entries.find((e) => e.message.id === message.id) || {
+      message,
+      recipientId,
+      queuedAt: message.timestamp,
+    };
+    await storageService.addToOutbox(entry);
+    await this.runExclusive(() => this.deliver(message.id));
+  }
+
+  // Drop a failed message entirely: out of the outbox and out of local history
+  async discard(messageId: string): Promise<void> {
+    await storageService.removeFromOutbox(messageId);
+    await storageService.deleteMessage(messageId);
+  }
+
+  // Resend everything still queued, oldest first
+  flush(): Promise<void> {
+    return this.runExclusive(async () => {
+      try {
+        const entries = await storageService.getOutbox();
+        if (entries.length > 0) {
+          logger.info("Outbox", `Flushing ${entries.length} queued message(s)`);
+        }
+        for (const entry of entries) {
+          const result = await this.deliver(entry.message.id);
+          // Stop at the first failure to preserve ordering; the next reconnect resumes here.
+          // Held messages don't block other chats, and later ones to the same recipient are held too.
+          if (result === "failed") break;
+        }
+      } catch (e) {
+        logger.error("Outbox", "Failed to flush outbox", e);
+      }
+    });
+  }
+
+  onStatusChange(handler: StatusHandler) {
+    this.statusHandlers.add(handler);
+    return () => this.statusHandlers.delete(handler);
+  }
+
+  private runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn);
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  // "sent" also covers entries an earlier flush already sent
+  private async deliver(messageId: string): Promise<DeliveryResult> {
+    const entry = (await storageService.getOutbox()).find((e) => e.message.id === messageId);
+    if (!entry) return "sent";
+
+    const { message, recipientId } = entry;
+    if (!socketService.isAuthenticated()) {
+      logger.warn("Outbox", `Not connected, keeping ${message.id} queued`);
+      await this.updateStatus(message, MessageStatus.FAILED);
+      return "failed";
+    }
+
+    try {
+      const strict = await socketService.isStrictEncryption();
+      const encrypted = await socketService.ensureKeyFor(recipientId);
+      // Fail closed: a direct message without the recipient's key waits instead of going out in clear
+      if (strict && !encrypted && !socketService.getGroup(recipientId)) {
+        logger.warn("Outbox", `No key for ${recipientId} yet, holding ${message.id}`);
+        await this.updateStatus(message, MessageStatus.PENDING_KEY);
+        return "held";
+      }
+
+      await this.updateStatus(message, MessageStatus.PENDING);
+      // The file goes first, so the receiver has it by the time the message shows up
+      if (message.attachment) {
+        await attachmentService.upload(message, recipientId);
+      }
+      // Only resolves after the server's CHAT_ACK, so SENT means the server really has it
+      const delivery = await socketService.sendMessage(await this.toWireMessage(message), recipientId);
+      logger.info("Outbox", `${message.id} accepted by server (${delivery})`);
+      await storageService.removeFromOutbox(message.id);
+      if (message.attachment) {
+        await attachmentService.finishUpload(message.attachment.id);
+      }
+      await this.updateStatus({ ...message, encrypted: strict || encrypted }, MessageStatus.SENT);
+      return "sent";
+    } catch (e) {
+      logger.error("Outbox", `Send failed for ${message.id}`, e);
+      await this.updateStatus(message, MessageStatus.FAILED);
+      return "failed";
+    }
+  }
+
+  // Attachments travel as their descriptor. Images stored before attachments were encrypted
+  // reference a plain file on disk, and go out as a data URL like they used to.
+  private async toWireMessage(message: Message): Promise<Message> {
+    if (message.attachment) {
+      return attachmentService.toWireMessage(message);
+    }
+    if (
+      message.type === MessageType.IMAGE &&
+      !message.content.startsWith("data:") &&
+      window.electronAPI
+    ) {
+      const dataUrl = await window.electronAPI.invoke("file:read-image", message.content);
+      if (!dataUrl) throw new Error(`Image ${message.content} is missing`);
+      return { ...message, content: dataUrl };
+    }
+    return message;
+  }
+
+  private async updateStatus(message: Message, status: MessageStatus) {
+    const updated = { ...message, status };
+    try {
+      await storageService.saveMessage(updated);
+    } catch (e) {
+      logger.error("Outbox", `Failed to persist status for ${message.id}`, e);
+    }
+    this.statusHandlers.forEach((h) => h(updated));
+  }
+}
+
+export const outboxService = new OutboxService();
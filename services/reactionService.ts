@@ -0,0 +1,91 @@
+import { Message, ReactionUpdate } from "../types";
+import { REACTION_EMOJIS } from "../constants";
+import { logger } from "./logger";
+import { socketService } from "./socketService";
+import { storageService } from "./storageService";
+
+type ChangeHandler = (conversationId: string) => void;
+
+// Emoji reactions. Like edits, each side applies the same add/remove to its own store:
+// ours right after sending the REACTION signal, theirs when it arrives.
+class ReactionService {
+  private changeHandlers: Set<ChangeHandler> = new Set();
+
+  constructor() {
+    socketService.onReaction((update) => {
+      this.apply(update);
+    });
+  }
+
+  // Add the reaction if we haven't used this emoji on the message yet, otherwise remove it
+  async toggle(message: Message, emoji: string, userId: string, recipientId: string): Promise<void> {
+    const existing = await storageService.getReactions(message.conversationId);
+    const mine = existing.some(
+      (r) => r.messageId === message.id && r.userId === userId && r.emoji === emoji,
+    );
+    const update: ReactionUpdate = {
+      action: mine ? "remove" : "add",
+      messageId: message.id,
+      conversationId: message.conversationId,
+      userId,
+      emoji,
+      at: Date.now(),
+    };
+    await socketService.sendReaction(update, recipientId);
+    await this.apply(update);
+  }
+
+  onChange(handler: ChangeHandler) {
+    this.changeHandlers.add(handler);
+    return () => this.changeHandlers.delete(handler);
+  }
+
+  // Returns false if the update was ignored
+  async apply(update: ReactionUpdate): Promise<boolean> {
+    if (!REACTION_EMOJIS.includes(update.emoji)) {
+      logger.warn("Reactions", `Ignoring unsupported reaction from ${update.userId}`);
+      return false;
+    }
+    try {
+      const messages = await storageService.getMessages(update.conversationId);
+      const target = messages.find((m) => m.id === update.messageId);
+      if (!target || target.recalledAt) {
+        logger.warn("Reactions", `Ignoring reaction to unknown message ${update.messageId}`);
+        return false;
+      }
+      if (!(await this.isParticipant(update.conversationId, update.userId))) {
+        logger.warn("Reactions", `Rejected reaction to ${target.id} from ${update.userId}`);
+        return false;
+      }
+
+      if (update.action === "add") {
+        await storageService.addReaction({
+          messageId: update.messageId,
+          conversationId: update.conversationId,
+          userId: update.userId,
+          emoji: update.emoji,
+          createdAt: update.at,
+        });
+      } else {
+        await storageService.removeReaction(update.messageId, update.userId, update.emoji);
+      }
+      this.changeHandlers.forEach((h) => h(update.conversationId));
+      return true;
+    } catch (e) {
+      logger.error("Reactions", `Failed to apply reaction to ${update.messageId}`, e);
+      return false;
+    }
+  }
+
+  // Ourselves, the contact of a direct chat, or a member of the group
+  private async isParticipant(conversationId: string, userId: string): Promise<boolean> {
+    const me = await storageService.getCurrentUser();
+    if (me && me.id === userId) return true;
+    const convo = (await storageService.getConversations()).find((c) => c.id === conversationId);
+    if (!convo) return false;
+    if (convo.kind === "group") return !!convo.participantIds?.includes(userId);
+    return convo.participantId === userId;
+  }
+}
+
+export const reactionService = new ReactionService();
@@ -0,0 +1,76 @@
+import { Message } from "../types";
+import { attachmentService } from "./attachmentService";
+import { logger } from "./logger";
+import { socketService } from "./socketService";
+import { storageService } from "./storageService";
+
+type OpenedHandler = (message: Message) => void;
+
+// Incoming messages that arrived before we had the sender's key are stored still encrypted.
+// Whenever a key shows up (or we log in again) the tracked ones are opened in place.
+class SealedMessageService {
+  private openedHandlers: Set<OpenedHandler> = new Set();
+  // One pass at a time; keys tend to arrive in bursts right after login
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor() {
+    socketService.onKeyAvailable(() => {
+      this.openAll();
+    });
+    socketService.onAuthResult((result) => {
+      if (result.success) {
+        this.openAll();
+      }
+    });
+  }
+
+  // Remember a message that was stored sealed
+  async track(message: Message): Promise<void> {
+    await storageService.addSealedMessage(message.id, message.conversationId);
+  }
+
+  openAll(): Promise<void> {
+    const next = this.queue.then(async () => {
+      try {
+        const sealed = Object.entries(await storageService.getSealedMessages());
+        const loaded = new Map<string, Message[]>();
+        for (const [messageId, conversationId] of sealed) {
+          if (!loaded.has(conversationId)) {
+            loaded.set(conversationId, await storageService.getMessages(conversationId));
+          }
+          const message = loaded.get(conversationId)!.find((m) => m.id === messageId);
+          if (!message || !message.sealed) {
+            await storageService.removeSealedMessage(messageId);
+            continue;
+          }
+          const opened = await socketService.openSealed(message);
+          if (!opened) {
+            logger.warn("Crypto", `Deleting forged sealed message ${messageId}`);
+            await storageService.deleteMessage(messageId);
+            await storageService.removeSealedMessage(messageId);
+            continue;
+          }
+          if (opened.sealed) continue;
+
+          const stored = await attachmentService.toStored(opened);
+          await storageService.updateMessage(stored);
+          await storageService.removeSealedMessage(messageId);
+          await attachmentService.track(stored);
+          logger.info("Crypto", `Opened sealed message ${messageId}`);
+          this.openedHandlers.forEach((h) => h(stored));
+        }
+      } catch (e) {
+        logger.error("Crypto", "Failed to open sealed messages", e);
+      }
+    });
+    this.queue = next;
+    return next;
+  }
+
+  onOpened(handler: OpenedHandler) {
+    this.openedHandlers.add(handler);
+    return () => this.openedHandlers.delete(handler);
+  }
+}
+
+export const sealedMessageService = new SealedMessageService();
@@ -1,20 +1,83 @@
-import { Message, User } from "../types";
+import {
+  AttachmentChunk,
+  CallMedia,
+  Group,
+  Message,
+  MessageUpdate,
+  ReactionUpdate,
+  User,
+} from "../types";
 import { logger } from "./logger";
-import { SOCKET_HEARTBEAT_INTERVAL } from "../constants";
-import { cryptoService } from "./cryptoService";
+import {
+  ATTACHMENT_MAX_BUFFERED,
+  CHAT_ACK_TIMEOUT,
+  MAX_FILE_SIZE,
+  SEEN_MESSAGE_WINDOW,
+  SOCKET_HEARTBEAT_INTERVAL,
+  SOCKET_RECONNECT_INTERVAL,
+  SOCKET_RECONNECT_MAX_INTERVAL,
+} from "../constants";
+import {
+  cryptoService,
+  DECRYPTION_FAILED,
+  KEYS_LOCKED,
+  KEYS_STALE,
+  KeyRecovery,
+} from "./cryptoService";
+import { storageService } from "./storageService";
 
 type ConnectionState = "CONNECTING" | "CONNECTED" | "DISCONNECTED" | "RECONNECTING";
 
+// Pending automatic reconnect (only set while waiting for the backoff timer)
+export type ReconnectInfo = { attempt: number; nextRetryAt: number };
+
+// How the server handled an accepted chat message (see CHAT_ACK)
+export type ChatDelivery = "relayed" | "queued";
+
+type PendingAck = {
+  resolve: (delivery: ChatDelivery) => void;
+  reject: (err: Error) => void;
+  timer: any;
+};
+
 type MessageHandler = (message: Message) => void;
-type ConnectionHandler = (state: ConnectionState) => void;
+type ConnectionHandler = (state: ConnectionState, reconnect: ReconnectInfo | null) => void;
 type FriendSignalHandler = (payload: any) => void;
 type StatusUpdateHandler = (userId: string, status: string) => void;
 type ForceLogoutHandler = () => void;
 type OnlineUsersListHandler = (userIds: string[]) => void;
-type DeliveryReceiptHandler = (messageId: string) => void;
+// `from` is whoever sent the receipt: only messages we sent them may change status
+type DeliveryReceiptHandler = (messageId: string, from: string) => void;
+export type TypingSignal = { conversationId: string; userId: string; isTyping: boolean };
+type TypingHandler = (signal: TypingSignal) => void;
+type MessageUpdateHandler = (update: MessageUpdate) => void;
+type ReactionHandler = (update: ReactionUpdate) => void;
+type GroupsHandler = (groups: Group[]) => void;
+type GroupCreateResult = { success: boolean; group?: Group; reason?: string };
+export type ReadReceipt = { conversationId: string; messageIds: string[]; from: string };
+type ReadReceiptHandler = (receipt: ReadReceipt) => void;
 type UserUpdateHandler = (data: { userId: string; username: string }) => void;
 type AuthResultHandler = (result: { success: boolean; reason?: string }) => void;
 type ChangePasswordHandler = (result: { success: boolean; reason?: string }) => void;
+type KeyAvailableHandler = (userId: string) => void;
+type UnverifiedSenderHandler = (userId: string) => void;
+type AttachmentChunkHandler = (chunk: AttachmentChunk) => void;
+export type CallSignalType = "CALL_OFFER" | "CALL_ANSWER" | "ICE_CANDIDATE" | "CALL_END";
+// WebRTC signaling for one call. CALL_END also arrives when the server couldn't reach the callee
+// (reason "unavailable").
+export type CallSignal = {
+  type: CallSignalType;
+  callId: string;
+  from: string;
+  media?: CallMedia; // CALL_OFFER
+  sdp?: string; // CALL_OFFER, CALL_ANSWER
+  candidate?: RTCIceCandidateInit; // ICE_CANDIDATE
+  reason?: string; // CALL_END
+};
+type CallSignalHandler = (signal: CallSignal) => void;
+const CALL_SIGNAL_TYPES: string[] = ["CALL_OFFER", "CALL_ANSWER", "ICE_CANDIDATE", "CALL_END"];
+
+const chunkAckId = (attachmentId: string, index: number) => `chunk:${attachmentId}:${index}`;
 
 class SocketService {
   private state: ConnectionState = "DISCONNECTED";
@@ -28,12 +91,36 @@ class SocketService {
   private forceLogoutHandlers: Set<ForceLogoutHandler> = new Set();
   private onlineUsersListHandlers: Set<OnlineUsersListHandler> = new Set();
   private deliveryReceiptHandlers: Set<DeliveryReceiptHandler> = new Set();
+  private readReceiptHandlers: Set<ReadReceiptHandler> = new Set();
+  private typingHandlers: Set<TypingHandler> = new Set();
+  private messageUpdateHandlers: Set<MessageUpdateHandler> = new Set();
+  private reactionHandlers: Set<ReactionHandler> = new Set();
+  private groupsHandlers: Set<GroupsHandler> = new Set();
   private userUpdateHandlers: Set<UserUpdateHandler> = new Set();
   private authResultHandlers: Set<AuthResultHandler> = new Set();
   private changePasswordHandlers: Set<ChangePasswordHandler> = new Set();
+  private keyAvailableHandlers: Set<KeyAvailableHandler> = new Set();
+  private attachmentChunkHandlers: Set<AttachmentChunkHandler> = new Set();
+  private callSignalHandlers: Set<CallSignalHandler> = new Set();
+  private unverifiedSenderHandlers: Set<UnverifiedSenderHandler> = new Set();
 
   // Cache for online users to handle race conditions
   private cachedOnlineUsers: Set<string> = new Set();
+  // Groups we belong to, as last reported by the server (GROUP_LIST / GROUP_UPDATE)
+  private groups: Map<string, Group> = new Map();
+  private groupCreatePending: Map<string, (res: GroupCreateResult) => void> = new Map();
+  // Callers waiting on a key directory lookup, per user id
+  private publicKeyPending: Map<string, Array<(key: string | null) => void>> = new Map();
+  // Peers whose prekey bundle we already asked the directory for this session
+  private bundleLookups: Set<string> = new Set();
+  // Peers that sent us something this session whose signature we couldn't check
+  private unverifiedSenders: Set<string> = new Set();
+  // Latest incoming message ids per sender (oldest first), persisted; see isReplay
+  private seenMessageIds: Map<string, string[]> = new Map();
+  // Members that already hold our current sender key, per group
+  private senderKeyHolders: Map<string, Set<string>> = new Map();
+  // Incoming sender keys are imported in arrival order; group decryption waits for this chain
+  private senderKeysReady: Promise<void> = Promise.resolve();
 
   private heartbeatTimer: any = null;
   private socket: WebSocket | null = null;
@@ -47,18 +134,47 @@ class SocketService {
   private readonly MAX_ATTEMPTS_PER_ENDPOINT: number = 2;
   private readonly CONNECTION_TIMEOUT_MS: number = 8000; // increased from 3000
 
+  // True between a successful AUTH_RESULT and the socket closing
+  private authenticated: boolean = false;
+
+  // Automatic reconnection after an authenticated session drops
+  private autoReconnect: boolean = false;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: any = null;
+  private reconnectInfo: ReconnectInfo | null = null;
+
   private currentUser: User | null = null;
+  // Password is only held until the first successful AUTH; afterwards the server-issued
+  // session token (persisted via storageService) is used for every reconnect.
   private currentPassword: string | null = null;
+  private sessionToken: string | null = null;
+  // The password didn't unwrap the stored keys: AUTH only asks the server whether it is right
+  private keysLocked: boolean = false;
   // Cache messages received before any UI handler is attached
   private earlyMessages: Message[] = [];
   // Cache friend requests received before UI subscribes (e.g. queued offline requests)
   private earlyFriendRequests: any[] = [];
+  // Same for read receipts queued while we were offline
+  private earlyReadReceipts: ReadReceipt[] = [];
   private changePasswordPending: Array<(res: { success: boolean; reason?: string }) => void> = [];
+  // Chat messages sent but not yet acknowledged by the server, keyed by message id (and
+  // attachment chunks, keyed by chunkAckId)
+  private pendingAcks: Map<string, PendingAck> = new Map();
+  // Largest attachment we send or accept; the server announces its own limit on AUTH_RESULT
+  private maxFileSize: number = MAX_FILE_SIZE;
 
   getState(): ConnectionState {
     return this.state;
   }
 
+  getReconnectInfo(): ReconnectInfo | null {
+    return this.reconnectInfo;
+  }
+
+  isAuthenticated(): boolean {
+    return this.authenticated && this.socket?.readyState === WebSocket.OPEN;
+  }
+
   isMockMode(): boolean {
     return false;
   }
@@ -98,7 +214,7 @@ class SocketService {
     logger.info("Network", `Configured endpoints: ${JSON.stringify(this.endpointList)}`);
   }
 
-  async connect(user: User, password?: string) {
+  async connect(user: User, password?: string, recovery?: KeyRecovery) {
     if (this.state === "CONNECTED") return;
     if (this.state === "CONNECTING") {
       logger.info("Network", "Already connecting — ignoring duplicate connect request.");
@@ -106,8 +222,26 @@ class SocketService {
     }
     this.currentUser = user;
     this.currentPassword = password || null;
+    this.sessionToken = password ? null : await storageService.getSessionToken();
+    this.clearReconnectTimer();
 
-    await cryptoService.init(user.id);
+    try {
+      await cryptoService.init(user.id, password, recovery);
+    } catch (e) {
+      // Only fails when the stored keys are password protected and can't be unwrapped
+      logger.error("Crypto", "Could not unlock stored keys", e);
+      if (!password || recovery) {
+        this.notifyAuthResult({ success: false, reason: KEYS_LOCKED });
+        this.disconnect();
+        return;
+      }
+      // A wrong password, or one changed on another device: only the server can tell
+      this.keysLocked = true;
+    }
+    if (!this.keysLocked) {
+      await this.loadCachedPublicKeys();
+      await this.loadSeenMessageIds();
+    }
 
     this.currentEndpointIndex = 0;
 
@@ -121,6 +255,11 @@ class SocketService {
 
   private async tryNextEndpoint() {
     if (this.currentEndpointIndex >= this.endpointList.length) {
+      if (this.autoReconnect) {
+        logger.warn("Network", "All connection endpoints failed, backing off.");
+        this.scheduleReconnect();
+        return;
+      }
       logger.error("Network", "All connection endpoints failed.");
       this.updateState("DISCONNECTED");
       return;
@@ -201,11 +340,11 @@ class SocketService {
         this.endpointAttempts = 0;
         this.startHeartbeat();
 
-        // Authenticate (log that we're sending AUTH but do not print password)
+        // Authenticate (log that we're sending AUTH but do not print password or token)
         if (this.currentUser) {
           logger.info(
             "Network",
-            `Sending AUTH for ${this.currentUser.id} (username=${this.currentUser.username})`,
+            `Sending AUTH for ${this.currentUser.id} (username=${this.currentUser.username}, via=${this.currentPassword ? "password" : "token"})`,
           );
           try {
             this.socket?.send(
@@ -213,8 +352,13 @@ class SocketService {
                 type: "AUTH",
                 userId: this.currentUser.id,
                 username: this.currentUser.username,
-                password: this.currentPassword || "",
+                // Without keys we can't take our queued messages: check the password only
+                ...(this.keysLocked ? { verifyOnly: true } : {}),
+                ...(this.currentPassword
+                  ? { password: this.currentPassword }
+                  : { token: this.sessionToken || "" }),
                 publicKey: cryptoService.getPublicKey(),
+                preKeyBundle: cryptoService.getPreKeyBundle(),
               }),
             );
           } catch (e) {
@@ -228,6 +372,15 @@ class SocketService {
           const data = JSON.parse(event.data);
           if (data.type === "PONG") return;
 
+          // Chained synchronously so a group message right behind its key never overtakes it
+          if (data.type === "SENDER_KEY") {
+            const payload = data.payload;
+            this.senderKeysReady = this.senderKeysReady
+              .then(() => this.importSenderKey(payload, data.from))
+              .catch((e) => logger.error("Crypto", "Failed to import sender key", e));
+            return;
+          }
+
           if (data.type === "FORCE_LOGOUT") {
             logger.warn("Network", "Received FORCE_LOGOUT");
             this.disconnect();
@@ -240,11 +393,41 @@ class SocketService {
               "Network",
               `Received AUTH_RESULT: success=${data.success} reason=${data.reason || "none"}`,
             );
+            if (this.keysLocked) {
+              // Accepted means the keys are still wrapped with the password used before
+              this.notifyAuthResult({
+                success: false,
+                reason: data.success ? KEYS_STALE : data.reason,
+              });
+              this.disconnect();
+              return;
+            }
             if (!data.success) {
+              if (!this.currentPassword) {
+                // Stored token was rejected (expired/revoked); a fresh password login is required
+                this.sessionToken = null;
+                await storageService.clearSessionToken();
+              }
               this.notifyAuthResult({ success: false, reason: data.reason });
               this.disconnect();
               return;
             }
+            // Session established: future drops reconnect automatically with fresh backoff
+            this.authenticated = true;
+            if (Number.isInteger(data.maxFileSize) && data.maxFileSize > 0) {
+              this.maxFileSize = Math.min(MAX_FILE_SIZE, data.maxFileSize);
+            }
+            this.autoReconnect = true;
+            this.reconnectAttempt = 0;
+            if (data.token) {
+              this.sessionToken = data.token;
+              this.currentPassword = null;
+              try {
+                await storageService.saveSessionToken(data.token);
+              } catch (e) {
+                logger.warn("Storage", "Failed to persist session token", e);
+              }
+            }
             this.notifyAuthResult({ success: true });
             return;
           }
@@ -254,43 +437,115 @@ class SocketService {
             return;
           }
 
+          if (data.type === "GROUP_LIST") {
+            const previous = this.groups;
+            this.groups = new Map((data.groups || []).map((g: Group) => [g.id, g]));
+            previous.forEach((g, id) => this.updateGroupKeys(g, this.groups.get(id)));
+            this.groups.forEach((g, id) => this.updateGroupKeys(previous.get(id), g));
+            this.notifyGroups();
+            return;
+          }
+
+          if (data.type === "GROUP_UPDATE") {
+            const group: Group | undefined = data.payload && data.payload.group;
+            if (group) {
+              const previous = this.groups.get(group.id);
+              if (this.currentUser && group.members.includes(this.currentUser.id)) {
+                this.groups.set(group.id, group);
+                this.updateGroupKeys(previous, group);
+              } else {
+                this.groups.delete(group.id);
+                this.updateGroupKeys(previous || group, undefined);
+              }
+              this.notifyGroups();
+            }
+            return;
+          }
+
+          if (data.type === "GROUP_CREATE_RESULT") {
+            const resolver = this.groupCreatePending.get(data.requestId);
+            if (resolver) {
+              this.groupCreatePending.delete(data.requestId);
+              resolver({ success: !!data.success, group: data.group, reason: data.reason });
+            }
+            return;
+          }
+
+          if (data.type === "CHAT_ACK") {
+            this.settleAck(data);
+            return;
+          }
+
+          if (data.type === "ATTACHMENT_CHUNK_ACK") {
+            this.settleAck({ ...data, messageId: chunkAckId(data.attachmentId, data.index) });
+            return;
+          }
+
           if (data.type === "USER_KEYS_LIST") {
             const keys = data.keys;
             for (const [uid, key] of Object.entries(keys)) {
-              await cryptoService.computeSharedSecret(uid, key as string);
+              await this.learnPublicKey(uid, key as string);
             }
             return;
           }
 
+          if (data.type === "GET_PUBLIC_KEY_RESULT") {
+            if (typeof data.publicKey === "string") {
+              await this.learnPublicKey(data.userId, data.publicKey);
+            }
+            if (data.preKeyBundle) {
+              await cryptoService.addPreKeyBundle(data.userId, data.preKeyBundle);
+            }
+            const waiters = this.publicKeyPending.get(data.userId) || [];
+            this.publicKeyPending.delete(data.userId);
+            waiters.forEach((resolve) => resolve(data.publicKey || null));
+            return;
+          }
+
           if (data.type === "CHAT") {
-            try {
-              const decrypted = await cryptoService.decrypt(
-                data.payload.content,
-                data.payload.senderId,
-              );
-              data.payload.content = decrypted;
-            } catch (e) {
-              logger.error("Crypto", "Decryption failed", e);
+            // groupId only marks group fan-out on the wire; it is not part of the stored message
+            const { groupId, ...message } = data.payload;
+            if (data.from && message.senderId !== data.from) {
+              logger.warn("Crypto", `Dropped ${message.senderId}'s message sent by ${data.from}`);
+              return;
             }
-            this.notifyMessage(data.payload as Message);
+            // A group conversation only takes the group's own fan-out, from its current members
+            const group = this.groups.get(message.conversationId);
+            if (
+              (group || groupId) &&
+              (groupId !== message.conversationId || !group?.members.includes(message.senderId))
+            ) {
+              logger.warn("Crypto", `Dropped ${message.senderId}'s message to group ${message.conversationId}`);
+              return;
+            }
+            if (this.isReplay(message as Message)) return;
+            const opened = await this.openMessage(message as Message, groupId);
+            // Something we couldn't authenticate must not keep the real message out
+            if (!opened || opened.sealed) this.forgetSeen(message as Message);
+            if (opened) this.notifyMessage(opened);
           }
           if (data.type === "FRIEND_REQUEST") {
+            const fromId = data.payload?.fromUser?.id;
+            const request = await this.openSigned(data.type, data.payload, fromId);
+            if (!request) return;
             if (this.friendRequestHandlers.size === 0) {
               // No listeners yet (e.g. delivered right after login before Dashboard mounts)
-              this.earlyFriendRequests.push(data.payload);
+              this.earlyFriendRequests.push(request);
             } else {
-              this.friendRequestHandlers.forEach((h) => h(data.payload));
+              this.friendRequestHandlers.forEach((h) => h(request));
             }
           }
           if (data.type === "FRIEND_ACCEPT") {
-            this.friendAcceptHandlers.forEach((h) => h(data.payload));
+            const accept = await this.openSigned(data.type, data.payload, data.payload?.user?.id);
+            if (accept) this.friendAcceptHandlers.forEach((h) => h(accept));
           }
           if (data.type === "FRIEND_REMOVE") {
-            this.friendRemoveHandlers.forEach((h) => h(data.payload));
+            const remove = await this.openSigned(data.type, data.payload, data.payload?.userId);
+            if (remove) this.friendRemoveHandlers.forEach((h) => h(remove));
           }
           if (data.type === "STATUS_UPDATE") {
             if (data.publicKey) {
-              await cryptoService.computeSharedSecret(data.userId, data.publicKey);
+              await this.learnPublicKey(data.userId, data.publicKey);
             }
             if (data.status === "online") {
               this.cachedOnlineUsers.add(data.userId);
@@ -303,12 +558,107 @@ class SocketService {
             this.cachedOnlineUsers = new Set(data.userIds);
             this.onlineUsersListHandlers.forEach((h) => h(data.userIds));
           }
+          // Receipts are bound to the user the server relayed them from, and signed by them
           if (data.type === "MESSAGE_DELIVERED") {
-            this.deliveryReceiptHandlers.forEach((h) => h(data.payload.messageId));
+            const from = data.from;
+            const receipt = from ? await this.openSigned(data.type, data.payload, from) : null;
+            if (receipt) this.deliveryReceiptHandlers.forEach((h) => h(receipt.messageId, from));
+          }
+          if (data.type === "MESSAGE_READ") {
+            const from = data.from;
+            const receipt = from ? await this.openSigned(data.type, data.payload, from) : null;
+            const { conversationId, messageIds } = receipt || {};
+            if (conversationId && Array.isArray(messageIds)) {
+              const read: ReadReceipt = { conversationId, messageIds, from };
+              if (this.readReceiptHandlers.size === 0) {
+                this.earlyReadReceipts.push(read);
+              } else {
+                this.readReceiptHandlers.forEach((h) => h(read));
+              }
+            }
+          }
+          if (data.type === "MESSAGE_EDIT" || data.type === "MESSAGE_RECALL") {
+            const body = await this.openSignal(data.type, data.payload, data.from);
+            if (body && body.messageId && body.conversationId) {
+              const update: MessageUpdate = {
+                kind: data.type === "MESSAGE_EDIT" ? "edit" : "recall",
+                messageId: body.messageId,
+                conversationId: body.conversationId,
+                senderId: data.payload.senderId,
+                content: body.content,
+                at: body.at,
+              };
+              this.messageUpdateHandlers.forEach((h) => h(update));
+            }
+          }
+          if (data.type === "REACTION") {
+            const body = await this.openSignal(data.type, data.payload, data.from);
+            if (body && body.messageId && body.conversationId && body.emoji) {
+              const update: ReactionUpdate = {
+                action: body.action === "remove" ? "remove" : "add",
+                messageId: body.messageId,
+                conversationId: body.conversationId,
+                userId: data.payload.senderId,
+                emoji: body.emoji,
+                at: body.at,
+              };
+              this.reactionHandlers.forEach((h) => h(update));
+            }
+          }
+          if (data.type === "TYPING") {
+            const { conversationId, userId, isTyping } =
+              (await this.openSigned(data.type, data.payload, data.payload?.userId)) || {};
+            if (conversationId && userId) {
+              this.typingHandlers.forEach((h) => h({ conversationId, userId, isTyping: !!isTyping }));
+            }
+          }
+          if (data.type === "ATTACHMENT_CHUNK") {
+            // Sealed with the file key, which only travels inside the encrypted message
+            const { attachmentId, index, total, data: chunkData } = data.payload || {};
+            if (
+              typeof attachmentId === "string" &&
+              Number.isInteger(index) &&
+              Number.isInteger(total) &&
+              typeof chunkData === "string" &&
+              typeof data.from === "string"
+            ) {
+              const chunk = { attachmentId, index, total, data: chunkData, from: data.from };
+              this.attachmentChunkHandlers.forEach((h) => h(chunk));
+            }
+          }
+          if (CALL_SIGNAL_TYPES.includes(data.type)) {
+            const body = await this.openSignal(data.type, data.payload, data.from);
+            if (body && typeof body.callId === "string") {
+              const { callId, media, sdp, candidate, reason } = body;
+              const signal: CallSignal = {
+                type: data.type,
+                callId,
+                from: data.payload.senderId,
+                media: media === "video" ? "video" : "audio",
+                sdp: typeof sdp === "string" ? sdp : undefined,
+                candidate: candidate && typeof candidate === "object" ? candidate : undefined,
+                reason: typeof reason === "string" ? reason : undefined,
+              };
+              this.callSignalHandlers.forEach((h) => h(signal));
+            }
+          }
+          if (data.type === "CALL_UNAVAILABLE") {
+            // The server's answer to a CALL_OFFER for someone who isn't online; calls aren't queued
+            const { callId, targetUserId } = data;
+            if (typeof callId === "string" && typeof targetUserId === "string") {
+              const signal: CallSignal = {
+                type: "CALL_END",
+                callId,
+                from: targetUserId,
+                reason: "unavailable",
+              };
+              this.callSignalHandlers.forEach((h) => h(signal));
+            }
           }
           if (data.type === "USER_UPDATE_BROADCAST") {
-            const { from, payload } = data;
-            if (from && payload && payload.username) {
+            const { from } = data;
+            const payload = from ? await this.openSigned(data.type, data.payload, from) : null;
+            if (payload && payload.username) {
               this.userUpdateHandlers.forEach((h) =>
                 h({ userId: from, username: payload.username }),
               );
@@ -322,6 +672,8 @@ class SocketService {
       this.socket.onclose = (ev) => {
         clearTimeout(this.connectionTimeoutId);
         this.stopHeartbeat();
+        this.authenticated = false;
+        this.rejectPendingAcks();
 
         const code = ev && (ev as any).code ? (ev as any).code : "unknown";
         const reason = ev && (ev as any).reason ? (ev as any).reason : "";
@@ -330,11 +682,15 @@ class SocketService {
 
         if (fromState === "CONNECTED") {
           // Was connected, now disconnected unexpectedly
-          this.updateState("DISCONNECTED");
           logger.warn(
             "Network",
             `Socket closed unexpectedly. url=${url} code=${code} reason=${reason} readyState=${readyState}`,
           );
+          if (this.autoReconnect) {
+            this.scheduleReconnect();
+          } else {
+            this.updateState("DISCONNECTED");
+          }
         } else {
           // Was connecting, failed. Try next endpoint.
           logger.warn(
@@ -342,7 +698,8 @@ class SocketService {
             `Failed to connect to ${url}. code=${code} reason=${reason} readyState=${readyState}`,
           );
           // Retry same endpoint a few times before moving to next
-          if (this.endpointAttempts < this.MAX_ATTEMPTS_PER_ENDPOINT) {
+          // (skipped during automatic reconnection, which has its own backoff)
+          if (!this.autoReconnect && this.endpointAttempts < this.MAX_ATTEMPTS_PER_ENDPOINT) {
             this.endpointAttempts++;
             logger.info(
               "Network",
@@ -379,6 +736,11 @@ class SocketService {
     logger.warn("Network", "disconnect() called", new Error().stack);
 
     this.stopHeartbeat();
+    this.authenticated = false;
+    this.keysLocked = false;
+    this.autoReconnect = false;
+    this.clearReconnectTimer();
+    this.rejectPendingAcks();
     if (this.connectionTimeoutId) clearTimeout(this.connectionTimeoutId);
     if (this.socket) {
       // Prevent onclose from triggering next endpoint if we manually disconnect
@@ -388,7 +750,71 @@ class SocketService {
     }
     this.updateState("DISCONNECTED");
     this.currentUser = null;
+    this.currentPassword = null;
+    this.sessionToken = null;
     this.cachedOnlineUsers.clear();
+    this.groups.clear();
+    this.senderKeyHolders.clear();
+    this.bundleLookups.clear();
+    this.unverifiedSenders.clear();
+  }
+
+  // Skip the remaining backoff delay and reconnect immediately (UI "retry now")
+  retryNow() {
+    if (!this.currentUser) return;
+    if (this.state !== "RECONNECTING" && this.state !== "DISCONNECTED") return;
+    logger.info("Network", "Manual reconnect requested.");
+    this.clearReconnectTimer();
+    this.runReconnect();
+  }
+
+  private scheduleReconnect() {
+    this.clearReconnectTimer();
+    this.reconnectAttempt++;
+    const ceiling = Math.min(
+      SOCKET_RECONNECT_MAX_INTERVAL,
+      SOCKET_RECONNECT_INTERVAL * 2 ** (this.reconnectAttempt - 1),
+    );
+    // Equal jitter: half of the window is fixed, half random, so clients don't retry in lockstep
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+    this.reconnectInfo = { attempt: this.reconnectAttempt, nextRetryAt: Date.now() + delay };
+    logger.info("Network", `Reconnect attempt ${this.reconnectAttempt} scheduled in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.runReconnect();
+    }, delay);
+    this.updateState("RECONNECTING");
+  }
+
+  private runReconnect() {
+    this.reconnectInfo = null;
+    if (!this.currentUser) return;
+    // Walk the whole endpoint fallback chain again from the first entry
+    this.currentEndpointIndex = 0;
+    this.endpointAttempts = 0;
+    this.tryNextEndpoint();
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectInfo = null;
+  }
+
+  // Explicit logout: revoke the session token server-side and forget it locally
+  async logout() {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: "LOGOUT" }));
+    }
+    try {
+      await storageService.clearSessionToken();
+    } catch (e) {
+      logger.warn("Storage", "Failed to clear session token", e);
+    }
+    cryptoService.lock();
+    this.disconnect();
   }
 
   async register(userId: string, password: string): Promise<{ success: boolean; reason?: string }> {
@@ -455,28 +881,42 @@ class SocketService {
     return tryEndpoint(0);
   }
 
-  async sendMessage(message: Message, recipientId: string) {
+  // Resolves once the server has relayed or queued the message (CHAT_ACK); rejects on
+  // a negative ack, on timeout, or when the connection drops first
+  async sendMessage(message: Message, recipientId: string): Promise<ChatDelivery> {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      let contentToSend = message.content;
-      try {
-        contentToSend = await cryptoService.encrypt(message.content, recipientId);
-      } catch (e) {
-        logger.warn(
-          "Crypto",
-          `Encryption failed for ${recipientId}, sending plain text fallback.`,
-          e,
-        );
+      // Signed inside the encryption, so the signature doesn't give the content away
+      const { id, conversationId, type, timestamp, content } = message;
+      const signedContent = await this.signed("CHAT", recipientId, {
+        id,
+        conversationId,
+        type,
+        timestamp,
+        content,
+      });
+      const frame = await this.buildRelayFrame(
+        "CHAT",
+        recipientId,
+        message,
+        "content",
+        JSON.stringify(signedContent),
+        this.messageContext(message),
+      );
+      const socket = this.socket;
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        throw new Error("Network disconnected");
       }
 
-      const payload = { ...message, content: contentToSend };
+      return new Promise<ChatDelivery>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          this.pendingAcks.delete(message.id);
+          logger.warn("Network", `No CHAT_ACK for ${message.id} within ${CHAT_ACK_TIMEOUT}ms`);
+          reject(new Error("Send timed out"));
+        }, CHAT_ACK_TIMEOUT);
+        this.pendingAcks.set(message.id, { resolve, reject, timer });
 
-      this.socket.send(
-        JSON.stringify({
-          type: "CHAT",
-          targetUserId: recipientId,
-          payload: payload,
-        }),
-      );
+        socket.send(JSON.stringify(frame));
+      });
     } else {
       logger.error("Network", "Cannot send message: Socket not open");
       throw new Error("Network disconnected");
@@ -485,25 +925,203 @@ class SocketService {
 
   async sendDeliveryReceipt(messageId: string, recipientId: string) {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(
+      const payload = await this.signed("MESSAGE_DELIVERED", recipientId, { messageId });
+      this.socket?.send(
         JSON.stringify({
           type: "MESSAGE_DELIVERED",
           targetUserId: recipientId,
-          payload: { messageId },
+          payload,
         }),
       );
     }
   }
 
+  // One frame per batch of messages seen; resolves false if it could not be sent
+  async sendReadReceipts(
+    conversationId: string,
+    messageIds: string[],
+    recipientId: string,
+  ): Promise<boolean> {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    const payload = await this.signed("MESSAGE_READ", recipientId, {
+      conversationId,
+      messageIds,
+      readAt: Date.now(),
+    });
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(
+      JSON.stringify({
+        type: "MESSAGE_READ",
+        targetUserId: recipientId,
+        payload,
+      }),
+    );
+    return true;
+  }
+
+  async sendMessageUpdate(update: MessageUpdate, recipientId: string) {
+    const { messageId, conversationId, content, at } = update;
+    await this.sendSignal(update.kind === "edit" ? "MESSAGE_EDIT" : "MESSAGE_RECALL", recipientId, {
+      messageId,
+      conversationId,
+      content,
+      at,
+    });
+  }
+
+  async sendReaction(update: ReactionUpdate, recipientId: string) {
+    const { action, messageId, conversationId, emoji, at } = update;
+    await this.sendSignal("REACTION", recipientId, { action, messageId, conversationId, emoji, at });
+  }
+
+  // Calls are one-to-one. The call id stays readable so the server can answer CALL_UNAVAILABLE.
+  async sendCallSignal(recipientId: string, signal: Omit<CallSignal, "from">) {
+    const { type, ...body } = signal;
+    await this.sendSignal(type, recipientId, body, { callId: signal.callId });
+  }
+
+  getMaxFileSize(): number {
+    return this.maxFileSize;
+  }
+
+  // Resolves once the server has relayed or queued the chunk (ATTACHMENT_CHUNK_ACK), like
+  // sendMessage. Waits while the socket is still busy with earlier chunks, so a large file
+  // doesn't hold up everything else queued behind it.
+  async sendAttachmentChunk(recipientId: string, chunk: AttachmentChunk): Promise<void> {
+    while (
+      this.socket?.readyState === WebSocket.OPEN &&
+      this.socket.bufferedAmount > ATTACHMENT_MAX_BUFFERED
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN || !this.currentUser) {
+      throw new Error("Network disconnected");
+    }
+    const payload = { senderId: this.currentUser.id, ...chunk };
+    const ackId = chunkAckId(chunk.attachmentId, chunk.index);
+
+    await new Promise<ChatDelivery>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(ackId);
+        reject(new Error("Send timed out"));
+      }, CHAT_ACK_TIMEOUT);
+      this.pendingAcks.set(ackId, { resolve, reject, timer });
+
+      socket.send(JSON.stringify(this.relayTarget("ATTACHMENT_CHUNK", recipientId, payload)));
+    });
+  }
+
+  // Best effort: typing state is never queued, so nothing happens while offline
+  async sendTyping(conversationId: string, recipientId: string, isTyping: boolean) {
+    if (this.socket?.readyState !== WebSocket.OPEN || !this.currentUser) return;
+    const payload = await this.signed("TYPING", recipientId, {
+      conversationId,
+      userId: this.currentUser.id,
+      isTyping,
+    });
+    this.socket?.send(JSON.stringify(this.relayTarget("TYPING", recipientId, payload)));
+  }
+
+  // --- Group Methods ---
+
+  getGroups(): Group[] {
+    return Array.from(this.groups.values());
+  }
+
+  getGroup(groupId: string): Group | undefined {
+    return this.groups.get(groupId);
+  }
+
+  async createGroup(name: string, memberIds: string[]): Promise<GroupCreateResult> {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return { success: false, reason: "DISCONNECTED" };
+    }
+    const requestId = `grp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    return new Promise((resolve) => {
+      this.groupCreatePending.set(requestId, resolve);
+      this.socket?.send(JSON.stringify({ type: "GROUP_CREATE", requestId, name, memberIds }));
+      setTimeout(() => {
+        // timeout safeguard
+        if (this.groupCreatePending.delete(requestId)) {
+          resolve({ success: false, reason: "TIMEOUT" });
+        }
+      }, 5000);
+    });
+  }
+
+  // Ask the server's key directory for a user's public key; works while they are offline
+  async fetchPublicKey(userId: string): Promise<string | null> {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return null;
+    return new Promise((resolve) => {
+      const waiters = this.publicKeyPending.get(userId);
+      if (waiters) {
+        waiters.push(resolve);
+        return;
+      }
+      this.publicKeyPending.set(userId, [resolve]);
+      this.socket?.send(JSON.stringify({ type: "GET_PUBLIC_KEY", userId }));
+      setTimeout(() => {
+        // timeout safeguard
+        const pending = this.publicKeyPending.get(userId);
+        if (pending) {
+          this.publicKeyPending.delete(userId);
+          pending.forEach((r) => r(null));
+        }
+      }, 5000);
+    });
+  }
+
+  // Try again to open a message stored sealed; it comes back still sealed while the key is missing,
+  // and null when it turns out to be forged
+  async openSealed(message: Message): Promise<Message | null> {
+    return this.openMessage(message, this.groups.has(message.conversationId) ? message.conversationId : undefined);
+  }
+
+  // With strict encryption (the default) nothing is ever sent in clear
+  async isStrictEncryption(): Promise<boolean> {
+    const settings = await storageService.getSettings();
+    return settings.strictEncryption !== false;
+  }
+
+  // Whether everyone who reads a send to recipientId gets it end-to-end encrypted; unknown
+  // direct keys are looked up in the directory first
+  async ensureKeyFor(recipientId: string): Promise<boolean> {
+    const group = this.groups.get(recipientId);
+    if (!group) return this.ensurePeerKey(recipientId);
+    const holders = this.senderKeyHolders.get(group.id);
+    return group.members.every(
+      (m) => m === this.currentUser?.id || holders?.has(m) || cryptoService.hasSharedKey(m),
+    );
+  }
+
+  async inviteToGroup(groupId: string, userIds: string[]) {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error("Network disconnected");
+    }
+    this.socket.send(JSON.stringify({ type: "GROUP_INVITE", groupId, userIds }));
+  }
+
+  async leaveGroup(groupId: string) {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error("Network disconnected");
+    }
+    this.socket.send(JSON.stringify({ type: "GROUP_LEAVE", groupId }));
+  }
+
   // --- Friend Signal Methods ---
 
   async sendFriendRequest(targetUserId: string, currentUser: User) {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(
+      const payload = await this.signed("FRIEND_REQUEST", targetUserId, {
+        fromUser: currentUser,
+        timestamp: Date.now(),
+      });
+      this.socket?.send(
         JSON.stringify({
           type: "FRIEND_REQUEST",
           targetUserId: targetUserId,
-          payload: { fromUser: currentUser, timestamp: Date.now() },
+          payload,
         }),
       );
     } else {
@@ -513,35 +1131,52 @@ class SocketService {
 
   async acceptFriendRequest(targetUserId: string, currentUser: User) {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(
+      const payload = await this.signed("FRIEND_ACCEPT", targetUserId, { user: currentUser });
+      this.socket?.send(
         JSON.stringify({
           type: "FRIEND_ACCEPT",
           targetUserId: targetUserId,
-          payload: { user: currentUser },
+          payload,
         }),
       );
     }
   }
 
   async removeFriend(targetUserId: string) {
-    if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(
+    if (this.socket?.readyState === WebSocket.OPEN && this.currentUser) {
+      const payload = await this.signed("FRIEND_REMOVE", targetUserId, {
+        userId: this.currentUser.id,
+      });
+      this.socket?.send(
         JSON.stringify({
           type: "FRIEND_REMOVE",
           targetUserId: targetUserId,
-          payload: { userId: this.currentUser?.id },
+          payload,
         }),
       );
     }
   }
 
-  async changePassword(newPassword: string): Promise<{ success: boolean; reason?: string }> {
+  async changePassword(
+    currentPassword: string,
+    newPassword: string,
+  ): Promise<{ success: boolean; reason?: string }> {
     if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
       return { success: false, reason: "DISCONNECTED" };
     }
-    return new Promise((resolve) => {
+    // Keys at rest are wrapped with the password: re-wrapped first, so a failure leaves both the
+    // account and the keys on the old one. A change the server did make although we gave up
+    // waiting is recovered on the next login (KEYS_STALE).
+    let undo: () => Promise<void>;
+    try {
+      undo = await cryptoService.changePassword(newPassword);
+    } catch (e) {
+      logger.error("Crypto", "Failed to wrap keys with the new password", e);
+      return { success: false, reason: "KEYS_FAILED" };
+    }
+    const result = await new Promise<{ success: boolean; reason?: string }>((resolve) => {
       this.changePasswordPending.push(resolve);
-      this.socket?.send(JSON.stringify({ type: "CHANGE_PASSWORD", newPassword }));
+      this.socket?.send(JSON.stringify({ type: "CHANGE_PASSWORD", currentPassword, newPassword }));
       setTimeout(() => {
         // timeout safeguard
         const idx = this.changePasswordPending.indexOf(resolve);
@@ -551,17 +1186,27 @@ class SocketService {
         }
       }, 5000);
     });
+    if (!result.success) {
+      try {
+        await undo();
+      } catch (e) {
+        logger.error("Crypto", "Failed to wrap keys with the previous password again", e);
+      }
+    }
+    return result;
   }
 
   // --- User Profile Methods ---
 
   async sendUserUpdate(user: User) {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(
+      // Signed as the broadcast the server turns it into
+      const payload = await this.signed("USER_UPDATE_BROADCAST", "*", { username: user.username });
+      this.socket?.send(
         JSON.stringify({
           type: "USER_UPDATE",
           from: user.id,
-          payload: { username: user.username },
+          payload,
         }),
       );
     }
@@ -580,9 +1225,15 @@ class SocketService {
     return () => this.messageHandlers.delete(handler);
   }
 
+  // Fired when a pairwise or sender key from userId becomes usable
+  onKeyAvailable(handler: KeyAvailableHandler) {
+    this.keyAvailableHandlers.add(handler);
+    return () => this.keyAvailableHandlers.delete(handler);
+  }
+
   onConnectionChange(handler: ConnectionHandler) {
     this.connectionHandlers.add(handler);
-    handler(this.state);
+    handler(this.state, this.reconnectInfo);
     return () => this.connectionHandlers.delete(handler);
   }
 
@@ -596,6 +1247,27 @@ class SocketService {
     return () => this.friendRequestHandlers.delete(handler);
   }
 
+  onAttachmentChunk(handler: AttachmentChunkHandler) {
+    this.attachmentChunkHandlers.add(handler);
+    return () => this.attachmentChunkHandlers.delete(handler);
+  }
+
+  onCallSignal(handler: CallSignalHandler) {
+    this.callSignalHandlers.add(handler);
+    return () => this.callSignalHandlers.delete(handler);
+  }
+
+  // A contact sent a message or signal of any kind whose signature we couldn't check; it was
+  // delivered, and the UI flags the contact. Called before that message or signal is handed on.
+  onUnverifiedSender(handler: UnverifiedSenderHandler) {
+    this.unverifiedSenderHandlers.add(handler);
+    return () => this.unverifiedSenderHandlers.delete(handler);
+  }
+
+  getUnverifiedSenders(): string[] {
+    return Array.from(this.unverifiedSenders);
+  }
+
   onFriendAccept(handler: FriendSignalHandler) {
     this.friendAcceptHandlers.add(handler);
     return () => this.friendAcceptHandlers.delete(handler);
@@ -630,6 +1302,36 @@ class SocketService {
     return () => this.deliveryReceiptHandlers.delete(handler);
   }
 
+  onReadReceipt(handler: ReadReceiptHandler) {
+    this.readReceiptHandlers.add(handler);
+    if (this.earlyReadReceipts.length > 0) {
+      this.earlyReadReceipts.forEach((receipt) => handler(receipt));
+      this.earlyReadReceipts = [];
+    }
+    return () => this.readReceiptHandlers.delete(handler);
+  }
+
+  onMessageUpdate(handler: MessageUpdateHandler) {
+    this.messageUpdateHandlers.add(handler);
+    return () => this.messageUpdateHandlers.delete(handler);
+  }
+
+  onReaction(handler: ReactionHandler) {
+    this.reactionHandlers.add(handler);
+    return () => this.reactionHandlers.delete(handler);
+  }
+
+  // Called with the full list whenever group membership changes
+  onGroupsChange(handler: GroupsHandler) {
+    this.groupsHandlers.add(handler);
+    return () => this.groupsHandlers.delete(handler);
+  }
+
+  onTyping(handler: TypingHandler) {
+    this.typingHandlers.add(handler);
+    return () => this.typingHandlers.delete(handler);
+  }
+
   onUserUpdate(handler: UserUpdateHandler) {
     this.userUpdateHandlers.add(handler);
     return () => this.userUpdateHandlers.delete(handler);
@@ -652,7 +1354,7 @@ class SocketService {
       "Network",
       `State changed: ${oldState} -> ${newState} (handlers: ${this.connectionHandlers.size})`,
     );
-    this.connectionHandlers.forEach((h) => h(newState));
+    this.connectionHandlers.forEach((h) => h(newState, this.reconnectInfo));
   }
 
   private notifyMessage(message: Message) {
@@ -664,6 +1366,438 @@ class SocketService {
     this.messageHandlers.forEach((h) => h(message));
   }
 
+  // Signals about messages are end-to-end encrypted like chat content; only senderId stays
+  // readable so the recipient knows which shared key to use
+  // `visible` goes next to the encrypted body, for fields the server has to read
+  private async sendSignal(type: string, recipientId: string, body: object, visible: object = {}) {
+    if (this.socket?.readyState !== WebSocket.OPEN || !this.currentUser) {
+      throw new Error("Network disconnected");
+    }
+    const senderId = this.currentUser.id;
+    const signedBody = JSON.stringify(await this.signed(type, recipientId, body));
+    const frame = await this.buildRelayFrame(
+      type,
+      recipientId,
+      { ...visible, senderId },
+      "data",
+      signedBody,
+    );
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error("Network disconnected");
+    }
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  // Relay frame addressed to one user, or to a group the server fans out to
+  private relayTarget(type: string, targetId: string, payload: object) {
+    return this.groups.has(targetId)
+      ? { type, groupId: targetId, payload }
+      : { type, targetUserId: targetId, payload };
+  }
+
+  // Like relayTarget, but `secret` is encrypted and placed in payload[secretField]. Group payloads are
+  // encrypted once under our sender key; members that don't hold it yet get a pairwise copy through
+  // perMember, which the server merges into that member's payload.
+  private async buildRelayFrame(
+    type: string,
+    targetId: string,
+    payload: object,
+    secretField: string,
+    secret: string,
+    context?: string,
+  ) {
+    const group = this.groups.get(targetId);
+    if (!group) {
+      return this.relayTarget(type, targetId, {
+        ...payload,
+        [secretField]: await this.encryptFor(secret, targetId, context),
+      });
+    }
+    const holders = await this.ensureSenderKey(group);
+    const perMember: Record<string, Record<string, string>> = {};
+    const strict = await this.isStrictEncryption();
+    for (const memberId of group.members) {
+      if (memberId === this.currentUser?.id || holders.has(memberId)) continue;
+      // No clear copy in strict mode: they can read it once they receive our sender key
+      if (strict && !cryptoService.hasSharedKey(memberId)) continue;
+      perMember[memberId] = { [secretField]: await this.encryptFor(secret, memberId, context) };
+    }
+    const sealed = await cryptoService.encryptForGroup(secret, group.id, context);
+    return {
+      ...this.relayTarget(type, targetId, { ...payload, groupId: group.id, [secretField]: sealed }),
+      perMember,
+    };
+  }
+
+  // Make sure we have a sending key for the group and hand it to every member we can reach
+  // securely. Returns the members holding it.
+  private async ensureSenderKey(group: Group): Promise<Set<string>> {
+    let distribution = cryptoService.getSenderKey(group.id);
+    let holders = this.senderKeyHolders.get(group.id);
+    if (!distribution || !holders) {
+      distribution = await cryptoService.createSenderKey(group.id);
+      holders = new Set();
+      this.senderKeyHolders.set(group.id, holders);
+    }
+    for (const memberId of group.members) {
+      if (memberId === this.currentUser?.id || holders.has(memberId)) continue;
+      if (this.socket?.readyState !== WebSocket.OPEN) break;
+      // Unlike other signals there is no plain text fallback: a leaked sender key exposes the whole group
+      if (!(await this.ensurePeerKey(memberId))) continue;
+      try {
+        const signedKey = await this.signed("SENDER_KEY", memberId, distribution);
+        const data = await cryptoService.encrypt(JSON.stringify(signedKey), memberId);
+        this.socket?.send(
+          JSON.stringify({
+            type: "SENDER_KEY",
+            targetUserId: memberId,
+            payload: { senderId: this.currentUser?.id, data },
+          }),
+        );
+        holders.add(memberId);
+      } catch (e) {
+        logger.warn("Crypto", `Could not send sender key for ${group.id} to ${memberId}`, e);
+      }
+    }
+    return holders;
+  }
+
+  private async importSenderKey(
+    payload: { senderId?: string; data?: string } | undefined,
+    relayedFrom?: string,
+  ) {
+    const distribution = await this.openSignal("SENDER_KEY", payload, relayedFrom);
+    if (!distribution || typeof distribution.groupId !== "string" || !payload?.senderId) return;
+    const group = this.groups.get(distribution.groupId);
+    if (group && !group.members.includes(payload.senderId)) {
+      logger.warn("Crypto", `Ignoring sender key from non-member ${payload.senderId}`);
+      return;
+    }
+    cryptoService.importSenderKey(payload.senderId, distribution);
+    this.notifyKeyAvailable(payload.senderId);
+  }
+
+  // Any membership change rotates our sender key so leavers can't read on and newcomers can't
+  // read back; keys of members who left are dropped.
+  private updateGroupKeys(previous: Group | undefined, next: Group | undefined) {
+    if (!next) {
+      if (previous) {
+        cryptoService.forgetSenderKeys(previous.id);
+        this.senderKeyHolders.delete(previous.id);
+      }
+      return;
+    }
+    const before = previous ? previous.members : [];
+    if (previous && before.length === next.members.length && before.every((m) => next.members.includes(m))) {
+      return;
+    }
+    cryptoService.discardSenderKey(next.id);
+    this.senderKeyHolders.delete(next.id);
+    const left = before.filter((m) => !next.members.includes(m));
+    if (left.length > 0) cryptoService.forgetSenderKeys(next.id, left);
+  }
+
+  private async openContent(
+    content: string,
+    senderId: string,
+    groupId?: string,
+    context?: string,
+  ): Promise<string> {
+    if (groupId && cryptoService.isGroupCiphertext(content)) {
+      await this.senderKeysReady;
+      return cryptoService.decryptFromGroup(content, groupId, senderId, context);
+    }
+    return cryptoService.decrypt(content, senderId, context);
+  }
+
+  // Chat ciphertext is bound to the message it was sent as, so it can't be replayed under
+  // another id or time
+  private messageContext(message: Pick<Message, "id" | "timestamp">): string {
+    return `${message.id}|${message.timestamp}`;
+  }
+
+  private async encryptFor(text: string, recipientId: string, context?: string): Promise<string> {
+    await this.ensurePeerKey(recipientId);
+    try {
+      return await cryptoService.encrypt(text, recipientId, context);
+    } catch (e) {
+      if (await this.isStrictEncryption()) throw e;
+      logger.warn("Crypto", `Encryption failed for ${recipientId}, sending plain text fallback.`, e);
+      return text;
+    }
+  }
+
+  // Look the key up in the directory when we have never seen the peer online, and once per
+  // login for a prekey bundle so the first message can already open a ratchet session
+  private async ensurePeerKey(userId: string): Promise<boolean> {
+    const lookedUp = cryptoService.hasSession(userId) || this.bundleLookups.has(userId);
+    if (cryptoService.hasSharedKey(userId) && lookedUp) return true;
+    if (!this.authenticated) return cryptoService.hasSharedKey(userId);
+    this.bundleLookups.add(userId);
+    await this.fetchPublicKey(userId);
+    return cryptoService.hasSharedKey(userId);
+  }
+
+  private async learnPublicKey(userId: string, publicKey: string) {
+    await cryptoService.computeSharedSecret(userId, publicKey);
+    // Only cache keys that actually imported
+    if (cryptoService.getPeerPublicKey(userId) !== publicKey) return;
+    try {
+      await storageService.savePublicKey(userId, publicKey);
+    } catch (e) {
+      logger.warn("Crypto", `Could not cache public key of ${userId}`, e);
+    }
+    this.notifyKeyAvailable(userId);
+  }
+
+  private notifyKeyAvailable(userId: string) {
+    this.keyAvailableHandlers.forEach((h) => h(userId));
+  }
+
+  // Fail closed: content we can't decrypt (yet) stays ciphertext and the message is flagged sealed.
+  // null when the content isn't signed by the sender although they sign, or was signed for
+  // another message.
+  private async openMessage(message: Message, groupId?: string): Promise<Message | null> {
+    const rest: Message = { ...message };
+    delete rest.sealed;
+    delete rest.verified;
+    let content = DECRYPTION_FAILED;
+    try {
+      content = await this.openContent(
+        message.content,
+        message.senderId,
+        groupId,
+        this.messageContext(message),
+      );
+    } catch (e) {
+      logger.error("Crypto", "Decryption failed", e);
+    }
+    if (content === DECRYPTION_FAILED) {
+      logger.warn("Crypto", `Keeping ${message.id} from ${message.senderId} sealed until its key arrives`);
+      return { ...rest, sealed: true };
+    }
+    const signed = await this.openSignedContent(message, content);
+    if (signed === null) return null;
+    return {
+      ...rest,
+      content: signed.content,
+      encrypted: cryptoService.isCiphertext(message.content),
+      ...(signed.verified ? {} : { verified: false }),
+    };
+  }
+
+  // Content from older clients is the bare text, which only passes while the sender doesn't sign
+  private async openSignedContent(
+    message: Message,
+    content: string,
+  ): Promise<{ content: string; verified: boolean } | null> {
+    let envelope: any = null;
+    try {
+      envelope = content.startsWith("{") ? JSON.parse(content) : null;
+    } catch {
+      // Bare text that happens to start with a brace
+    }
+    const isEnvelope =
+      envelope && typeof envelope.sig === "object" && typeof envelope.content === "string";
+    const body = isEnvelope ? envelope : { content };
+    const opened = await this.openSigned("CHAT", body, message.senderId);
+    if (!opened) return null;
+    if (
+      isEnvelope &&
+      (opened.id !== message.id ||
+        opened.conversationId !== message.conversationId ||
+        opened.type !== message.type ||
+        opened.timestamp !== message.timestamp)
+    ) {
+      logger.warn("Crypto", `Dropped ${message.id}: its content was signed for another message`);
+      return null;
+    }
+    return { content: opened.content, verified: opened.verified };
+  }
+
+  // Marks the message seen, synchronously so two copies racing through onmessage can't both pass.
+  // Redelivery from the offline queue ends up here as much as a deliberate replay.
+  private isReplay(message: Pick<Message, "id" | "senderId">): boolean {
+    const seen = this.seenMessageIds.get(message.senderId) || [];
+    if (seen.includes(message.id)) {
+      logger.warn("Network", `Dropped replayed message ${message.id} from ${message.senderId}`);
+      return true;
+    }
+    this.seenMessageIds.set(message.senderId, [...seen, message.id].slice(-SEEN_MESSAGE_WINDOW));
+    this.saveSeenMessageIds();
+    return false;
+  }
+
+  private forgetSeen(message: Pick<Message, "id" | "senderId">) {
+    const seen = this.seenMessageIds.get(message.senderId) || [];
+    this.seenMessageIds.set(message.senderId, seen.filter((id) => id !== message.id));
+    this.saveSeenMessageIds();
+  }
+
+  private saveSeenMessageIds() {
+    storageService
+      .saveSeenMessageIds(Object.fromEntries(this.seenMessageIds))
+      .catch((e) => logger.warn("Storage", "Could not persist seen message ids", e));
+  }
+
+  private async loadSeenMessageIds() {
+    try {
+      this.seenMessageIds = new Map(Object.entries(await storageService.getSeenMessageIds()));
+    } catch (e) {
+      logger.warn("Storage", "Could not load seen message ids", e);
+      this.seenMessageIds = new Map();
+    }
+  }
+
+  private async loadCachedPublicKeys() {
+    try {
+      const keys = await storageService.getPublicKeys();
+      for (const [uid, key] of Object.entries(keys)) {
+        await cryptoService.computeSharedSecret(uid, key);
+      }
+    } catch (e) {
+      logger.warn("Crypto", "Could not load cached public keys", e);
+    }
+  }
+
+  // Encrypted signals carry their signature inside the encrypted body. `relayedFrom` is the sender
+  // the server stamped on the frame; the claimed senderId has to match it.
+  private async openSignal(
+    type: string,
+    payload: { senderId?: string; data?: string; groupId?: string } | undefined,
+    relayedFrom?: string,
+  ): Promise<any> {
+    if (!payload || !payload.senderId || typeof payload.data !== "string") return null;
+    if (relayedFrom && payload.senderId !== relayedFrom) {
+      logger.warn("Crypto", `Dropped ${type} claiming ${payload.senderId} from ${relayedFrom}`);
+      return null;
+    }
+    const text = await this.openContent(payload.data, payload.senderId, payload.groupId);
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch (e) {
+      logger.error("Crypto", `Dropping unreadable signal from ${payload.senderId}`, e);
+      return null;
+    }
+    return this.openSigned(type, body, payload.senderId);
+  }
+
+  // Signs a signal for `to` (a user, a group id, or "*" for broadcasts). Type, sender, addressee
+  // and time are covered, so the server can neither forge a signal nor redirect it.
+  private async signed<T extends object>(type: string, to: string, payload: T) {
+    const sig = { from: this.currentUser!.id, to, at: Date.now() };
+    const value = await cryptoService.sign(this.signatureInput(type, sig, payload));
+    return { ...payload, sig: { ...sig, value } };
+  }
+
+  private signatureInput(
+    type: string,
+    sig: { from: string; to: string; at: number },
+    body: object,
+  ): string {
+    return `${type}|${sig.from}|${sig.to}|${sig.at}|${JSON.stringify(body)}`;
+  }
+
+  // The payload without its signature plus `verified`, or null when the frame must be dropped
+  private async openSigned(type: string, payload: any, claimedFrom?: string): Promise<any> {
+    if (!payload || typeof payload !== "object") return null;
+    const verified = await this.checkSignature(type, payload, claimedFrom);
+    if (verified === null) return null;
+    const from = payload.sig?.from ?? claimedFrom;
+    if (!verified && typeof from === "string") {
+      this.unverifiedSenders.add(from);
+      this.unverifiedSenderHandlers.forEach((h) => h(from));
+    }
+    const body = { ...payload };
+    delete body.sig;
+    return { ...body, verified };
+  }
+
+  // true: signed by the sender. false: can't be checked (unsigned, from an older client, or a
+  // sender whose signing key we don't know); delivered but flagged. null: forged, addressed to
+  // someone else, or unsigned although the sender has published a signing key or their safety
+  // number was verified.
+  private async checkSignature(
+    type: string,
+    payload: any,
+    claimedFrom?: string,
+  ): Promise<boolean | null> {
+    const { sig, ...body } = payload;
+    const signed = !!sig && typeof sig === "object";
+    if (signed && ((claimedFrom && sig.from !== claimedFrom) || !this.isAddressedToUs(sig.to))) {
+      logger.warn("Crypto", `Rejected ${type} signed by ${sig.from} for ${sig.to}`);
+      return null;
+    }
+    const from: string | undefined = signed ? sig.from : claimedFrom;
+    if (from) await this.lookUpSigningKey(from);
+    if (!signed) {
+      if (from && (cryptoService.hasSigningKey(from) || (await this.isVerifiedContact(from)))) {
+        logger.warn("Crypto", `Rejected unsigned ${type} claiming to be from ${from}`);
+        return null;
+      }
+      logger.warn("Crypto", `Unsigned ${type}${from ? ` from ${from}` : ""}`);
+      return false;
+    }
+    const input = this.signatureInput(type, sig, body);
+    const valid = await cryptoService.verify(sig.from, input, sig.value);
+    if (valid === null) {
+      if (await this.isVerifiedContact(sig.from)) {
+        logger.warn("Crypto", `Rejected ${type} from verified ${sig.from} without their signing key`);
+        return null;
+      }
+      logger.warn("Crypto", `No signing key for ${sig.from}, can't verify ${type}`);
+      return false;
+    }
+    if (!valid) {
+      logger.warn("Crypto", `Rejected ${type} with a bad signature from ${sig.from}`);
+      return null;
+    }
+    return true;
+  }
+
+  private async isVerifiedContact(userId: string): Promise<boolean> {
+    return !!(await storageService.getVerifiedContacts())[userId];
+  }
+
+  // Their signing key comes with the prekey bundle; looked up once per login
+  private async lookUpSigningKey(userId: string) {
+    if (cryptoService.hasSigningKey(userId) || !this.authenticated) return;
+    if (this.bundleLookups.has(userId)) return;
+    this.bundleLookups.add(userId);
+    await this.fetchPublicKey(userId);
+  }
+
+  private isAddressedToUs(to: unknown): boolean {
+    if (to === "*" || to === this.currentUser?.id) return true;
+    return typeof to === "string" && this.groups.has(to);
+  }
+
+  private notifyGroups() {
+    const groups = this.getGroups();
+    this.groupsHandlers.forEach((h) => h(groups));
+  }
+
+  private settleAck(data: { messageId?: string; success?: boolean; delivery?: ChatDelivery; reason?: string }) {
+    const pending = data.messageId ? this.pendingAcks.get(data.messageId) : undefined;
+    if (!pending) return; // Already timed out or not ours
+    clearTimeout(pending.timer);
+    this.pendingAcks.delete(data.messageId!);
+    if (data.success) {
+      pending.resolve(data.delivery || "relayed");
+    } else {
+      pending.reject(new Error(data.reason || "Rejected by server"));
+    }
+  }
+
+  private rejectPendingAcks() {
+    this.pendingAcks.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error("Network disconnected"));
+    });
+    this.pendingAcks.clear();
+  }
+
   private notifyAuthResult(result: { success: boolean; reason?: string }) {
     this.authResultHandlers.forEach((h) => h(result));
   }
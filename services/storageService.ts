@@ -1,5 +1,5 @@
 
-import { Message, Conversation, User, AppSettings, FriendRequest } from '../types';
+import { Message, MessageStatus, Conversation, User, AppSettings, FriendRequest, OutboxEntry, Reaction, Group, ReceivingAttachment } from '../types';
 import { INITIAL_CONTACTS } from '../constants';
 import { logger } from './logger';
 
@@ -10,6 +10,16 @@ const KEY_CONTACTS = 'orbit_contacts';
 const KEY_CURRENT_USER = 'orbit_current_user';
 const KEY_USERS = 'orbit_users';
 const KEY_FRIEND_REQUESTS = 'orbit_friend_requests';
+const KEY_REACTIONS = 'orbit_reactions';
+const KEY_SESSION_TOKEN = 'orbit_session_token';
+const KEY_OUTBOX = 'orbit_outbox';
+const KEY_VERIFIED_CONTACTS = 'orbit_verified_contacts';
+const KEY_KEY_CHANGES = 'orbit_key_changes';
+const KEY_PUBLIC_KEYS = 'orbit_public_keys';
+const KEY_SEALED_MESSAGES = 'orbit_sealed_messages';
+const KEY_SEEN_MESSAGES = 'orbit_seen_messages';
+const KEY_ATTACHMENT_UPLOADS = 'orbit_attachment_uploads';
+const KEY_ATTACHMENT_DOWNLOADS = 'orbit_attachment_downloads';
 
 class StorageService {
   private isElectron: boolean;
@@ -173,6 +183,25 @@ class StorageService {
       // Note: We DO NOT clear KEY_CURRENT_USER. This allows "Remember Me" / pre-fill on login page.
   }
 
+  // --- Session Token ---
+  // Server-issued token used for silent re-authentication; the password itself is never stored.
+
+  async getSessionToken(): Promise<string | null> {
+    return await this.getItem<string>(KEY_SESSION_TOKEN);
+  }
+
+  async saveSessionToken(token: string): Promise<void> {
+    await this.setItem(KEY_SESSION_TOKEN, token);
+  }
+
+  async clearSessionToken(): Promise<void> {
+    if (this.isElectron) {
+      await this.setItem(KEY_SESSION_TOKEN, null);
+    } else {
+      localStorage.removeItem(this.getStorageKey(KEY_SESSION_TOKEN));
+    }
+  }
+
   // --- Friend Requests ---
 
   async getFriendRequests(): Promise<FriendRequest[]> {
@@ -299,6 +328,260 @@ class StorageService {
     }
   }
 
+  async deleteMessage(messageId: string): Promise<void> {
+    if (this.isElectron) {
+      await window.electronAPI!.invoke('db:message-delete', messageId);
+      return;
+    }
+
+    await this.withLock(KEY_MESSAGES, async () => {
+      const allMessages = (await this.getItem<Message[]>(KEY_MESSAGES)) || [];
+      await this.setItem(KEY_MESSAGES, allMessages.filter(m => m.id !== messageId));
+    });
+  }
+
+  // Rewrite a stored message in place (edits, recalls) without counting it as new activity
+  async updateMessage(message: Message): Promise<void> {
+    if (this.isElectron) {
+      await window.electronAPI!.invoke('db:message-upsert', message);
+      return;
+    }
+
+    await this.withLock(KEY_MESSAGES, async () => {
+      const allMessages = (await this.getItem<Message[]>(KEY_MESSAGES)) || [];
+      await this.setItem(KEY_MESSAGES, allMessages.map(m => m.id === message.id ? message : m));
+    });
+    // The browser store keeps a copy of the last message on the conversation
+    await this.withLock(KEY_CONVERSATIONS, async () => {
+      const convos = await this.getConversations();
+      const convo = convos.find(c => c.lastMessage?.id === message.id);
+      if (convo) {
+        convo.lastMessage = message;
+        await this.setItem(KEY_CONVERSATIONS, convos);
+      }
+    });
+  }
+
+  // Receipt updates only touch the status, so conversation order and unread counts stay put
+  async updateMessageStatus(messageIds: string[], status: MessageStatus): Promise<void> {
+    if (messageIds.length === 0) return;
+    if (this.isElectron) {
+      await window.electronAPI!.invoke('db:message-update-status', { messageIds, status });
+      return;
+    }
+
+    await this.withLock(KEY_MESSAGES, async () => {
+      const allMessages = (await this.getItem<Message[]>(KEY_MESSAGES)) || [];
+      const ids = new Set(messageIds);
+      await this.setItem(KEY_MESSAGES, allMessages.map(m => ids.has(m.id) ? { ...m, status } : m));
+    });
+  }
+
+  // --- Reactions ---
+
+  async getReactions(conversationId: string): Promise<Reaction[]> {
+    if (this.isElectron) {
+      const rows = await window.electronAPI!.invoke('db:reactions-by-conversation', conversationId) as Reaction[];
+      return rows || [];
+    }
+    const all = (await this.getItem<Reaction[]>(KEY_REACTIONS)) || [];
+    return all
+      .filter(r => r.conversationId === conversationId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async addReaction(reaction: Reaction): Promise<void> {
+    if (this.isElectron) {
+      await window.electronAPI!.invoke('db:reaction-add', reaction);
+      return;
+    }
+    await this.withLock(KEY_REACTIONS, async () => {
+      const all = (await this.getItem<Reaction[]>(KEY_REACTIONS)) || [];
+      const exists = all.some(r => r.messageId === reaction.messageId && r.userId === reaction.userId && r.emoji === reaction.emoji);
+      if (!exists) {
+        all.push(reaction);
+        await this.setItem(KEY_REACTIONS, all);
+      }
+    });
+  }
+
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    if (this.isElectron) {
+      await window.electronAPI!.invoke('db:reaction-remove', { messageId, userId, emoji });
+      return;
+    }
+    await this.withLock(KEY_REACTIONS, async () => {
+      const all = (await this.getItem<Reaction[]>(KEY_REACTIONS)) || [];
+      await this.setItem(KEY_REACTIONS, all.filter(r => !(r.messageId === messageId && r.userId === userId && r.emoji === emoji)));
+    });
+  }
+
+  // --- Key verification ---
+  // Contacts whose safety number was compared out of band, mapped to the identity key that was verified.
+
+  async getVerifiedContacts(): Promise<Record<string, string>> {
+    return (await this.getItem<Record<string, string>>(KEY_VERIFIED_CONTACTS)) || {};
+  }
+
+  async setContactVerified(contactId: string, publicKey: string | null): Promise<void> {
+    await this.withLock(KEY_VERIFIED_CONTACTS, async () => {
+      const verified = await this.getVerifiedContacts();
+      if (publicKey) {
+        verified[contactId] = publicKey;
+      } else {
+        delete verified[contactId];
+      }
+      await this.setItem(KEY_VERIFIED_CONTACTS, verified);
+    });
+  }
+
+  // Contacts whose identity key changed and the user hasn't acknowledged it yet (id -> changedAt)
+  async getKeyChanges(): Promise<Record<string, number>> {
+    return (await this.getItem<Record<string, number>>(KEY_KEY_CHANGES)) || {};
+  }
+
+  async addKeyChange(contactId: string, changedAt: number): Promise<void> {
+    await this.withLock(KEY_KEY_CHANGES, async () => {
+      const changes = await this.getKeyChanges();
+      changes[contactId] = changedAt;
+      await this.setItem(KEY_KEY_CHANGES, changes);
+    });
+  }
+
+  async acknowledgeKeyChange(contactId: string): Promise<void> {
+    await this.withLock(KEY_KEY_CHANGES, async () => {
+      const changes = await this.getKeyChanges();
+      delete changes[contactId];
+      await this.setItem(KEY_KEY_CHANGES, changes);
+    });
+  }
+
+  // Last known public key per contact (id -> key), so we can encrypt to them while offline
+  async getPublicKeys(): Promise<Record<string, string>> {
+    return (await this.getItem<Record<string, string>>(KEY_PUBLIC_KEYS)) || {};
+  }
+
+  async savePublicKey(userId: string, publicKey: string): Promise<void> {
+    await this.withLock(KEY_PUBLIC_KEYS, async () => {
+      const keys = await this.getPublicKeys();
+      if (keys[userId] === publicKey) return;
+      keys[userId] = publicKey;
+      await this.setItem(KEY_PUBLIC_KEYS, keys);
+    });
+  }
+
+  // --- Sealed messages ---
+  // Incoming messages stored still encrypted until their key shows up (id -> conversationId).
+
+  async getSealedMessages(): Promise<Record<string, string>> {
+    return (await this.getItem<Record<string, string>>(KEY_SEALED_MESSAGES)) || {};
+  }
+
+  async addSealedMessage(messageId: string, conversationId: string): Promise<void> {
+    await this.withLock(KEY_SEALED_MESSAGES, async () => {
+      const sealed = await this.getSealedMessages();
+      sealed[messageId] = conversationId;
+      await this.setItem(KEY_SEALED_MESSAGES, sealed);
+    });
+  }
+
+  async removeSealedMessage(messageId: string): Promise<void> {
+    await this.withLock(KEY_SEALED_MESSAGES, async () => {
+      const sealed = await this.getSealedMessages();
+      delete sealed[messageId];
+      await this.setItem(KEY_SEALED_MESSAGES, sealed);
+    });
+  }
+
+  // --- Seen message ids ---
+  // Latest incoming message ids per sender, so redelivered or replayed frames can be dropped.
+
+  async getSeenMessageIds(): Promise<Record<string, string[]>> {
+    return (await this.getItem<Record<string, string[]>>(KEY_SEEN_MESSAGES)) || {};
+  }
+
+  async saveSeenMessageIds(seen: Record<string, string[]>): Promise<void> {
+    await this.withLock(KEY_SEEN_MESSAGES, () => this.setItem(KEY_SEEN_MESSAGES, seen));
+  }
+
+  // --- Attachment uploads ---
+  // Chunk indices the server has acknowledged per attachment, so an interrupted upload resumes.
+
+  async getUploadedChunks(attachmentId: string): Promise<number[]> {
+    const uploads = (await this.getItem<Record<string, number[]>>(KEY_ATTACHMENT_UPLOADS)) || {};
+    return uploads[attachmentId] || [];
+  }
+
+  async addUploadedChunks(attachmentId: string, indices: number[]): Promise<void> {
+    await this.withLock(KEY_ATTACHMENT_UPLOADS, async () => {
+      const uploads = (await this.getItem<Record<string, number[]>>(KEY_ATTACHMENT_UPLOADS)) || {};
+      uploads[attachmentId] = Array.from(new Set([...(uploads[attachmentId] || []), ...indices]));
+      await this.setItem(KEY_ATTACHMENT_UPLOADS, uploads);
+    });
+  }
+
+  async removeUploadedChunks(attachmentId: string): Promise<void> {
+    await this.withLock(KEY_ATTACHMENT_UPLOADS, async () => {
+      const uploads = (await this.getItem<Record<string, number[]>>(KEY_ATTACHMENT_UPLOADS)) || {};
+      delete uploads[attachmentId];
+      await this.setItem(KEY_ATTACHMENT_UPLOADS, uploads);
+    });
+  }
+
+  // --- Attachment downloads ---
+  // Received messages whose file is still on its way (attachment id -> message), so waiting
+  // for the rest of it survives a restart.
+
+  async getReceivingAttachments(): Promise<Record<string, ReceivingAttachment>> {
+    const downloads = await this.getItem<Record<string, ReceivingAttachment>>(KEY_ATTACHMENT_DOWNLOADS);
+    return downloads || {};
+  }
+
+  async addReceivingAttachment(attachmentId: string, entry: ReceivingAttachment): Promise<void> {
+    await this.withLock(KEY_ATTACHMENT_DOWNLOADS, async () => {
+      const downloads = await this.getReceivingAttachments();
+      downloads[attachmentId] = entry;
+      await this.setItem(KEY_ATTACHMENT_DOWNLOADS, downloads);
+    });
+  }
+
+  async removeReceivingAttachment(attachmentId: string): Promise<void> {
+    await this.withLock(KEY_ATTACHMENT_DOWNLOADS, async () => {
+      const downloads = await this.getReceivingAttachments();
+      if (!(attachmentId in downloads)) return;
+      delete downloads[attachmentId];
+      await this.setItem(KEY_ATTACHMENT_DOWNLOADS, downloads);
+    });
+  }
+
+  // --- Outbox ---
+  // Unsent outgoing messages, kept in send order until the server accepts them.
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const entries = (await this.getItem<OutboxEntry[]>(KEY_OUTBOX)) || [];
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async addToOutbox(entry: OutboxEntry): Promise<void> {
+    await this.withLock(KEY_OUTBOX, async () => {
+      const entries = (await this.getItem<OutboxEntry[]>(KEY_OUTBOX)) || [];
+      const idx = entries.findIndex(e => e.message.id === entry.message.id);
+      if (idx >= 0) {
+        entries[idx] = entry;
+      } else {
+        entries.push(entry);
+      }
+      await this.setItem(KEY_OUTBOX, entries);
+    });
+  }
+
+  async removeFromOutbox(messageId: string): Promise<void> {
+    await this.withLock(KEY_OUTBOX, async () => {
+      const entries = (await this.getItem<OutboxEntry[]>(KEY_OUTBOX)) || [];
+      await this.setItem(KEY_OUTBOX, entries.filter(e => e.message.id !== messageId));
+    });
+  }
+
   private async updateConversationLastMessageLegacy(conversationId: string, message: Message, currentUserId: string) {
     const convos = await this.getConversations();
     const index = convos.findIndex(c => c.id === conversationId);
@@ -356,6 +639,26 @@ class StorageService {
       return newId;
   }
 
+  // Groups are owned by the server; this keeps the local conversation in step with it
+  async saveGroupConversation(group: Group): Promise<void> {
+    if (this.isElectron) {
+      await window.electronAPI!.invoke('db:conversation-save-group', group);
+      return;
+    }
+
+    await this.withLock(KEY_CONVERSATIONS, async () => {
+      const convos = await this.getConversations();
+      const existing = convos.find(c => c.id === group.id);
+      const groupFields = { kind: 'group' as const, name: group.name, participantIds: group.members };
+      if (existing) {
+        Object.assign(existing, groupFields);
+      } else {
+        convos.push({ id: group.id, participantId: group.id, unreadCount: 0, updatedAt: group.createdAt, ...groupFields });
+      }
+      await this.setItem(KEY_CONVERSATIONS, convos);
+    });
+  }
+
   async markConversationRead(conversationId: string): Promise<void> {
     if (this.isElectron) {
       await window.electronAPI!.invoke('db:conversation-mark-read', conversationId);
@@ -374,6 +677,8 @@ class StorageService {
     const defaults: AppSettings = { 
       theme: 'light', 
       notificationsEnabled: true, 
+      readReceiptsEnabled: true,
+      strictEncryption: true,
       logLevel: 'info',
       // serverHost/Port left undefined by default; UI can supply or use env/defaults
     } as AppSettings;
@@ -391,6 +696,7 @@ class StorageService {
     } else {
       const finalMessagesKey = this.getStorageKey(KEY_MESSAGES);
       localStorage.removeItem(finalMessagesKey);
+      localStorage.removeItem(this.getStorageKey(KEY_REACTIONS));
     }
   }
 }
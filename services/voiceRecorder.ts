@@ -0,0 +1,170 @@
+// services/voiceRecorder.ts
+// Press-to-record voice notes. The microphone stream, the MediaRecorder and the level meter
+// are injectable, so the recorder runs against a synthetic stream in tests.
+import {
+  VOICE_LEVEL_INTERVAL_MS,
+  VOICE_MAX_DURATION_MS,
+  VOICE_MIN_DURATION_MS,
+  VOICE_WAVEFORM_BARS,
+} from "../constants";
+import { readBlob } from "./encoding";
+import { logger } from "./logger";
+
+// The parts of MediaRecorder we use
+export interface RecorderLike {
+  mimeType: string;
+  ondataavailable: ((event: BlobEvent) => void) | null;
+  onstop: ((event: Event) => void) | null;
+  start(timeslice?: number): void;
+  stop(): void;
+}
+
+export interface VoiceRecorderDeps {
+  getStream: () => Promise<MediaStream>;
+  createRecorder: (stream: MediaStream) => RecorderLike;
+  // `read` samples the current input level (0..1); `close` releases the meter
+  createLevelMeter: (stream: MediaStream) => { read: () => number; close: () => void };
+  now: () => number;
+}
+
+export interface VoiceRecording {
+  bytes: Uint8Array<ArrayBuffer>;
+  mimeType: string;
+  duration: number; // ms
+  waveform: number[]; // VOICE_WAVEFORM_BARS levels, 0..1
+}
+
+type Session = {
+  stream: MediaStream;
+  recorder: RecorderLike;
+  meter: { read: () => number; close: () => void };
+  chunks: Blob[];
+  levels: number[];
+  startedAt: number;
+  sampler: any;
+  limit: any;
+};
+
+const PREFERRED_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+const browserDeps: VoiceRecorderDeps = {
+  getStream: () => navigator.mediaDevices.getUserMedia({ audio: true }),
+  createRecorder: (stream) => {
+    const mimeType = PREFERRED_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+    return new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  },
+  createLevelMeter: (stream) => {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    return {
+      // RMS of the current window
+      read: () => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (const s of samples) sum += s * s;
+        return Math.sqrt(sum / samples.length);
+      },
+      close: () => {
+        context.close();
+      },
+    };
+  },
+  now: () => Date.now(),
+};
+
+// Peaks of equal slices of the level samples, scaled so the loudest bar is 1
+export function toWaveform(levels: number[], bars: number = VOICE_WAVEFORM_BARS): number[] {
+  if (levels.length === 0) return new Array(bars).fill(0);
+  const peaks = Array.from({ length: bars }, (_, i) => {
+    const from = Math.floor((i * levels.length) / bars);
+    const to = Math.max(from + 1, Math.floor(((i + 1) * levels.length) / bars));
+    return Math.max(...levels.slice(from, to));
+  });
+  const max = Math.max(...peaks);
+  return peaks.map((p) => (max > 0 ? Math.round((p / max) * 100) / 100 : 0));
+}
+
+export class VoiceRecorder {
+  private session: Session | null = null;
+  // Called when a recording hits VOICE_MAX_DURATION_MS and stops by itself
+  onLimitReached: (() => void) | null = null;
+
+  constructor(private deps: VoiceRecorderDeps = browserDeps) {}
+
+  isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  // Rejects when there is no microphone or access was denied
+  async start(): Promise<void> {
+    if (this.session) return;
+    const stream = await this.deps.getStream();
+    const recorder = this.deps.createRecorder(stream);
+    const session: Session = {
+      stream,
+      recorder,
+      meter: this.deps.createLevelMeter(stream),
+      chunks: [],
+      levels: [],
+      startedAt: this.deps.now(),
+      sampler: null,
+      limit: null,
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data && event.data.size > 0) session.chunks.push(event.data);
+    };
+    session.sampler = setInterval(() => {
+      session.levels.push(session.meter.read());
+    }, VOICE_LEVEL_INTERVAL_MS);
+    session.limit = setTimeout(() => this.onLimitReached?.(), VOICE_MAX_DURATION_MS);
+    this.session = session;
+    recorder.start();
+  }
+
+  // Resolves null for recordings too short to be meant (a tap instead of a press)
+  async stop(): Promise<VoiceRecording | null> {
+    const session = this.session;
+    if (!session) return null;
+    const duration = Math.min(this.deps.now() - session.startedAt, VOICE_MAX_DURATION_MS);
+    await this.finish(session);
+    if (duration < VOICE_MIN_DURATION_MS || session.chunks.length === 0) {
+      logger.info("Voice", `Discarded a ${duration}ms recording`);
+      return null;
+    }
+    const blob = new Blob(session.chunks, { type: session.recorder.mimeType });
+    return {
+      bytes: await readBlob(blob),
+      // Codec parameters aren't part of the stored type
+      mimeType: (session.recorder.mimeType || "audio/webm").split(";")[0],
+      duration,
+      waveform: toWaveform(session.levels),
+    };
+  }
+
+  async cancel(): Promise<void> {
+    if (this.session) await this.finish(this.session);
+  }
+
+  // The recorder delivers its last data before onstop; the microphone is released either way
+  private async finish(session: Session) {
+    this.session = null;
+    clearInterval(session.sampler);
+    clearTimeout(session.limit);
+    await new Promise<void>((resolve) => {
+      session.recorder.onstop = () => resolve();
+      try {
+        session.recorder.stop();
+      } catch (e) {
+        logger.warn("Voice", "Recorder was already stopped", e);
+        resolve();
+      }
+    });
+    session.stream.getTracks().forEach((track) => track.stop());
+    session.meter.close();
+  }
+}
+
+export const voiceRecorder = new VoiceRecorder();
@@ -0,0 +1,177 @@
+// In-memory stand-ins for storageService and socketService, shared by the unit tests of the
+// services built on top of them. A test file mocks both modules with this one:
+//
+//   vi.mock("../../services/storageService", () => import("../fakeServices"));
+//   vi.mock("../../services/socketService", () => import("../fakeServices"));
+//
+// and calls resetStore() in beforeEach. The fake storageService reads and writes `store`.
+// The fake socketService remembers what services subscribe with, for emit(), and its other
+// methods stay inert until a test gives them an implementation.
+import { vi } from "vitest";
+import { MAX_FILE_SIZE } from "../constants";
+import {
+  AppSettings,
+  AttachmentChunk,
+  Conversation,
+  Group,
+  Message,
+  OutboxEntry,
+  Reaction,
+  ReceivingAttachment,
+  User,
+} from "../types";
+
+const emptyStore = () => ({
+  currentUser: { id: "me", username: "me", status: "online" } as User,
+  contacts: [] as User[],
+  conversations: [] as Conversation[],
+  messages: [] as Message[],
+  // Every message passed to saveMessage, in order
+  saved: [] as Message[],
+  reactions: [] as Reaction[],
+  outbox: [] as OutboxEntry[],
+  sealed: {} as Record<string, string>,
+  uploaded: {} as Record<string, number[]>,
+  receiving: {} as Record<string, ReceivingAttachment>,
+  verified: {} as Record<string, string>,
+  keyChanges: {} as Record<string, number>,
+  settings: {} as Partial<AppSettings>,
+});
+
+export type FakeStore = ReturnType<typeof emptyStore>;
+
+export const store: FakeStore = emptyStore();
+
+export function resetStore(overrides: Partial<FakeStore> = {}) {
+  Object.assign(store, emptyStore(), overrides);
+}
+
+const replace = (message: Message) =>
+  store.messages.map((m) => (m.id === message.id ? message : m));
+
+export const storageService = {
+  getCurrentUser: vi.fn(async () => store.currentUser),
+  getContacts: vi.fn(async () => store.contacts),
+  getConversations: vi.fn(async () => store.conversations),
+  getSettings: vi.fn(async () => store.settings),
+
+  getMessages: vi.fn(async (conversationId: string) =>
+    store.messages.filter((m) => m.conversationId === conversationId),
+  ),
+  saveMessage: vi.fn(async (message: Message) => {
+    store.saved.push(message);
+    store.messages = store.messages.some((m) => m.id === message.id)
+      ? replace(message)
+      : [...store.messages, message];
+  }),
+  updateMessage: vi.fn(async (message: Message) => {
+    store.messages = replace(message);
+  }),
+  deleteMessage: vi.fn(async (messageId: string) => {
+    store.messages = store.messages.filter((m) => m.id !== messageId);
+  }),
+
+  getReactions: vi.fn(async (conversationId: string) =>
+    store.reactions.filter((r) => r.conversationId === conversationId),
+  ),
+  addReaction: vi.fn(async (reaction: Reaction) => {
+    store.reactions.push(reaction);
+  }),
+  removeReaction: vi.fn(async (messageId: string, userId: string, emoji: string) => {
+    store.reactions = store.reactions.filter(
+      (r) => !(r.messageId === messageId && r.userId === userId && r.emoji === emoji),
+    );
+  }),
+
+  getOutbox: vi.fn(async () => [...store.outbox].sort((a, b) => a.queuedAt - b.queuedAt)),
+  addToOutbox: vi.fn(async (entry: OutboxEntry) => {
+    store.outbox = store.outbox.filter((e) => e.message.id !== entry.message.id).concat(entry);
+  }),
+  removeFromOutbox: vi.fn(async (messageId: string) => {
+    store.outbox = store.outbox.filter((e) => e.message.id !== messageId);
+  }),
+
+  getSealedMessages: vi.fn(async () => ({ ...store.sealed })),
+  addSealedMessage: vi.fn(async (messageId: string, conversationId: string) => {
+    store.sealed[messageId] = conversationId;
+  }),
+  removeSealedMessage: vi.fn(async (messageId: string) => {
+    delete store.sealed[messageId];
+  }),
+
+  getUploadedChunks: vi.fn(async (attachmentId: string) => store.uploaded[attachmentId] || []),
+  addUploadedChunks: vi.fn(async (attachmentId: string, indices: number[]) => {
+    store.uploaded[attachmentId] = [...(store.uploaded[attachmentId] || []), ...indices];
+  }),
+  removeUploadedChunks: vi.fn(async (attachmentId: string) => {
+    delete store.uploaded[attachmentId];
+  }),
+
+  getReceivingAttachments: vi.fn(async () => ({ ...store.receiving })),
+  addReceivingAttachment: vi.fn(async (attachmentId: string, entry: ReceivingAttachment) => {
+    store.receiving[attachmentId] = entry;
+  }),
+  removeReceivingAttachment: vi.fn(async (attachmentId: string) => {
+    delete store.receiving[attachmentId];
+  }),
+
+  setContactVerified: vi.fn(async (userId: string, key: string | null) => {
+    if (key) store.verified[userId] = key;
+    else delete store.verified[userId];
+  }),
+  getKeyChanges: vi.fn(async () => ({ ...store.keyChanges })),
+  addKeyChange: vi.fn(async (userId: string, at: number) => {
+    store.keyChanges[userId] = at;
+  }),
+  acknowledgeKeyChange: vi.fn(async (userId: string) => {
+    delete store.keyChanges[userId];
+  }),
+};
+
+type Subscription =
+  | "onAuthResult"
+  | "onKeyAvailable"
+  | "onAttachmentChunk"
+  | "onCallSignal"
+  | "onMessageUpdate"
+  | "onReaction";
+
+const subscribers = new Map<Subscription, Array<(...args: any[]) => any>>();
+
+const subscribe = (name: Subscription) =>
+  vi.fn((handler: (...args: any[]) => any) => {
+    subscribers.set(name, [...(subscribers.get(name) || []), handler]);
+    return () => {};
+  });
+
+// Hands an event to every service subscribed to it, resolving once all of them are done
+export function emit(name: Subscription, ...args: any[]): Promise<unknown> {
+  return Promise.all((subscribers.get(name) || []).map((handler) => handler(...args)));
+}
+
+// Forgets the services subscribed so far, for tests that build a fresh one per case
+export function clearSubscribers() {
+  subscribers.clear();
+}
+
+export const socketService = {
+  onAuthResult: subscribe("onAuthResult"),
+  onKeyAvailable: subscribe("onKeyAvailable"),
+  onAttachmentChunk: subscribe("onAttachmentChunk"),
+  onCallSignal: subscribe("onCallSignal"),
+  onMessageUpdate: subscribe("onMessageUpdate"),
+  onReaction: subscribe("onReaction"),
+
+  isAuthenticated: vi.fn(() => false),
+  isStrictEncryption: vi.fn(async () => true),
+  ensureKeyFor: vi.fn(async (_userId: string) => true),
+  getGroup: vi.fn((_groupId: string): Group | undefined => undefined),
+  getMaxFileSize: vi.fn(() => MAX_FILE_SIZE),
+  openSealed: vi.fn(async (message: Message): Promise<Message | null> => message),
+
+  sendMessage: vi.fn(async (_message: Message, _recipientId: string) => {}),
+  sendMessageUpdate: vi.fn(async (_update: unknown, _recipientId: string) => {}),
+  sendReaction: vi.fn(async (_update: unknown, _recipientId: string) => {}),
+  sendAttachmentChunk: vi.fn(async (_recipientId: string, _chunk: AttachmentChunk) => {}),
+  sendCallSignal: vi.fn(async (_recipientId: string, _signal: any) => {}),
+};
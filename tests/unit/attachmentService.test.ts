@@ -0,0 +1,287 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AttachmentChunk, Message, MessageStatus, MessageType } from "../../types";
+
+vi.mock("../../services/storageService", () => import("../fakeServices"));
+vi.mock("../../services/socketService", () => import("../fakeServices"));
+
+import {
+  attachmentService,
+  AttachmentProgress,
+  FILE_TOO_LARGE,
+} from "../../services/attachmentService";
+import { toBase64 } from "../../services/encoding";
+import { emit, resetStore, socketService, store } from "../fakeServices";
+
+// Chunks the "sender" puts on the wire are handed straight to the "receiver" side (same service)
+const network = {
+  sent: [] as AttachmentChunk[],
+  // Chunk indices the server fails to ack (connection dropped)
+  dropped: new Set<number>(),
+};
+socketService.sendAttachmentChunk.mockImplementation(async (_to, chunk) => {
+  if (network.dropped.has(chunk.index)) throw new Error("Network disconnected");
+  network.sent.push(chunk);
+});
+socketService.getMaxFileSize.mockReturnValue(1024 * 1024);
+
+// 150 KB of non-repeating bytes: three chunks
+const makeBytes = (size = 150 * 1024) =>
+  new Uint8Array(size).map((_, i) => (i * 31 + (i >> 8)) & 0xff);
+const makeDataUrl = () => `data:image/png;base64,${toBase64(makeBytes())}`;
+
+const makeMessage = (id: string, content: string): Message => ({
+  id,
+  conversationId: "c1",
+  senderId: "alice",
+  content,
+  type: MessageType.IMAGE,
+  status: MessageStatus.PENDING,
+  timestamp: Date.now(),
+});
+
+// Sender side: prepare and upload, returning what the receiver gets as the chat message
+async function send(id: string, dataUrl: string) {
+  const { content, attachment } = await attachmentService.prepareDataUrl(dataUrl);
+  const message = { ...makeMessage(id, content), attachment };
+  await attachmentService.upload(message, "bob");
+  return attachmentService.toWireMessage(message);
+}
+
+// Receiver side: the server stamps each chunk with its uploader
+const deliver = (chunk: AttachmentChunk, from = "alice") =>
+  emit("onAttachmentChunk", { ...chunk, from });
+
+describe("AttachmentService", () => {
+  beforeEach(() => {
+    resetStore();
+    network.sent = [];
+    network.dropped = new Set();
+  });
+
+  it("should send only the descriptor and rebuild the image from its chunks", async () => {
+    const dataUrl = makeDataUrl();
+    const progress: AttachmentProgress[] = [];
+    const offProgress = attachmentService.onProgress((p) => progress.push(p));
+    const completed: Message[] = [];
+    const offComplete = attachmentService.onComplete((m) => completed.push(m));
+
+    const wire = await send("m1", dataUrl);
+    expect(wire.attachment).toBeUndefined();
+    expect(wire.content).not.toContain(dataUrl.slice(22, 100));
+    expect(network.sent.map((c) => c.index)).toEqual([0, 1, 2]);
+
+    // Chunks arrive first (the last one twice, as after a resend), then the message
+    const received = attachmentService.fromWireMessage(wire);
+    expect(received).toMatchObject({ content: "", attachment: { size: 150 * 1024, chunks: 3 } });
+    [...network.sent, network.sent[2]].forEach((c) => deliver(c));
+    store.messages = [received];
+    await attachmentService.track(received);
+
+    await vi.waitFor(() => expect(completed).toHaveLength(1));
+    expect(store.messages[0].content).toBe(dataUrl);
+    expect(attachmentService.isReceiving(received.attachment!.id)).toBe(false);
+    expect(store.receiving).toEqual({});
+    expect(progress.filter((p) => p.direction === "upload").pop()).toMatchObject({
+      done: 3,
+      total: 3,
+    });
+    expect(progress.filter((p) => p.direction === "download").pop()).toMatchObject({
+      done: 3,
+      total: 3,
+    });
+    offProgress();
+    offComplete();
+  });
+
+  it("should drop an attachment whose chunks were tampered with", async () => {
+    const wire = await send("m2", makeDataUrl());
+    const received = attachmentService.fromWireMessage(wire);
+    const failures: AttachmentProgress[] = [];
+    const off = attachmentService.onProgress((p) => p.failed && failures.push(p));
+
+    const forged = network.sent[1].data.replace(/^./, (c) => (c === "A" ? "B" : "A"));
+    store.messages = [received];
+    await attachmentService.track(received);
+    deliver(network.sent[0]);
+    deliver({ ...network.sent[1], data: forged });
+    deliver(network.sent[2]);
+    await vi.waitFor(() => expect(failures).toHaveLength(1));
+
+    expect(store.messages[0].content).toBe("");
+    off();
+  });
+
+  it("should only take chunks from the sender of the message", async () => {
+    const wire = await send("m7", makeDataUrl());
+    const received = attachmentService.fromWireMessage(wire);
+    const completed: Message[] = [];
+    const off = attachmentService.onComplete((m) => completed.push(m));
+    store.messages = [received];
+    await attachmentService.track(received);
+
+    // Had these counted, the real chunks would be taken for repeats and the file would fail
+    network.sent.forEach((c) => deliver({ ...c, data: network.sent[0].data }, "mallory"));
+    network.sent.forEach((c) => deliver(c));
+    await vi.waitFor(() => expect(completed).toHaveLength(1));
+    off();
+  });
+
+  it("should finish a file after a restart from the chunks kept on disk", async () => {
+    const received = attachmentService.fromWireMessage(await send("m8", makeDataUrl()));
+    const id = received.attachment!.id;
+    // Left by the last run: the message, waiting for its file, and two chunks in Electron
+    store.messages = [received];
+    store.receiving[id] = { messageId: "m8", conversationId: "c1" };
+    const disk = new Map(network.sent.slice(0, 2).map((c) => [c.index, c.data]));
+
+    // Stands in for the main process, which refuses chunks from anyone but the first sender
+    const invoke = vi.fn(async (channel: string, data: any) => {
+      if (channel === "file:save-chunk") {
+        if (data.from !== "alice") return false;
+        disk.set(data.index, data.data);
+        return true;
+      }
+      if (channel === "file:list-chunks") {
+        return { from: "alice", indices: Array.from(disk.keys()), bytes: disk.size * 1000 };
+      }
+      if (channel === "file:finish-attachment") return disk.size === 3 ? `${data.id}.enc` : null;
+    });
+    (window as any).electronAPI = { invoke };
+    const completed: Message[] = [];
+    const off = attachmentService.onComplete((m) => completed.push(m));
+    try {
+      emit("onAuthResult", { success: true });
+      await vi.waitFor(() => expect(attachmentService.isReceiving(id)).toBe(true));
+      deliver(network.sent[2]);
+
+      await vi.waitFor(() => expect(completed).toHaveLength(1));
+      expect(store.messages[0].content).toBe(`${id}.enc`);
+      expect(store.receiving).toEqual({});
+      // The file never crossed IPC in one piece
+      expect(invoke.mock.calls.map(([channel]) => channel)).not.toContain("file:save-image");
+    } finally {
+      off();
+      delete (window as any).electronAPI;
+    }
+  });
+
+  it("should hand a picked file to main one encrypted chunk at a time", async () => {
+    const bytes = makeBytes();
+    const digest = toBase64(await crypto.subtle.digest("SHA-256", bytes));
+    const appended: { id: string; index: number; data: string }[] = [];
+    // Stands in for the main process, which hashes the file as it decrypts it once
+    const invoke = vi.fn(async (channel: string, data: any) => {
+      if (channel === "file:append-upload") appended.push(data);
+      if (channel === "file:finish-upload") return { filename: `${data.id}.enc`, digest };
+      return true;
+    });
+    (window as any).electronAPI = { invoke };
+    let prepared;
+    try {
+      prepared = await attachmentService.prepare(new Blob([bytes]), "application/pdf", {
+        name: "report.pdf",
+      });
+    } finally {
+      delete (window as any).electronAPI;
+    }
+    const { content, attachment } = prepared;
+    expect(content).toBe(`${attachment.id}.enc`);
+    expect(attachment).toMatchObject({ digest, size: bytes.length, chunks: 3 });
+    expect(invoke.mock.calls.map(([channel]) => channel)).toEqual([
+      "file:append-upload",
+      "file:append-upload",
+      "file:append-upload",
+      "file:finish-upload",
+    ]);
+
+    // What main was given decrypts back to the file on the other end
+    const completed: Message[] = [];
+    const off = attachmentService.onComplete((m) => completed.push(m));
+    const message: Message = { ...makeMessage("m9", content), type: MessageType.FILE, attachment };
+    const received = attachmentService.fromWireMessage(attachmentService.toWireMessage(message));
+    store.messages = [received];
+    await attachmentService.track(received);
+    appended.forEach(({ id, index, data }) =>
+      deliver({ attachmentId: id, index, total: attachment.chunks, data }),
+    );
+    await vi.waitFor(() => expect(completed).toHaveLength(1));
+    expect(completed[0].content).toBe(`data:application/pdf;base64,${toBase64(bytes)}`);
+    off();
+  });
+
+  it("should let main drop what it was given of a file that could not be read", async () => {
+    const invoke = vi.fn(async (_channel: string, _data: unknown) => true);
+    const file = new Blob([makeBytes()]);
+    vi.spyOn(file, "slice").mockImplementation(() => {
+      throw new Error("File was removed");
+    });
+    (window as any).electronAPI = { invoke };
+    try {
+      await expect(attachmentService.prepare(file, "application/pdf")).rejects.toThrow("removed");
+    } finally {
+      delete (window as any).electronAPI;
+    }
+    expect(invoke.mock.calls.pop()).toEqual(["file:discard-upload", expect.any(String)]);
+  });
+
+  it("should resume an interrupted upload with the chunks the server has not acked", async () => {
+    const { content, attachment } = await attachmentService.prepare(
+      new Blob([makeBytes()]),
+      "application/pdf",
+      { name: "report.pdf" },
+    );
+    const message: Message = { ...makeMessage("m4", content), type: MessageType.FILE, attachment };
+
+    network.dropped = new Set([1]);
+    await expect(attachmentService.upload(message, "bob")).rejects.toThrow("Network disconnected");
+    expect(store.uploaded[attachment.id].sort()).toEqual([0, 2]);
+
+    network.dropped = new Set();
+    network.sent = [];
+    await attachmentService.upload(message, "bob");
+    expect(network.sent.map((c) => c.index)).toEqual([1]);
+
+    // The receiver sees a file with its name, never the name of our local copy
+    const received = attachmentService.fromWireMessage(attachmentService.toWireMessage(message));
+    expect(received).toMatchObject({
+      content: "",
+      attachment: { name: "report.pdf", mimeType: "application/pdf" },
+    });
+  });
+
+  it("should refuse files above the size limit on both ends", async () => {
+    await expect(
+      attachmentService.prepare(new Blob([makeBytes(1024 * 1024 + 1)]), "application/zip"),
+    ).rejects.toThrow(FILE_TOO_LARGE);
+
+    const { attachment } = await attachmentService.prepare(
+      new Blob([makeBytes(10)]),
+      "application/zip",
+    );
+    const oversized = { ...attachment, size: 2 * 1024 * 1024, chunks: 32 };
+    const message = { ...makeMessage("m5", JSON.stringify(oversized)), type: MessageType.FILE };
+    expect(attachmentService.fromWireMessage(message).attachment).toBeUndefined();
+  });
+
+  it("should not accept a descriptor that doesn't describe its own layout", () => {
+    const message = makeMessage("m3", JSON.stringify({ id: "x", key: "k", chunks: 1 }));
+    expect(attachmentService.fromWireMessage(message)).toMatchObject({ content: "" });
+    expect(attachmentService.fromWireMessage(message).attachment).toBeUndefined();
+  });
+
+  it("should keep voice metadata and only accept audio for voice messages", async () => {
+    const { attachment } = await attachmentService.prepare(new Blob([makeBytes(10)]), "audio/webm", {
+      duration: 1500,
+      waveform: [0.2, 1],
+    });
+    const voice = { ...makeMessage("m6", JSON.stringify(attachment)), type: MessageType.AUDIO };
+    expect(attachmentService.fromWireMessage(voice).attachment).toMatchObject({
+      duration: 1500,
+      waveform: [0.2, 1],
+    });
+
+    const disguised = { ...voice, content: JSON.stringify({ ...attachment, mimeType: "text/html" }) };
+    expect(attachmentService.fromWireMessage(disguised).attachment).toBeUndefined();
+  });
+});
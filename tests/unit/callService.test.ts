@@ -0,0 +1,218 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MessageType } from "../../types";
+import { CALL_RING_TIMEOUT_MS } from "../../constants";
+
+vi.mock("../../services/storageService", () => import("../fakeServices"));
+vi.mock("../../services/socketService", () => import("../fakeServices"));
+
+import { CallService, PeerConnectionLike } from "../../services/callService";
+import { clearSubscribers, emit, resetStore, socketService, store } from "../fakeServices";
+
+// Signals go out through a recording socketService; storage holds one contact and its chat
+const sent: Array<{ to: string; signal: any }> = [];
+socketService.sendCallSignal.mockImplementation(async (to: string, signal: any) => {
+  sent.push({ to, signal });
+});
+
+class FakePeerConnection implements PeerConnectionLike {
+  connectionState = "new";
+  onicecandidate: ((event: RTCPeerConnectionIceEvent) => void) | null = null;
+  ontrack: ((event: RTCTrackEvent) => void) | null = null;
+  onconnectionstatechange: ((event: Event) => void) | null = null;
+  tracks: MediaStreamTrack[] = [];
+  remote: RTCSessionDescriptionInit | null = null;
+  candidates: RTCIceCandidateInit[] = [];
+  closed = false;
+  addTrack(track: MediaStreamTrack) {
+    this.tracks.push(track);
+  }
+  async createOffer() {
+    return { type: "offer", sdp: "offer-sdp" } as RTCSessionDescriptionInit;
+  }
+  async createAnswer() {
+    return { type: "answer", sdp: "answer-sdp" } as RTCSessionDescriptionInit;
+  }
+  async setLocalDescription() {}
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remote = description;
+  }
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    this.candidates.push(candidate);
+  }
+  close() {
+    this.closed = true;
+  }
+  connect() {
+    this.connectionState = "connected";
+    this.onconnectionstatechange?.(new Event("connectionstatechange"));
+  }
+}
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe("CallService", () => {
+  let clock: number;
+  let pc: FakePeerConnection;
+  let audio: { kind: string; enabled: boolean; stop: ReturnType<typeof vi.fn> };
+  let calls: CallService;
+
+  const signal = (s: any) => {
+    emit("onCallSignal", { from: "bob", ...s });
+    return flush();
+  };
+  const sentTypes = () => sent.map((s) => s.signal.type);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clock = 1000;
+    resetStore({
+      contacts: [{ id: "bob", username: "Bob", status: "online" }],
+      conversations: [{ id: "c1", participantId: "bob", unreadCount: 0, updatedAt: 0 }],
+    });
+    sent.length = 0;
+    clearSubscribers();
+    audio = { kind: "audio", enabled: true, stop: vi.fn() };
+    calls = new CallService({
+      getMedia: async () =>
+        ({
+          getTracks: () => [audio],
+          getAudioTracks: () => [audio],
+          getVideoTracks: () => [],
+        }) as unknown as MediaStream,
+      createPeerConnection: () => (pc = new FakePeerConnection()),
+      now: () => clock,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should place a call, connect on answer and log its duration on hang-up", async () => {
+    await calls.start("bob", "audio");
+    expect(sent[0]).toMatchObject({ to: "bob", signal: { type: "CALL_OFFER", media: "audio", sdp: "offer-sdp" } });
+    const callId = sent[0].signal.callId;
+    expect(calls.getState()?.phase).toBe("outgoing");
+
+    // A candidate racing ahead of the answer waits for the remote description
+    await signal({ type: "ICE_CANDIDATE", callId, candidate: { candidate: "c1" } });
+    expect(pc.candidates).toEqual([]);
+    await signal({ type: "CALL_ANSWER", callId, sdp: "answer-sdp" });
+    expect(pc.remote).toEqual({ type: "answer", sdp: "answer-sdp" });
+    expect(pc.candidates).toEqual([{ candidate: "c1" }]);
+    expect(calls.getState()?.phase).toBe("connecting");
+
+    pc.connect();
+    expect(calls.getState()?.phase).toBe("active");
+    clock += 65_000;
+    await calls.hangUp();
+
+    expect(sentTypes()).toEqual(["CALL_OFFER", "CALL_END"]);
+    expect(calls.getState()).toBeNull();
+    expect(pc.closed).toBe(true);
+    expect(audio.stop).toHaveBeenCalled();
+    expect(store.saved).toHaveLength(1);
+    expect(store.saved[0]).toMatchObject({
+      conversationId: "c1",
+      senderId: "me",
+      type: MessageType.CALL,
+      content: "语音通话 1:05",
+      call: { media: "audio", direction: "outgoing", outcome: "completed", duration: 65_000 },
+    });
+
+    // The ring timer is gone with the call
+    vi.advanceTimersByTime(CALL_RING_TIMEOUT_MS);
+    await flush();
+    expect(store.saved).toHaveLength(1);
+  });
+
+  it("should ignore signals for other calls or from other users", async () => {
+    await calls.start("bob", "audio");
+    const callId = sent[0].signal.callId;
+    await signal({ type: "CALL_END", callId: "other", reason: "hangup" });
+    emit("onCallSignal", { type: "CALL_END", callId, from: "mallory", reason: "hangup" });
+    await flush();
+    expect(calls.getState()?.phase).toBe("outgoing");
+  });
+
+  it("should ring on an incoming offer and answer with media", async () => {
+    const states: Array<string | null> = [];
+    calls.onStateChange((s) => states.push(s ? s.phase : null));
+    await signal({ type: "CALL_OFFER", callId: "call_1", media: "video", sdp: "offer-sdp" });
+    expect(calls.getState()).toMatchObject({ id: "call_1", peerId: "bob", media: "video", phase: "incoming" });
+
+    await calls.accept();
+    expect(pc.remote).toEqual({ type: "offer", sdp: "offer-sdp" });
+    expect(sent).toEqual([
+      { to: "bob", signal: { type: "CALL_ANSWER", callId: "call_1", sdp: "answer-sdp" } },
+    ]);
+    pc.connect();
+    expect(states).toEqual(["incoming", "connecting", "connecting", "active"]);
+
+    // Answering stops the ring timer
+    vi.advanceTimersByTime(CALL_RING_TIMEOUT_MS);
+    await flush();
+    expect(calls.getState()?.phase).toBe("active");
+
+    await signal({ type: "CALL_END", callId: "call_1", reason: "hangup" });
+    expect(calls.getState()).toBeNull();
+    expect(sentTypes()).toEqual(["CALL_ANSWER"]);
+    expect(store.saved[0]).toMatchObject({ senderId: "bob", call: { direction: "incoming", outcome: "completed" } });
+  });
+
+  it("should log a missed call when nobody answers", async () => {
+    await signal({ type: "CALL_OFFER", callId: "call_1", media: "audio", sdp: "offer-sdp" });
+    vi.advanceTimersByTime(CALL_RING_TIMEOUT_MS);
+    await flush();
+
+    expect(calls.getState()).toBeNull();
+    expect(sent).toEqual([{ to: "bob", signal: { type: "CALL_END", callId: "call_1", reason: "timeout" } }]);
+    expect(store.saved[0]).toMatchObject({ senderId: "bob", content: "未接语音通话", call: { outcome: "missed" } });
+  });
+
+  it("should tell a second caller we are busy and still log the attempt", async () => {
+    await calls.start("bob", "audio");
+    store.contacts.push({ id: "carol", username: "Carol", status: "online" });
+    store.conversations.push({ id: "c2", participantId: "carol", unreadCount: 0, updatedAt: 0 });
+
+    emit("onCallSignal", { type: "CALL_OFFER", callId: "call_2", from: "carol", media: "audio", sdp: "x" });
+    await flush();
+
+    expect(calls.getState()?.peerId).toBe("bob");
+    expect(sent[1]).toEqual({ to: "carol", signal: { type: "CALL_END", callId: "call_2", reason: "busy" } });
+    expect(store.saved[0]).toMatchObject({ conversationId: "c2", call: { outcome: "missed" } });
+  });
+
+  it("should ignore calls from people who aren't contacts", async () => {
+    emit("onCallSignal", { type: "CALL_OFFER", callId: "call_1", from: "mallory", media: "audio", sdp: "x" });
+    await flush();
+    expect(calls.getState()).toBeNull();
+    expect(sent).toEqual([]);
+  });
+
+  it("should record how an unanswered outgoing call ended", async () => {
+    await calls.start("bob", "video");
+    await signal({ type: "CALL_END", callId: sent[0].signal.callId, reason: "declined" });
+    expect(store.saved[0]).toMatchObject({ content: "对方已拒绝视频通话", call: { outcome: "declined" } });
+
+    await calls.start("bob", "audio");
+    await signal({ type: "CALL_END", callId: sent[1].signal.callId, reason: "unavailable" });
+    expect(store.saved[1]).toMatchObject({ call: { outcome: "unanswered" } });
+
+    await calls.start("bob", "audio");
+    await calls.hangUp();
+    expect(store.saved[2]).toMatchObject({ content: "已取消语音通话", call: { outcome: "cancelled" } });
+  });
+
+  it("should mute by disabling the microphone track", async () => {
+    await calls.start("bob", "audio");
+    calls.toggleMute();
+    expect(audio.enabled).toBe(false);
+    expect(calls.getState()?.muted).toBe(true);
+    calls.toggleMute();
+    expect(audio.enabled).toBe(true);
+  });
+});
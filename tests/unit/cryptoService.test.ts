@@ -70,4 +70,224 @@ describe("CryptoService", () => {
     const decrypted = await serviceB.decrypt(encrypted, "userA");
     expect(decrypted).toBe(msg);
   });
+
+  it("should derive the same safety number on both sides", async () => {
+    const serviceA = new (cryptoService.constructor as any)();
+    const pubA = await serviceA.init("userA");
+    const serviceB = new (cryptoService.constructor as any)();
+    const pubB = await serviceB.init("userB");
+
+    expect(await serviceA.getSafetyNumber("userB")).toBeNull();
+    await serviceA.computeSharedSecret("userB", pubB);
+    await serviceB.computeSharedSecret("userA", pubA);
+    // The signing keys are part of the number too
+    expect(await serviceA.getSafetyNumber("userB")).toBeNull();
+    await serviceA.addPreKeyBundle("userB", serviceB.getPreKeyBundle());
+    await serviceB.addPreKeyBundle("userA", serviceA.getPreKeyBundle());
+
+    const numberA = await serviceA.getSafetyNumber("userB");
+    expect(numberA).toMatch(/^\d{60}$/);
+    expect(await serviceB.getSafetyNumber("userA")).toBe(numberA);
+
+    // A signing key of the server's own next to userB's real identity key changes the number
+    const server = new (cryptoService.constructor as any)();
+    await server.init("server");
+    const bundleB = serviceB.getPreKeyBundle();
+    const { id, key } = bundleB.signedPreKey;
+    const forged = {
+      ...bundleB,
+      signingKey: server.getPreKeyBundle().signingKey,
+      signature: await server.sign(`${bundleB.identityKey}|${id}|${key}`),
+    };
+    const serviceC = new (cryptoService.constructor as any)();
+    const pubC = await serviceC.init("userC");
+    await serviceC.computeSharedSecret("userB", pubB);
+    expect(await serviceC.addPreKeyBundle("userB", forged)).toBe(true);
+    await serviceB.computeSharedSecret("userC", pubC);
+    await serviceB.addPreKeyBundle("userC", serviceC.getPreKeyBundle());
+    expect(await serviceC.getSafetyNumber("userB")).toMatch(/^\d{60}$/);
+    expect(await serviceC.getSafetyNumber("userB")).not.toBe(await serviceB.getSafetyNumber("userC"));
+
+    // A different key for userB (e.g. substituted by the server) changes the number
+    localStorage.removeItem("qchat_keys_userB");
+    const impostor = new (cryptoService.constructor as any)();
+    await serviceA.computeSharedSecret("userB", await impostor.init("userB"));
+    await serviceA.addPreKeyBundle("userB", impostor.getPreKeyBundle());
+    expect(await serviceA.getSafetyNumber("userB")).not.toBe(numberA);
+  });
+
+  it("should report a contact's identity key changing, but not the first key seen", async () => {
+    const serviceA = new (cryptoService.constructor as any)();
+    await serviceA.init("userA");
+    const changes: string[] = [];
+    serviceA.onIdentityKeyChange((userId: string) => changes.push(userId));
+
+    const first = new (cryptoService.constructor as any)();
+    const firstKey = await first.init("userC");
+    await serviceA.computeSharedSecret("userC", firstKey);
+    await serviceA.computeSharedSecret("userC", firstKey);
+    expect(changes).toEqual([]);
+
+    // Known keys are persisted, so a swap is noticed across restarts too
+    const restarted = new (cryptoService.constructor as any)();
+    await restarted.init("userA");
+    restarted.onIdentityKeyChange((userId: string) => changes.push(userId));
+    localStorage.removeItem("qchat_keys_userC");
+    const second = new (cryptoService.constructor as any)();
+    await restarted.computeSharedSecret("userC", await second.init("userC"));
+    expect(changes).toEqual(["userC"]);
+  });
+
+  it("should encrypt group messages under a distributed sender key", async () => {
+    const serviceA = new (cryptoService.constructor as any)();
+    await serviceA.init("userA");
+    const serviceB = new (cryptoService.constructor as any)();
+    await serviceB.init("userB");
+
+    const distribution = await serviceA.createSenderKey("group1");
+    serviceB.importSenderKey("userA", distribution);
+
+    const encrypted = await serviceA.encryptForGroup("Hello group", "group1");
+    expect(serviceA.isGroupCiphertext(encrypted)).toBe(true);
+    expect(await serviceB.decryptFromGroup(encrypted, "group1", "userA")).toBe("Hello group");
+
+    // Received keys survive a restart
+    const restarted = new (cryptoService.constructor as any)();
+    await restarted.init("userB");
+    expect(await restarted.decryptFromGroup(encrypted, "group1", "userA")).toBe("Hello group");
+
+    // After a rotation the old key no longer encrypts, and forgotten keys no longer decrypt
+    serviceA.discardSenderKey("group1");
+    await expect(serviceA.encryptForGroup("x", "group1")).rejects.toThrow();
+    serviceB.forgetSenderKeys("group1", ["userA"]);
+    expect(await serviceB.decryptFromGroup(encrypted, "group1", "userA")).toBe("[Decryption Failed]");
+  });
+
+  it("should open a ratchet session from a prekey bundle and keep ratcheting", async () => {
+    const serviceA = new (cryptoService.constructor as any)();
+    const pubA = await serviceA.init("userD");
+    const serviceB = new (cryptoService.constructor as any)();
+    const pubB = await serviceB.init("userE");
+    await serviceA.computeSharedSecret("userE", pubB);
+    await serviceB.computeSharedSecret("userD", pubA);
+
+    expect(await serviceA.addPreKeyBundle("userE", serviceB.getPreKeyBundle())).toBe(true);
+    const first = await serviceA.encrypt("first", "userE");
+    const second = await serviceA.encrypt("second", "userE");
+    expect(first.startsWith("R:")).toBe(true);
+    expect(serviceA.hasSession("userE")).toBe(true);
+
+    // Out of order delivery still decrypts, and B can answer on the session it accepted
+    expect(await serviceB.decrypt(second, "userD")).toBe("second");
+    expect(await serviceB.decrypt(first, "userD")).toBe("first");
+    const reply = await serviceB.encrypt("reply", "userD");
+    expect(reply.startsWith("R:")).toBe(true);
+    expect(await serviceA.decrypt(reply, "userE")).toBe("reply");
+
+    // Message keys are used once
+    expect(await serviceB.decrypt(first, "userD")).toBe("[Decryption Failed]");
+
+    // Sessions survive a restart
+    const restarted = new (cryptoService.constructor as any)();
+    await restarted.init("userD");
+    expect(await serviceB.decrypt(await restarted.encrypt("again", "userE"), "userD")).toBe("again");
+  });
+
+  it("should reject a prekey bundle with a bad signature", async () => {
+    const serviceA = new (cryptoService.constructor as any)();
+    const pubA = await serviceA.init("userF");
+    const serviceB = new (cryptoService.constructor as any)();
+    const pubB = await serviceB.init("userG");
+    await serviceA.computeSharedSecret("userG", pubB);
+    await serviceB.computeSharedSecret("userF", pubA);
+
+    const bundle = serviceB.getPreKeyBundle();
+    const otherKey = serviceA.getPreKeyBundle().signedPreKey.key;
+    const forged = { ...bundle, signedPreKey: { ...bundle.signedPreKey, key: otherKey } };
+    expect(await serviceA.addPreKeyBundle("userG", forged)).toBe(false);
+    expect(serviceA.hasSession("userG")).toBe(false);
+    // Without a session we keep using the static key agreement
+    expect((await serviceA.encrypt("hi", "userG")).startsWith("R:")).toBe(false);
+  });
+
+  it("should keep private keys wrapped with the password at rest", async () => {
+    // Keys from before the vault are stored in plain text and get wrapped on the next login
+    const legacy = new (cryptoService.constructor as any)();
+    const pub = await legacy.init("userH");
+    expect(JSON.parse(localStorage.getItem("qchat_keys_userH")!).privateKeyJwk).toBeDefined();
+
+    const service = new (cryptoService.constructor as any)();
+    expect(await service.init("userH", "pw1")).toBe(pub);
+    const stored = localStorage.getItem("qchat_keys_userH")!;
+    expect(JSON.parse(stored).vault).toBeDefined();
+    expect(stored).not.toContain('"d"');
+    expect(localStorage.getItem("qchat_prekeys_userH")).not.toContain("priv");
+
+    // The data key isn't kept anywhere a reload could pick it up
+    expect(sessionStorage.length).toBe(0);
+    await expect(new (cryptoService.constructor as any)().init("userH")).rejects.toThrow(
+      "KEYS_LOCKED",
+    );
+
+    const peer = new (cryptoService.constructor as any)();
+    await service.computeSharedSecret("peerH", await peer.init("peerH"));
+    service.lock();
+    // Nothing unwrapped with the data key outlives the logout
+    expect(service.getPublicKey()).toBeNull();
+    expect(service.getPreKeyBundle()).toBeNull();
+    expect(service.hasSharedKey("peerH")).toBe(false);
+    await expect(service.sign("hello")).rejects.toThrow("not initialized");
+    await expect(new (cryptoService.constructor as any)().init("userH")).rejects.toThrow(
+      "KEYS_LOCKED",
+    );
+    await expect(service.init("userH", "wrong")).rejects.toThrow("KEYS_LOCKED");
+    expect(service.getPublicKey()).toBeNull();
+
+    expect(await service.init("userH", "pw1")).toBe(pub);
+    await service.changePassword("pw2");
+    service.lock();
+    await expect(new (cryptoService.constructor as any)().init("userH", "pw1")).rejects.toThrow(
+      "KEYS_LOCKED",
+    );
+    expect(await new (cryptoService.constructor as any)().init("userH", "pw2")).toBe(pub);
+  });
+
+  it("should undo a password change the server turned down", async () => {
+    const service = new (cryptoService.constructor as any)();
+    const pub = await service.init("userI", "pw1");
+    const undo = await service.changePassword("pw2");
+    expect(await new (cryptoService.constructor as any)().init("userI", "pw2")).toBe(pub);
+
+    await undo();
+    await expect(new (cryptoService.constructor as any)().init("userI", "pw2")).rejects.toThrow(
+      "KEYS_LOCKED",
+    );
+    expect(await new (cryptoService.constructor as any)().init("userI", "pw1")).toBe(pub);
+  });
+
+  it("should recover keys wrapped with a password changed on another device", async () => {
+    const pub = await new (cryptoService.constructor as any)().init("userJ", "old");
+    await expect(new (cryptoService.constructor as any)().init("userJ", "new")).rejects.toThrow(
+      "KEYS_LOCKED",
+    );
+    await expect(
+      new (cryptoService.constructor as any)().init("userJ", "new", { previousPassword: "wrong" }),
+    ).rejects.toThrow("KEYS_LOCKED");
+
+    // Unlocked with the old password once, the keys are wrapped with the new one from then on
+    expect(
+      await new (cryptoService.constructor as any)().init("userJ", "new", { previousPassword: "old" }),
+    ).toBe(pub);
+    expect(await new (cryptoService.constructor as any)().init("userJ", "new")).toBe(pub);
+    await expect(new (cryptoService.constructor as any)().init("userJ", "old")).rejects.toThrow(
+      "KEYS_LOCKED",
+    );
+
+    // Starting over replaces the identity key
+    const fresh = await new (cryptoService.constructor as any)().init("userJ", "new", {
+      reset: true,
+    });
+    expect(fresh).not.toBe(pub);
+    expect(await new (cryptoService.constructor as any)().init("userJ", "new")).toBe(fresh);
+  });
 });
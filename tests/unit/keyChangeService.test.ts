@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MessageType } from "../../types";
+
+// The crypto change feed is ours to drive
+const feed = vi.hoisted(() => ({ onKeyChange: (_userId: string) => {} }));
+
+vi.mock("../../services/storageService", () => import("../fakeServices"));
+vi.mock("../../services/cryptoService", () => ({
+  cryptoService: {
+    onIdentityKeyChange: vi.fn((h) => {
+      feed.onKeyChange = h;
+      return () => {};
+    }),
+  },
+}));
+
+import { resetStore, store } from "../fakeServices";
+import { keyChangeService, KEY_CHANGED_NOTICE } from "../../services/keyChangeService";
+
+describe("KeyChangeService", () => {
+  beforeEach(() => {
+    resetStore({
+      conversations: [
+        { id: "c1", participantId: "bob", unreadCount: 0, updatedAt: 0 },
+        { id: "g1", participantId: "g1", unreadCount: 0, updatedAt: 0, kind: "group", participantIds: ["me", "bob"] },
+      ],
+      verified: { bob: "old-key" },
+      settings: { blockOnKeyChange: false },
+    });
+  });
+
+  it("should un-verify the contact and add a notice to the direct conversation", async () => {
+    const changes: string[] = [];
+    const off = keyChangeService.onChange((id) => changes.push(id));
+
+    await keyChangeService.handleKeyChange("bob", 42);
+
+    expect(store.verified).toEqual({});
+    expect(store.saved).toHaveLength(1);
+    expect(store.saved[0]).toMatchObject({
+      conversationId: "c1",
+      type: MessageType.SYSTEM,
+      content: KEY_CHANGED_NOTICE,
+      timestamp: 42,
+    });
+    expect(await keyChangeService.hasPendingChange("bob")).toBe(true);
+    expect(changes).toEqual(["bob"]);
+    off();
+  });
+
+  it("should only block sending when enabled, until acknowledged", async () => {
+    feed.onKeyChange("bob");
+    await vi.waitFor(() => expect(store.keyChanges.bob).toBeDefined());
+
+    expect(await keyChangeService.isSendingBlocked("bob")).toBe(false);
+    store.settings.blockOnKeyChange = true;
+    expect(await keyChangeService.isSendingBlocked("bob")).toBe(true);
+
+    await keyChangeService.acknowledge("bob");
+    expect(await keyChangeService.isSendingBlocked("bob")).toBe(false);
+  });
+});
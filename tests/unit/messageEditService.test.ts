@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Message, MessageStatus, MessageType, MessageUpdate } from "../../types";
+import { MESSAGE_EDIT_WINDOW_MS } from "../../constants";
+
+vi.mock("../../services/storageService", () => import("../fakeServices"));
+vi.mock("../../services/socketService", () => import("../fakeServices"));
+
+import { messageEditService } from "../../services/messageEditService";
+import { resetStore, socketService, store } from "../fakeServices";
+
+const SENT_AT = 1_000_000;
+
+const makeMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: "m1",
+  conversationId: "c1",
+  senderId: "alice",
+  content: "helo",
+  type: MessageType.TEXT,
+  status: MessageStatus.SENT,
+  timestamp: SENT_AT,
+  ...overrides,
+});
+
+const update = (overrides: Partial<MessageUpdate>): MessageUpdate => ({
+  kind: "edit",
+  messageId: "m1",
+  conversationId: "c1",
+  senderId: "alice",
+  content: "hello",
+  at: SENT_AT + 1000,
+  ...overrides,
+});
+
+describe("MessageEditService", () => {
+  beforeEach(() => {
+    resetStore({ messages: [makeMessage()] });
+    vi.clearAllMocks();
+  });
+
+  it("should apply edits and keep the previous version in the history", async () => {
+    const edited = await messageEditService.apply(update({}));
+
+    expect(edited).toMatchObject({ content: "hello", editedAt: SENT_AT + 1000 });
+    expect(edited?.editHistory).toEqual([{ content: "helo", editedAt: SENT_AT + 1000 }]);
+    expect(store.messages[0].content).toBe("hello");
+  });
+
+  it("should turn recalled messages into tombstones", async () => {
+    await messageEditService.apply(update({}));
+    const recalled = await messageEditService.apply(update({ kind: "recall", content: undefined }));
+
+    expect(recalled).toMatchObject({ content: "", recalledAt: SENT_AT + 1000 });
+    expect(recalled?.editHistory).toBeUndefined();
+    // Nothing can change a recalled message afterwards
+    expect(await messageEditService.apply(update({ content: "again" }))).toBeNull();
+  });
+
+  it("should reject updates from someone other than the original sender", async () => {
+    expect(await messageEditService.apply(update({ senderId: "mallory" }))).toBeNull();
+    expect(store.messages[0].content).toBe("helo");
+  });
+
+  it("should reject updates outside the edit window, even when delivered late", async () => {
+    expect(
+      await messageEditService.apply(update({ at: SENT_AT + MESSAGE_EDIT_WINDOW_MS + 1 })),
+    ).toBeNull();
+    expect(store.messages[0].editedAt).toBeUndefined();
+  });
+
+  it("should only send edits for accepted messages inside the window", async () => {
+    const now = Date.now();
+    await expect(
+      messageEditService.edit(makeMessage({ status: MessageStatus.FAILED, timestamp: now }), "x", "bob"),
+    ).rejects.toThrow();
+    await expect(
+      messageEditService.recall(makeMessage({ timestamp: now - MESSAGE_EDIT_WINDOW_MS - 1 }), "bob"),
+    ).rejects.toThrow();
+    expect(socketService.sendMessageUpdate).not.toHaveBeenCalled();
+
+    store.messages = [makeMessage({ timestamp: now })];
+    const edited = await messageEditService.edit(store.messages[0], "hello", "bob");
+    expect(socketService.sendMessageUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "edit", messageId: "m1", content: "hello" }),
+      "bob",
+    );
+    expect(edited?.content).toBe("hello");
+  });
+});
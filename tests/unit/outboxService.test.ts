@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Message, MessageStatus, MessageType } from "../../types";
+
+vi.mock("../../services/storageService", () => import("../fakeServices"));
+vi.mock("../../services/socketService", () => import("../fakeServices"));
+
+import { outboxService } from "../../services/outboxService";
+import { emit, resetStore, socketService, storageService, store } from "../fakeServices";
+
+// Connected or not, and the peers whose keys we hold
+const peers = { authenticated: false, keys: new Set<string>() };
+socketService.isAuthenticated.mockImplementation(() => peers.authenticated);
+socketService.ensureKeyFor.mockImplementation(async (id: string) => peers.keys.has(id));
+
+const makeMessage = (id: string, timestamp: number): Message => ({
+  id,
+  conversationId: "c1",
+  senderId: "me",
+  content: `hello ${id}`,
+  type: MessageType.TEXT,
+  status: MessageStatus.PENDING,
+  timestamp,
+});
+
+describe("OutboxService", () => {
+  beforeEach(() => {
+    resetStore();
+    peers.authenticated = false;
+    peers.keys = new Set(["bob"]);
+    vi.clearAllMocks();
+  });
+
+  it("should keep messages queued and mark them FAILED while disconnected", async () => {
+    await outboxService.send(makeMessage("m1", 1), "bob");
+
+    expect(socketService.sendMessage).not.toHaveBeenCalled();
+    expect(store.outbox.map((e) => e.message.id)).toEqual(["m1"]);
+    expect(store.saved[store.saved.length - 1].status).toBe(MessageStatus.FAILED);
+  });
+
+  it("should flush queued messages in order after AUTH succeeds", async () => {
+    await outboxService.send(makeMessage("m2", 2), "bob");
+    await outboxService.send(makeMessage("m1", 1), "bob");
+
+    peers.authenticated = true;
+    emit("onAuthResult", { success: true });
+    await outboxService.flush();
+
+    const sentIds = socketService.sendMessage.mock.calls.map((c) => c[0].id);
+    expect(sentIds).toEqual(["m1", "m2"]);
+    expect(store.outbox).toHaveLength(0);
+    expect(store.saved.filter((m) => m.status === MessageStatus.SENT).map((m) => m.id)).toEqual([
+      "m1",
+      "m2",
+    ]);
+  });
+
+  it("should hold messages without the recipient's key and send them once it arrives", async () => {
+    peers.authenticated = true;
+    await outboxService.send(makeMessage("m4", 4), "carol");
+    await outboxService.send(makeMessage("m5", 5), "bob");
+
+    // carol's message waits without blocking bob's
+    const sentIds = () => socketService.sendMessage.mock.calls.map((c) => c[0].id);
+    expect(sentIds()).toEqual(["m5"]);
+    expect(store.outbox.map((e) => e.message.id)).toEqual(["m4"]);
+    expect(store.saved.filter((m) => m.id === "m4").pop()?.status).toBe(MessageStatus.PENDING_KEY);
+
+    peers.keys.add("carol");
+    await emit("onKeyAvailable", "carol");
+    await outboxService.flush();
+    expect(sentIds()).toEqual(["m5", "m4"]);
+    expect(store.outbox).toHaveLength(0);
+    expect(store.saved.filter((m) => m.id === "m4").pop()).toMatchObject({
+      status: MessageStatus.SENT,
+      encrypted: true,
+    });
+  });
+
+  it("should remove discarded messages from outbox and history", async () => {
+    await outboxService.send(makeMessage("m3", 3), "bob");
+    await outboxService.discard("m3");
+
+    expect(store.outbox).toHaveLength(0);
+    expect(storageService.deleteMessage).toHaveBeenCalledWith("m3");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import jsQR from "jsqr";
+import { createQrMatrix } from "../../services/qrCode";
+
+// Renders the matrix as RGBA pixels, 4 per module with a 4-module quiet zone, and scans it
+const decode = (m: boolean[][]) => {
+  const scale = 4;
+  const size = (m.length + 8) * scale;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const row = m[Math.floor(y / scale) - 4];
+      if (!row?.[Math.floor(x / scale) - 4]) continue;
+      pixels.fill(0, (y * size + x) * 4, (y * size + x) * 4 + 3);
+    }
+  }
+  return jsQR(pixels, size, size)?.data;
+};
+
+// Reads the 15 format bits from the copy around the top-left finder pattern
+const readFormatBits = (m: boolean[][]) => {
+  const bits: boolean[] = [];
+  for (let i = 0; i <= 5; i++) bits.push(m[i][8]);
+  bits.push(m[7][8], m[8][8], m[8][7]);
+  for (let i = 9; i < 15; i++) bits.push(m[8][14 - i]);
+  return bits.reduce((acc, bit, i) => acc | (Number(bit) << i), 0);
+};
+
+describe("createQrMatrix", () => {
+  it("should pick the smallest version that fits", () => {
+    expect(createQrMatrix("hi")).toHaveLength(21); // version 1
+    expect(createQrMatrix("1".repeat(60))).toHaveLength(33); // version 4
+    expect(() => createQrMatrix("x".repeat(300))).toThrow();
+  });
+
+  it("should draw finder patterns in three corners", () => {
+    const m = createQrMatrix("123456789012345678901234567890");
+    const size = m.length;
+    for (const [x0, y0] of [
+      [0, 0],
+      [size - 7, 0],
+      [0, size - 7],
+    ]) {
+      // Dark ring, light ring, dark 3x3 center
+      expect(m[y0][x0]).toBe(true);
+      expect(m[y0 + 1][x0 + 1]).toBe(false);
+      expect(m[y0 + 3][x0 + 3]).toBe(true);
+    }
+  });
+
+  it("should scan back to the text it encodes", () => {
+    const safetyNumber = "12345 67890 ".repeat(5).trim();
+    for (const text of ["hi", safetyNumber, "安全码 ✓", "x".repeat(200)]) {
+      expect(decode(createQrMatrix(text))).toBe(text);
+    }
+    for (let mask = 0; mask < 8; mask++) {
+      expect(decode(createQrMatrix(safetyNumber, mask))).toBe(safetyNumber);
+    }
+  });
+
+  it("should encode level M and the requested mask in the format bits", () => {
+    for (let mask = 0; mask < 8; mask++) {
+      const format = readFormatBits(createQrMatrix("safety", mask)) ^ 0x5412;
+      expect(format >>> 10).toBe(mask); // level M is 00
+    }
+  });
+});
@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Message, MessageStatus, MessageType, ReactionUpdate } from "../../types";
+
+vi.mock("../../services/storageService", () => import("../fakeServices"));
+vi.mock("../../services/socketService", () => import("../fakeServices"));
+
+import { reactionService } from "../../services/reactionService";
+import { resetStore, socketService, store } from "../fakeServices";
+
+const message: Message = {
+  id: "m1",
+  conversationId: "c1",
+  senderId: "bob",
+  content: "lunch?",
+  type: MessageType.TEXT,
+  status: MessageStatus.SENT,
+  timestamp: 1,
+};
+
+const update = (overrides: Partial<ReactionUpdate>): ReactionUpdate => ({
+  action: "add",
+  messageId: "m1",
+  conversationId: "c1",
+  userId: "bob",
+  emoji: "👍",
+  at: 2,
+  ...overrides,
+});
+
+describe("ReactionService", () => {
+  beforeEach(() => {
+    // We are alice, chatting with bob in c1 and with bob and carol in g1
+    resetStore({
+      currentUser: { id: "alice", username: "alice", status: "online" },
+      messages: [message],
+      conversations: [
+        { id: "c1", participantId: "bob", unreadCount: 0, updatedAt: 0 },
+        { id: "g1", participantId: "g1", kind: "group", participantIds: ["alice", "bob", "carol"], unreadCount: 0, updatedAt: 0 },
+      ],
+    });
+    vi.clearAllMocks();
+  });
+
+  it("should toggle our own reaction and signal each change", async () => {
+    await reactionService.toggle(message, "🎉", "alice", "bob");
+    expect(store.reactions.map((r) => [r.userId, r.emoji])).toEqual([["alice", "🎉"]]);
+
+    await reactionService.toggle(message, "🎉", "alice", "bob");
+    expect(store.reactions).toHaveLength(0);
+
+    const actions = socketService.sendReaction.mock.calls.map((c: any[]) => c[0].action);
+    expect(actions).toEqual(["add", "remove"]);
+  });
+
+  it("should apply incoming reactions and notify listeners", async () => {
+    const changed: string[] = [];
+    const off = reactionService.onChange((id) => changed.push(id));
+
+    expect(await reactionService.apply(update({}))).toBe(true);
+    expect(store.reactions[0]).toMatchObject({ messageId: "m1", userId: "bob", emoji: "👍" });
+    expect(changed).toEqual(["c1"]);
+    off();
+  });
+
+  it("should ignore unknown messages and unsupported emoji", async () => {
+    expect(await reactionService.apply(update({ messageId: "missing" }))).toBe(false);
+    expect(await reactionService.apply(update({ emoji: "<img>" }))).toBe(false);
+    expect(store.reactions).toHaveLength(0);
+  });
+
+  it("should only take reactions from people in the conversation", async () => {
+    expect(await reactionService.apply(update({ userId: "mallory" }))).toBe(false);
+    expect(await reactionService.apply(update({ userId: "carol" }))).toBe(false);
+
+    store.messages.push({ ...message, id: "m2", conversationId: "g1" });
+    expect(await reactionService.apply(update({ messageId: "m2", conversationId: "g1", userId: "carol" }))).toBe(true);
+    expect(await reactionService.apply(update({ messageId: "m2", conversationId: "g1", userId: "mallory" }))).toBe(false);
+    expect(store.reactions.map((r) => r.userId)).toEqual(["carol"]);
+  });
+});
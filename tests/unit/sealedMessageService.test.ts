@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Message, MessageStatus, MessageType } from "../../types";
+
+vi.mock("../../services/storageService", () => import("../fakeServices"));
+vi.mock("../../services/socketService", () => import("../fakeServices"));
+
+import { sealedMessageService } from "../../services/sealedMessageService";
+import { emit, resetStore, socketService, store } from "../fakeServices";
+
+// "Decrypts" by dropping the sealed: prefix once we hold the sender's key
+const keys = new Set<string>();
+socketService.openSealed.mockImplementation(async (m: Message) =>
+  keys.has(m.senderId)
+    ? { ...m, content: m.content.replace("sealed:", ""), sealed: undefined, encrypted: true }
+    : m,
+);
+
+const makeSealed = (id: string, senderId: string): Message => ({
+  id,
+  conversationId: `c_${senderId}`,
+  senderId,
+  content: `sealed:hello from ${senderId}`,
+  type: MessageType.TEXT,
+  status: MessageStatus.SENT,
+  timestamp: 1,
+  sealed: true,
+});
+
+describe("SealedMessageService", () => {
+  beforeEach(() => {
+    resetStore({ messages: [makeSealed("m1", "alice"), makeSealed("m2", "bob")] });
+    keys.clear();
+    vi.clearAllMocks();
+  });
+
+  it("should open tracked messages once their key arrives and keep the rest sealed", async () => {
+    await sealedMessageService.track(store.messages[0]);
+    await sealedMessageService.track(store.messages[1]);
+    const opened: Message[] = [];
+    const off = sealedMessageService.onOpened((m) => opened.push(m));
+
+    keys.add("alice");
+    emit("onKeyAvailable", "alice");
+    await sealedMessageService.openAll();
+
+    expect(opened.map((m) => m.id)).toEqual(["m1"]);
+    expect(store.messages[0]).toMatchObject({ content: "hello from alice", encrypted: true });
+    expect(store.messages[0].sealed).toBeUndefined();
+    expect(store.messages[1].sealed).toBe(true);
+    expect(store.sealed).toEqual({ m2: "c_bob" });
+    off();
+  });
+
+  it("should forget entries whose message is gone", async () => {
+    await sealedMessageService.track(makeSealed("m9", "carol"));
+    await sealedMessageService.openAll();
+    expect(store.sealed).toEqual({});
+  });
+});
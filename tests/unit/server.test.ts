@@ -1,6 +1,7 @@
 /// <reference path="./test-types.d.ts" />
 import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
 import { WebSocket, WebSocketServer } from "ws";
+import { createHash } from "crypto";
 
 // Mock fs
 vi.mock("fs", () => {
@@ -28,9 +29,12 @@ describe("WebSocket Server", () => {
   const WS_URL = `ws://${HOST}:${PORT}`;
   const TEST_USER_1 = `test_user_${Date.now()}_1`;
   const TEST_USER_2 = `test_user_${Date.now()}_2`;
+  let sessionToken = "";
 
   beforeAll(async () => {
     vi.resetModules(); // Ensure we get a fresh module
+    // Small enough for one oversized chunk to overflow a recipient's spool
+    process.env.MAX_SPOOL_SIZE = "65536";
     const module = await import("../../server/index.js");
     startServer = module.startServer;
     wss = startServer(PORT, HOST);
@@ -99,6 +103,49 @@ describe("WebSocket Server", () => {
     );
     const result: any = await promise;
     expect(result.success).toBe(true);
+    expect(typeof result.token).toBe("string");
+    expect(result.expiresAt).toBeGreaterThan(Date.now());
+    expect(result.maxFileSize).toBeGreaterThan(0);
+    sessionToken = result.token;
+  });
+
+  it("should authenticate with a session token instead of a password", async () => {
+    const client = new WebSocket(WS_URL);
+    await new Promise((resolve) => client.on("open", resolve));
+    const authAs = (token: string) =>
+      new Promise<any>((resolve) => {
+        const handler = (data) => {
+          const msg = JSON.parse(data.toString());
+          if (msg.type === "AUTH_RESULT") {
+            client.off("message", handler);
+            resolve(msg);
+          }
+        };
+        client.on("message", handler);
+        client.send(JSON.stringify({ type: "AUTH", userId: TEST_USER_1, token }));
+      });
+
+    const tampered = await authAs(`${sessionToken.split(".")[0]}.invalidsignature`);
+    expect(tampered).toMatchObject({ success: false, reason: "INVALID_TOKEN" });
+
+    const result = await authAs(sessionToken);
+    expect(result.success).toBe(true);
+    client.close();
+
+    // Re-login the original client so the relay test below has TEST_USER_1 online
+    client1 = new WebSocket(WS_URL);
+    await new Promise((resolve) => client1.on("open", resolve));
+    await new Promise((resolve) => {
+      const handler = (data) => {
+        const msg = JSON.parse(data.toString());
+        if (msg.type === "AUTH_RESULT") {
+          client1.off("message", handler);
+          resolve(msg);
+        }
+      };
+      client1.on("message", handler);
+      client1.send(JSON.stringify({ type: "AUTH", userId: TEST_USER_1, token: sessionToken }));
+    });
   });
 
   it("should relay messages between users", async () => {
@@ -136,6 +183,7 @@ describe("WebSocket Server", () => {
           userId: TEST_USER_2,
           password: "password123",
           publicKey: "key2",
+          preKeyBundle: { identityKey: "key2", signature: "sig2" },
         }),
       );
     });
@@ -152,19 +200,335 @@ describe("WebSocket Server", () => {
       client2.on("message", handler);
     });
 
+    const waitForAck = () =>
+      new Promise((resolve) => {
+        const handler = (data) => {
+          const msg = JSON.parse(data.toString());
+          if (msg.type === "CHAT_ACK") {
+            client1.off("message", handler);
+            resolve(msg);
+          }
+        };
+        client1.on("message", handler);
+      });
+
     // Client 1 sends message to Client 2
+    const ackPromise = waitForAck();
     client1.send(
       JSON.stringify({
         type: "CHAT",
         targetUserId: TEST_USER_2,
-        payload: { content: "Hello User 2" },
+        payload: { id: "msg-1", content: "Hello User 2" },
       }),
     );
 
     const receivedMsg: any = await chatPromise;
     expect(receivedMsg.payload.content).toBe("Hello User 2");
+    // Stamped with the authenticated sender, whatever the payload claims
+    expect(receivedMsg.from).toBe(TEST_USER_1);
+    expect(await ackPromise).toMatchObject({
+      messageId: "msg-1",
+      success: true,
+      delivery: "relayed",
+    });
+
+    // Once client 2 is gone the message is queued, and the ack says so
+    await new Promise((resolve) => {
+      client2.on("close", resolve);
+      client2.close();
+    });
+    const queuedAck = waitForAck();
+    client1.send(
+      JSON.stringify({
+        type: "CHAT",
+        targetUserId: TEST_USER_2,
+        payload: { id: "msg-2", content: "Are you there?" },
+      }),
+    );
+    expect(await queuedAck).toMatchObject({
+      messageId: "msg-2",
+      success: true,
+      delivery: "queued",
+    });
+
+    // The key directory still knows client 2's key while it is offline
+    const keyResult = new Promise<any>((resolve) => {
+      const handler = (data) => {
+        const msg = JSON.parse(data.toString());
+        if (msg.type === "GET_PUBLIC_KEY_RESULT") {
+          client1.off("message", handler);
+          resolve(msg);
+        }
+      };
+      client1.on("message", handler);
+    });
+    client1.send(JSON.stringify({ type: "GET_PUBLIC_KEY", userId: TEST_USER_2 }));
+    expect(await keyResult).toMatchObject({
+      userId: TEST_USER_2,
+      publicKey: "key2",
+      preKeyBundle: { identityKey: "key2", signature: "sig2" },
+    });
+  });
+
+  it("should fan out group messages to members only", async () => {
+    const waitFor = (client: WebSocket, type: string) =>
+      new Promise<any>((resolve) => {
+        const handler = (data) => {
+          const msg = JSON.parse(data.toString());
+          if (msg.type === type) {
+            client.off("message", handler);
+            resolve(msg);
+          }
+        };
+        client.on("message", handler);
+      });
 
-    client2.close();
+    // Bring client 2 back online (its queued CHAT arrives before AUTH_RESULT)
+    client2 = new WebSocket(WS_URL);
+    await new Promise((resolve) => client2.on("open", resolve));
+    const authed = waitFor(client2, "AUTH_RESULT");
+    client2.send(JSON.stringify({ type: "AUTH", userId: TEST_USER_2, password: "password123" }));
+    await authed;
+
+    const created = waitFor(client1, "GROUP_CREATE_RESULT");
+    const memberUpdate = waitFor(client2, "GROUP_UPDATE");
+    client1.send(
+      JSON.stringify({ type: "GROUP_CREATE", requestId: "r1", name: "Team", memberIds: [TEST_USER_2, "nobody"] }),
+    );
+    const { group, success } = await created;
+    expect(success).toBe(true);
+    expect(group.members).toEqual([TEST_USER_1, TEST_USER_2]);
+    expect((await memberUpdate).payload.group.id).toBe(group.id);
+
+    // Per-member fields are merged into that member's copy
+    const chat = waitFor(client2, "CHAT");
+    const ack = waitFor(client1, "CHAT_ACK");
+    client1.send(
+      JSON.stringify({
+        type: "CHAT",
+        groupId: group.id,
+        payload: { id: "msg-g1", conversationId: group.id, content: "" },
+        perMember: { [TEST_USER_2]: { content: "for user 2" } },
+      }),
+    );
+    expect((await chat).payload).toMatchObject({ id: "msg-g1", content: "for user 2" });
+    expect(await ack).toMatchObject({ messageId: "msg-g1", success: true, delivery: "relayed" });
+
+    // After leaving, client 2 can no longer post to the group
+    const left = waitFor(client1, "GROUP_UPDATE");
+    client2.send(JSON.stringify({ type: "GROUP_LEAVE", groupId: group.id }));
+    expect((await left).payload.group.members).toEqual([TEST_USER_1]);
+
+    const rejected = waitFor(client2, "CHAT_ACK");
+    client2.send(
+      JSON.stringify({ type: "CHAT", groupId: group.id, payload: { id: "msg-g2", content: "hi" } }),
+    );
+    expect(await rejected).toMatchObject({ success: false, reason: "NOT_GROUP_MEMBER" });
+  });
+
+  it("should ack attachment chunks and reject files over the size limit", async () => {
+    const waitFor = (client: WebSocket, type: string) =>
+      new Promise<any>((resolve) => {
+        const handler = (data) => {
+          const msg = JSON.parse(data.toString());
+          if (msg.type === type) {
+            client.off("message", handler);
+            resolve(msg);
+          }
+        };
+        client.on("message", handler);
+      });
+    const sendChunk = (index: number, total: number) =>
+      client1.send(
+        JSON.stringify({
+          type: "ATTACHMENT_CHUNK",
+          targetUserId: TEST_USER_2,
+          payload: { senderId: TEST_USER_1, attachmentId: "a1", index, total, data: "AAAA" },
+        }),
+      );
+
+    const chunk = waitFor(client2, "ATTACHMENT_CHUNK");
+    const ack = waitFor(client1, "ATTACHMENT_CHUNK_ACK");
+    sendChunk(0, 2);
+    expect((await chunk).payload).toMatchObject({ attachmentId: "a1", index: 0, data: "AAAA" });
+    expect(await ack).toMatchObject({
+      attachmentId: "a1",
+      index: 0,
+      success: true,
+      delivery: "relayed",
+    });
+
+    const rejected = waitFor(client1, "ATTACHMENT_CHUNK_ACK");
+    sendChunk(1, 1000000);
+    expect(await rejected).toMatchObject({ index: 1, success: false, reason: "FILE_TOO_LARGE" });
+
+    // Chunks for an offline recipient are spooled to disk, not the offline queue
+    await new Promise((resolve) => {
+      client2.on("close", resolve);
+      client2.close();
+    });
+    const spooled = waitFor(client1, "ATTACHMENT_CHUNK_ACK");
+    sendChunk(1, 2);
+    expect(await spooled).toMatchObject({ index: 1, success: true, delivery: "queued" });
+    const realFs = await vi.importActual<typeof import("fs")>("fs");
+    const offlineFile = new URL("../../server/data/offlineMessages.json", import.meta.url);
+    const queued = realFs.existsSync(offlineFile)
+      ? JSON.parse(realFs.readFileSync(offlineFile, "utf8"))[TEST_USER_2] || []
+      : [];
+    expect(queued.some((m) => m.type === "ATTACHMENT_CHUNK")).toBe(false);
+
+    // Each recipient's spool is capped
+    const full = waitFor(client1, "ATTACHMENT_CHUNK_ACK");
+    client1.send(
+      JSON.stringify({
+        type: "ATTACHMENT_CHUNK",
+        targetUserId: TEST_USER_2,
+        payload: { senderId: TEST_USER_1, attachmentId: "a2", index: 0, total: 1, data: "A".repeat(80000) },
+      }),
+    );
+    expect(await full).toMatchObject({ attachmentId: "a2", success: false, reason: "SPOOL_FULL" });
+
+    // A delivery cut short earlier left a file behind, with a line that no longer parses
+    const hash = (id: string) => createHash("sha256").update(id).digest("hex");
+    const userDir = new URL(`../../server/data/attachments/${hash(TEST_USER_2)}/`, import.meta.url);
+    const leftover = { from: TEST_USER_1, payload: { attachmentId: "a1", index: 0, total: 2, data: "AAAA" } };
+    realFs.writeFileSync(
+      new URL(`${hash("a1")}.jsonl.sending`, userDir),
+      `{"payload":\n${JSON.stringify(leftover)}\n`,
+    );
+
+    // ...and streamed out, then deleted, when the recipient logs back in
+    client2 = new WebSocket(WS_URL);
+    await new Promise((resolve) => client2.on("open", resolve));
+    const flushed: any[] = [];
+    client2.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "ATTACHMENT_CHUNK") flushed.push(msg);
+    });
+    client2.send(JSON.stringify({ type: "AUTH", userId: TEST_USER_2, password: "password123" }));
+    await vi.waitFor(() => expect(flushed).toHaveLength(2));
+    expect(flushed.map((m) => m.payload.index).sort()).toEqual([0, 1]);
+    expect(flushed[0]).toMatchObject({ from: TEST_USER_1, payload: { attachmentId: "a1" } });
+    await vi.waitFor(() => expect(realFs.readdirSync(userDir)).toEqual([]));
+  });
+
+  it("should relay call signals live only and tell callers when the callee is away", async () => {
+    const waitFor = (client: WebSocket, type: string) =>
+      new Promise<any>((resolve) => {
+        const handler = (data) => {
+          const msg = JSON.parse(data.toString());
+          if (msg.type === type) {
+            client.off("message", handler);
+            resolve(msg);
+          }
+        };
+        client.on("message", handler);
+      });
+    const sendOffer = (callId: string) =>
+      client1.send(
+        JSON.stringify({
+          type: "CALL_OFFER",
+          targetUserId: TEST_USER_2,
+          payload: { senderId: TEST_USER_1, callId, data: "sealed" },
+        }),
+      );
+
+    const offer = waitFor(client2, "CALL_OFFER");
+    sendOffer("call-1");
+    expect((await offer).payload).toMatchObject({ callId: "call-1", data: "sealed" });
+
+    await new Promise((resolve) => {
+      client2.on("close", resolve);
+      client2.close();
+    });
+    const unavailable = waitFor(client1, "CALL_UNAVAILABLE");
+    sendOffer("call-2");
+    expect(await unavailable).toMatchObject({ callId: "call-2", targetUserId: TEST_USER_2 });
+
+    // Nothing about the call waits for client 2 in the offline queue
+    const realFs = await vi.importActual<typeof import("fs")>("fs");
+    const offlineFile = new URL("../../server/data/offlineMessages.json", import.meta.url);
+    const queued = realFs.existsSync(offlineFile)
+      ? JSON.parse(realFs.readFileSync(offlineFile, "utf8"))[TEST_USER_2] || []
+      : [];
+    expect(queued.some((m) => m.type.startsWith("CALL_"))).toBe(false);
+  });
+
+  it("should keep the account after a failed AUTH and ask for the password to change it", async () => {
+    const waitFor = (client: WebSocket, type: string) =>
+      new Promise<any>((resolve) => {
+        const handler = (data) => {
+          const msg = JSON.parse(data.toString());
+          if (msg.type === type) {
+            client.off("message", handler);
+            resolve(msg);
+          }
+        };
+        client.on("message", handler);
+      });
+    const changePassword = (currentPassword: string) => {
+      const result = waitFor(client1, "CHANGE_PASSWORD_RESULT");
+      client1.send(JSON.stringify({ type: "CHANGE_PASSWORD", currentPassword, newPassword: "new-pass" }));
+      return result;
+    };
+    const authAs = async (userId: string, password: string) => {
+      const client = new WebSocket(WS_URL);
+      await new Promise((resolve) => client.on("open", resolve));
+      const result = waitFor(client, "AUTH_RESULT");
+      client.send(JSON.stringify({ type: "AUTH", userId, password }));
+      const msg = await result;
+      client.close();
+      return msg;
+    };
+
+    // A failed AUTH for another account leaves client 1 signed in as itself
+    const failed = waitFor(client1, "AUTH_RESULT");
+    client1.send(JSON.stringify({ type: "AUTH", userId: TEST_USER_2, password: "wrong" }));
+    expect(await failed).toMatchObject({ success: false, reason: "BAD_PASSWORD" });
+
+    expect(await changePassword("wrong")).toMatchObject({ success: false, reason: "BAD_PASSWORD" });
+    expect(await changePassword("password123")).toMatchObject({ success: true });
+
+    expect(await authAs(TEST_USER_1, "new-pass")).toMatchObject({ success: true });
+    expect(await authAs(TEST_USER_2, "password123")).toMatchObject({ success: true });
+  });
+
+  it("should only check the password on a verify-only AUTH", async () => {
+    const open = async () => {
+      const client = new WebSocket(WS_URL);
+      await new Promise((resolve) => client.on("open", resolve));
+      return client;
+    };
+    const auth = (client: WebSocket, message: object) =>
+      new Promise<any>((resolve) => {
+        const handler = (data) => {
+          const msg = JSON.parse(data.toString());
+          if (msg.type === "AUTH_RESULT") {
+            client.off("message", handler);
+            resolve(msg);
+          }
+        };
+        client.on("message", handler);
+        client.send(JSON.stringify({ type: "AUTH", userId: TEST_USER_2, ...message }));
+      });
+
+    const session = await open();
+    expect(await auth(session, { password: "password123" })).toMatchObject({ success: true });
+    const kicked = vi.fn();
+    session.on("close", kicked);
+
+    const checker = await open();
+    expect(await auth(checker, { password: "wrong", verifyOnly: true })).toMatchObject({
+      success: false,
+      reason: "BAD_PASSWORD",
+    });
+    const verified = await auth(checker, { password: "password123", verifyOnly: true });
+    expect(verified).toEqual({ type: "AUTH_RESULT", success: true, verifyOnly: true });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(kicked).not.toHaveBeenCalled();
+
+    checker.close();
+    session.close();
   });
 
   afterAll(() => {
@@ -172,3 +536,37 @@ describe("WebSocket Server", () => {
     if (client2) client2.close();
   });
 });
+
+describe("Password hashing", () => {
+  let hashPassword: (password: string) => string;
+  let verifyPassword: (
+    password: string,
+    storedHash: string,
+  ) => { ok: boolean; needsRehash: boolean };
+
+  beforeAll(async () => {
+    const module = await import("../../server/index.js");
+    hashPassword = module.hashPassword;
+    verifyPassword = module.verifyPassword;
+  });
+
+  it("should produce salted, versioned scrypt records", () => {
+    const a = hashPassword("password123");
+    const b = hashPassword("password123");
+    expect(a.startsWith("scrypt$1$")).toBe(true);
+    expect(a).not.toBe(b);
+    expect(verifyPassword("password123", a)).toEqual({ ok: true, needsRehash: false });
+    expect(verifyPassword("wrong", a).ok).toBe(false);
+  });
+
+  it("should accept legacy SHA-256 hashes and flag them for rehash", () => {
+    const legacy = createHash("sha256").update("password123").digest("hex");
+    expect(verifyPassword("password123", legacy)).toEqual({ ok: true, needsRehash: true });
+    expect(verifyPassword("wrong", legacy)).toEqual({ ok: false, needsRehash: false });
+  });
+
+  it("should reject malformed records", () => {
+    expect(verifyPassword("password123", "bcrypt$garbage").ok).toBe(false);
+    expect(verifyPassword("password123", "").ok).toBe(false);
+  });
+});
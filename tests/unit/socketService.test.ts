@@ -1,6 +1,10 @@
 // @vitest-environment jsdom
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { socketService } from "../../services/socketService";
+import { storageService } from "../../services/storageService";
+import { cryptoService } from "../../services/cryptoService";
+import { CHAT_ACK_TIMEOUT } from "../../constants";
+import { MessageStatus, MessageType } from "../../types";
 
 // Mock WebSocket
 class MockWebSocket {
@@ -37,6 +41,9 @@ describe("SocketService", () => {
     vi.useFakeTimers();
     // Reset socketService state if possible, or just disconnect
     socketService.disconnect();
+    // Stored keys are wrapped with the password of the test that created them, and a login
+    // without one (token re-auth) can't unlock them
+    localStorage.clear();
   });
 
   afterEach(() => {
@@ -71,4 +78,542 @@ describe("SocketService", () => {
     expect(sendSpy).toHaveBeenCalledWith(expect.stringContaining('"type":"AUTH"'));
     expect(sendSpy).toHaveBeenCalledWith(expect.stringContaining('"userId":"u1"'));
   });
+
+  it("should re-authenticate with the stored session token instead of a password", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await storageService.saveSessionToken("stored-token");
+    const sendSpy = vi.spyOn(MockWebSocket.prototype, "send");
+    sendSpy.mockClear();
+
+    await socketService.connect(user);
+    await vi.advanceTimersByTimeAsync(50);
+
+    const authFrame = JSON.parse(sendSpy.mock.calls[0][0]);
+    expect(authFrame).toMatchObject({ type: "AUTH", userId: "u1", token: "stored-token" });
+    expect(authFrame.password).toBeUndefined();
+  });
+
+  it("should only check the password when it doesn't unlock the stored keys", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await new (cryptoService.constructor as any)().init("u1", "old-password");
+    const results: any[] = [];
+    const off = socketService.onAuthResult((r) => results.push(r));
+    const sendSpy = vi.spyOn(MockWebSocket.prototype, "send");
+    sendSpy.mockClear();
+
+    await socketService.connect(user, "new-password");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    expect(JSON.parse(sendSpy.mock.calls[0][0])).toMatchObject({ type: "AUTH", verifyOnly: true });
+
+    // The server takes the password: the keys are still wrapped with the one used before
+    await socket.onmessage({
+      data: JSON.stringify({ type: "AUTH_RESULT", success: true, verifyOnly: true }),
+    });
+    expect(results).toEqual([{ success: false, reason: "KEYS_STALE" }]);
+    expect(socketService.getState()).toBe("DISCONNECTED");
+    off();
+  });
+
+  it("should reconnect with backoff after an established connection drops", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    const states: Array<[string, any]> = [];
+    const off = socketService.onConnectionChange((state, info) => states.push([state, info]));
+
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const first = (socketService as any).socket;
+    await first.onmessage({ data: JSON.stringify({ type: "AUTH_RESULT", success: true, token: "t1" }) });
+
+    first.onclose({ code: 1006 });
+    expect(socketService.getState()).toBe("RECONNECTING");
+    const info = socketService.getReconnectInfo();
+    expect(info?.attempt).toBe(1);
+    expect(states[states.length - 1]).toEqual(["RECONNECTING", info]);
+
+    const sendSpy = vi.spyOn(MockWebSocket.prototype, "send");
+    sendSpy.mockClear();
+    socketService.retryNow();
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(socketService.getState()).toBe("CONNECTED");
+    expect((socketService as any).socket).not.toBe(first);
+    expect(JSON.parse(sendSpy.mock.calls[0][0])).toMatchObject({ type: "AUTH", token: "t1" });
+    off();
+  });
+
+  it("should resolve sendMessage only after the server acknowledges it", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const encryptSpy = vi.spyOn(cryptoService, "encrypt").mockResolvedValue("iv:ciphertext");
+
+    const message = {
+      id: "m1",
+      conversationId: "c1",
+      senderId: "u1",
+      content: "hi",
+      type: MessageType.TEXT,
+      status: MessageStatus.PENDING,
+      timestamp: 1,
+    };
+    let settled = false;
+    const sent = socketService.sendMessage(message, "u2").finally(() => (settled = true));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled).toBe(false);
+
+    await socket.onmessage({
+      data: JSON.stringify({ type: "CHAT_ACK", messageId: "m1", success: true, delivery: "queued" }),
+    });
+    await expect(sent).resolves.toBe("queued");
+
+    // Without an ack the send times out instead of hanging forever
+    const unacked = socketService.sendMessage({ ...message, id: "m2" }, "u2");
+    const expectation = expect(unacked).rejects.toThrow("Send timed out");
+    await vi.advanceTimersByTimeAsync(CHAT_ACK_TIMEOUT);
+    await expectation;
+    encryptSpy.mockRestore();
+  });
+
+  it("should refuse to send in clear without the recipient's key", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const sendSpy = vi.spyOn((socketService as any).socket, "send");
+    sendSpy.mockClear();
+
+    const message = {
+      id: "m1",
+      conversationId: "c1",
+      senderId: "u1",
+      content: "hi",
+      type: MessageType.TEXT,
+      status: MessageStatus.PENDING,
+      timestamp: 1,
+    };
+    await expect(socketService.sendMessage(message, "u2")).rejects.toThrow("No shared key");
+    expect(sendSpy).not.toHaveBeenCalled();
+  });
+
+  it("should keep undecryptable messages sealed and open them once the key arrives", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const received: any[] = [];
+    const off = socketService.onMessage((m) => received.push(m));
+
+    // The sender encrypts with a key we only learn about afterwards
+    const sender = new (cryptoService.constructor as any)();
+    const senderKey = await sender.init("u7");
+    await sender.computeSharedSecret("u1", cryptoService.getPublicKey());
+    // Chat ciphertext is bound to the message id and timestamp
+    const sealed = await sender.encrypt("secret hello", "u1", "m7|1");
+    const base = {
+      id: "m7",
+      conversationId: "c7",
+      senderId: "u7",
+      type: MessageType.TEXT,
+      status: MessageStatus.SENT,
+      timestamp: 1,
+    };
+
+    await socket.onmessage({ data: JSON.stringify({ type: "CHAT", payload: { ...base, content: sealed } }) });
+    expect(received[0]).toMatchObject({ id: "m7", content: sealed, sealed: true });
+
+    await socket.onmessage({
+      data: JSON.stringify({ type: "STATUS_UPDATE", userId: "u7", status: "online", publicKey: senderKey }),
+    });
+    expect(await socketService.openSealed(received[0])).toEqual({
+      ...base,
+      content: "secret hello",
+      encrypted: true,
+      verified: false,
+    });
+
+    // Plain text from a sender who doesn't encrypt is shown, but flagged as such
+    await socket.onmessage({
+      data: JSON.stringify({ type: "CHAT", payload: { ...base, id: "m8", content: "in clear" } }),
+    });
+    expect(received[1]).toMatchObject({ content: "in clear", encrypted: false });
+    expect(received[1].sealed).toBeUndefined();
+    off();
+  });
+
+  it("should drop redelivered messages and ciphertext moved to another message", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const received: any[] = [];
+    const off = socketService.onMessage((m) => received.push(m));
+
+    const sender = new (cryptoService.constructor as any)();
+    const senderKey = await sender.init("u10");
+    await sender.computeSharedSecret("u1", cryptoService.getPublicKey());
+    await socket.onmessage({
+      data: JSON.stringify({ type: "STATUS_UPDATE", userId: "u10", status: "online", publicKey: senderKey }),
+    });
+    const content = await sender.encrypt("hello once", "u1", "m20|5");
+    const base = {
+      conversationId: "c10",
+      senderId: "u10",
+      type: MessageType.TEXT,
+      status: MessageStatus.SENT,
+      timestamp: 5,
+    };
+    const frame = JSON.stringify({ type: "CHAT", payload: { ...base, id: "m20", content } });
+
+    await socket.onmessage({ data: frame });
+    await socket.onmessage({ data: frame });
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ id: "m20", content: "hello once" });
+
+    await socket.onmessage({
+      data: JSON.stringify({ type: "CHAT", payload: { ...base, id: "m21", content } }),
+    });
+    expect(received[1]).toMatchObject({ id: "m21", sealed: true });
+    off();
+  });
+
+  it("should only take chat content signed by a sender who signs", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const received: any[] = [];
+    const off = socketService.onMessage((m) => received.push(m));
+
+    const sender = new (cryptoService.constructor as any)();
+    await socket.onmessage({
+      data: JSON.stringify({
+        type: "GET_PUBLIC_KEY_RESULT",
+        userId: "u11",
+        publicKey: await sender.init("u11"),
+        preKeyBundle: sender.getPreKeyBundle(),
+      }),
+    });
+    const base = {
+      conversationId: "c11",
+      senderId: "u11",
+      type: MessageType.TEXT,
+      status: MessageStatus.SENT,
+      timestamp: 7,
+    };
+    const signedContent = async (id: string, content: string) => {
+      const body = { id, conversationId: "c11", type: MessageType.TEXT, timestamp: 7, content };
+      const value = await sender.sign(`CHAT|u11|u1|1|${JSON.stringify(body)}`);
+      return JSON.stringify({ ...body, sig: { from: "u11", to: "u1", at: 1, value } });
+    };
+    const deliver = async (id: string, content: string, from = "u11") =>
+      socket.onmessage({
+        data: JSON.stringify({ type: "CHAT", from, payload: { ...base, id, content } }),
+      });
+
+    await deliver("m30", await signedContent("m30", "signed hello"));
+    expect(received).toEqual([{ ...base, id: "m30", content: "signed hello", encrypted: false }]);
+
+    // Unsigned, signed for another message, or relayed from someone else
+    await deliver("m31", "unsigned hello");
+    await deliver("m32", await signedContent("m33", "moved hello"));
+    await deliver("m34", await signedContent("m34", "relayed hello"), "u12");
+    expect(received).toHaveLength(1);
+    off();
+  });
+
+  it("should send read receipts in one frame and surface incoming ones", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const sendSpy = vi.spyOn(socket, "send");
+    sendSpy.mockClear();
+
+    expect(await socketService.sendReadReceipts("c1", ["m1", "m2"], "u2")).toBe(true);
+    expect(JSON.parse(sendSpy.mock.calls[0][0] as string)).toMatchObject({
+      type: "MESSAGE_READ",
+      targetUserId: "u2",
+      payload: { conversationId: "c1", messageIds: ["m1", "m2"], sig: { from: "u1", to: "u2" } },
+    });
+
+    const receipts: any[] = [];
+    const off = socketService.onReadReceipt((r) => receipts.push(r));
+    const payload = { conversationId: "c1", messageIds: ["m3"] };
+    await socket.onmessage({ data: JSON.stringify({ type: "MESSAGE_READ", payload, from: "u2" }) });
+    // Receipts the server can't attribute to a sender are dropped
+    await socket.onmessage({ data: JSON.stringify({ type: "MESSAGE_READ", payload }) });
+    expect(receipts).toEqual([{ conversationId: "c1", messageIds: ["m3"], from: "u2" }]);
+    off();
+
+    socketService.disconnect();
+    expect(await socketService.sendReadReceipts("c1", ["m4"], "u2")).toBe(false);
+  });
+
+  it("should relay typing signals with the sender id, and drop unsigned ones once they're verified", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const sendSpy = vi.spyOn(socket, "send");
+    sendSpy.mockClear();
+
+    await socketService.sendTyping("c1", "u2", true);
+    expect(JSON.parse(sendSpy.mock.calls[0][0] as string)).toMatchObject({
+      type: "TYPING",
+      targetUserId: "u2",
+      payload: { conversationId: "c1", userId: "u1", isTyping: true, sig: { from: "u1", to: "u2" } },
+    });
+
+    const signals: any[] = [];
+    const unverified: string[] = [];
+    const off = socketService.onTyping((s) => signals.push(s));
+    const offUnverified = socketService.onUnverifiedSender((userId) => unverified.push(userId));
+    const deliver = () =>
+      socket.onmessage({
+        data: JSON.stringify({
+          type: "TYPING",
+          payload: { conversationId: "c1", userId: "u2", isTyping: false },
+        }),
+      });
+    await deliver();
+    expect(signals).toEqual([{ conversationId: "c1", userId: "u2", isTyping: false }]);
+    expect(unverified).toEqual(["u2"]);
+    expect(socketService.getUnverifiedSenders()).toEqual(["u2"]);
+
+    // Once their safety number is verified, the server can't pass off unsigned signals as theirs
+    await storageService.setContactVerified("u2", "u2-key");
+    await deliver();
+    expect(signals).toHaveLength(1);
+    off();
+    offUnverified();
+  });
+
+  it("should verify signed signals and drop forged ones", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+
+    // The sender's signing key is pinned from its prekey bundle
+    const sender = new (cryptoService.constructor as any)();
+    const senderKey = await sender.init("u8");
+    await socket.onmessage({
+      data: JSON.stringify({
+        type: "GET_PUBLIC_KEY_RESULT",
+        userId: "u8",
+        publicKey: senderKey,
+        preKeyBundle: sender.getPreKeyBundle(),
+      }),
+    });
+    const signAccept = async (body: object, to = "u1") => {
+      const sig = { from: "u8", to, at: 1 };
+      const value = await sender.sign(`FRIEND_ACCEPT|u8|${to}|1|${JSON.stringify(body)}`);
+      return { ...body, sig: { ...sig, value } };
+    };
+    const accepts: any[] = [];
+    const off = socketService.onFriendAccept((p) => accepts.push(p));
+    const deliver = async (payload: object) =>
+      socket.onmessage({ data: JSON.stringify({ type: "FRIEND_ACCEPT", payload }) });
+
+    const body = { user: { id: "u8", username: "eve" } };
+    await deliver(await signAccept(body));
+    expect(accepts).toEqual([{ ...body, verified: true }]);
+
+    // Tampered, addressed to someone else, or stripped of its signature
+    const forged = await signAccept(body);
+    await deliver({ ...forged, user: { id: "u8", username: "mallory" } });
+    await deliver(await signAccept(body, "u3"));
+    await deliver(body);
+    expect(accepts).toHaveLength(1);
+    off();
+  });
+
+  it("should carry edits in an opaque signal body and decode incoming ones", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const sendSpy = vi.spyOn(socket, "send");
+    sendSpy.mockClear();
+    const encryptSpy = vi.spyOn(cryptoService, "encrypt").mockResolvedValue("iv:ciphertext");
+
+    await socketService.sendMessageUpdate(
+      { kind: "edit", messageId: "m1", conversationId: "c1", senderId: "u1", content: "new", at: 5 },
+      "u2",
+    );
+    const frame = JSON.parse(sendSpy.mock.calls[0][0] as string);
+    expect(frame).toMatchObject({ type: "MESSAGE_EDIT", targetUserId: "u2" });
+    expect(Object.keys(frame.payload).sort()).toEqual(["data", "senderId"]);
+    expect(frame.payload.senderId).toBe("u1");
+
+    const updates: any[] = [];
+    const off = socketService.onMessageUpdate((u) => updates.push(u));
+    const recall = (from: string) =>
+      socket.onmessage({
+        data: JSON.stringify({
+          type: "MESSAGE_RECALL",
+          from,
+          payload: {
+            senderId: "u2",
+            data: JSON.stringify({ messageId: "m9", conversationId: "c1", at: 7 }),
+          },
+        }),
+      });
+    await recall("u2");
+    // Someone else relaying a signal in u2's name
+    await recall("u3");
+    expect(updates).toEqual([
+      {
+        kind: "recall",
+        messageId: "m9",
+        conversationId: "c1",
+        senderId: "u2",
+        content: undefined,
+        at: 7,
+      },
+    ]);
+    off();
+    encryptSpy.mockRestore();
+  });
+
+  it("should encrypt group sends once under a sender key, with pairwise copies where needed", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const sendSpy = vi.spyOn(socket, "send");
+    sendSpy.mockClear();
+    // Only u2 has a pairwise key, so only u2 can be handed the sender key
+    vi.spyOn(cryptoService, "hasSharedKey").mockImplementation((id) => id === "u2");
+    const encryptSpy = vi.spyOn(cryptoService, "encrypt").mockImplementation(async (text, id) => {
+      if (id !== "u2") throw new Error("No shared key");
+      return `pairwise(${text})`;
+    });
+
+    const groupsSeen: any[][] = [];
+    const off = socketService.onGroupsChange((groups) => groupsSeen.push(groups));
+    const group = { id: "g1", name: "Team", ownerId: "u1", members: ["u1", "u2", "u3"], createdAt: 1 };
+    await socket.onmessage({ data: JSON.stringify({ type: "GROUP_LIST", groups: [group] }) });
+    expect(socketService.getGroup("g1")).toEqual(group);
+
+    const sent = socketService.sendMessage(
+      {
+        id: "m1",
+        conversationId: "g1",
+        senderId: "u1",
+        content: "hi all",
+        type: MessageType.TEXT,
+        status: MessageStatus.PENDING,
+        timestamp: 1,
+      },
+      "g1",
+    );
+    await vi.waitFor(() => expect(sendSpy).toHaveBeenCalledTimes(2));
+    const [keyFrame, frame] = sendSpy.mock.calls.map((c) => JSON.parse(c[0] as string));
+    expect(keyFrame).toMatchObject({ type: "SENDER_KEY", targetUserId: "u2" });
+    expect(keyFrame.payload.data).toMatch(/^pairwise\(/);
+    expect(frame).toMatchObject({ type: "CHAT", groupId: "g1", payload: { id: "m1", groupId: "g1" } });
+    expect(frame.targetUserId).toBeUndefined();
+    expect(cryptoService.isGroupCiphertext(frame.payload.content)).toBe(true);
+    expect(frame.payload.content).not.toContain("hi all");
+    // u3 never got the sender key and there is no pairwise key to send a copy under either:
+    // strict mode sends nothing in clear, u3 reads it once it has our sender key
+    expect(frame.perMember).toEqual({});
+    await socket.onmessage({
+      data: JSON.stringify({ type: "CHAT_ACK", messageId: "m1", success: true, delivery: "relayed" }),
+    });
+    await expect(sent).resolves.toBe("relayed");
+
+    // An update that no longer lists us drops the group
+    await socket.onmessage({
+      data: JSON.stringify({
+        type: "GROUP_UPDATE",
+        payload: { group: { ...group, members: ["u2", "u3"] } },
+      }),
+    });
+    expect(socketService.getGroup("g1")).toBeUndefined();
+    expect(groupsSeen.map((gs) => gs.length)).toEqual([1, 0]);
+    expect(cryptoService.getSenderKey("g1")).toBeNull();
+    off();
+    encryptSpy.mockRestore();
+    vi.mocked(cryptoService.hasSharedKey).mockRestore();
+  });
+
+  it("should only take group messages fanned out to the group by its members", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    const received: any[] = [];
+    const off = socketService.onMessage((m) => received.push(m));
+    const group = { id: "g2", name: "Team", ownerId: "u1", members: ["u1", "u2"], createdAt: 1 };
+    await socket.onmessage({ data: JSON.stringify({ type: "GROUP_LIST", groups: [group] }) });
+
+    const base = {
+      conversationId: "g2",
+      type: MessageType.TEXT,
+      status: MessageStatus.SENT,
+      timestamp: 1,
+      content: "hi team",
+    };
+    const deliver = (payload: any, from: string) =>
+      socket.onmessage({ data: JSON.stringify({ type: "CHAT", from, payload }) });
+
+    // A non-member, a member writing to us directly, and fan-out of another group
+    await deliver({ ...base, id: "m40", senderId: "u3", groupId: "g2" }, "u3");
+    await deliver({ ...base, id: "m41", senderId: "u2" }, "u2");
+    await deliver({ ...base, id: "m42", senderId: "u2", groupId: "g3" }, "u2");
+    await deliver({ ...base, id: "m43", conversationId: "c2", senderId: "u2", groupId: "g2" }, "u2");
+    expect(received).toEqual([]);
+
+    await deliver({ ...base, id: "m44", senderId: "u2", groupId: "g2" }, "u2");
+    expect(received).toEqual([{ ...base, id: "m44", senderId: "u2", verified: false, encrypted: false }]);
+    off();
+  });
+
+  it("should fetch unknown keys from the directory before encrypting, and cache them", async () => {
+    const user = { id: "u1", username: "test", avatar: "", status: "online" as const };
+    await socketService.connect(user, "secret");
+    await vi.advanceTimersByTimeAsync(50);
+    const socket = (socketService as any).socket;
+    await socket.onmessage({ data: JSON.stringify({ type: "AUTH_RESULT", success: true }) });
+    const sendSpy = vi.spyOn(socket, "send");
+    sendSpy.mockClear();
+
+    const peer = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, [
+      "deriveKey",
+    ]);
+    const peerKey = JSON.stringify(await crypto.subtle.exportKey("jwk", peer.publicKey));
+    expect(cryptoService.hasSharedKey("u9")).toBe(false);
+
+    const sent = socketService.sendMessage(
+      {
+        id: "m1",
+        conversationId: "c9",
+        senderId: "u1",
+        content: "first contact",
+        type: MessageType.TEXT,
+        status: MessageStatus.PENDING,
+        timestamp: 1,
+      },
+      "u9",
+    );
+    await vi.waitFor(() => expect(sendSpy).toHaveBeenCalledTimes(1));
+    expect(JSON.parse(sendSpy.mock.calls[0][0] as string)).toEqual({ type: "GET_PUBLIC_KEY", userId: "u9" });
+
+    await socket.onmessage({
+      data: JSON.stringify({ type: "GET_PUBLIC_KEY_RESULT", userId: "u9", publicKey: peerKey }),
+    });
+    await vi.waitFor(() => expect(sendSpy).toHaveBeenCalledTimes(2));
+    const frame = JSON.parse(sendSpy.mock.calls[1][0] as string);
+    expect(frame).toMatchObject({ type: "CHAT", targetUserId: "u9" });
+    expect(frame.payload.content).not.toBe("first contact");
+    expect((await storageService.getPublicKeys())["u9"]).toBe(peerKey);
+
+    await socket.onmessage({
+      data: JSON.stringify({ type: "CHAT_ACK", messageId: "m1", success: true, delivery: "queued" }),
+    });
+    await expect(sent).resolves.toBe("queued");
+  });
 });
@@ -8,7 +8,7 @@ if (typeof globalThis.window === "undefined") {
 }
 
 import { storageService } from "../../services/storageService";
-import { User } from "../../types";
+import { MessageStatus, User } from "../../types";
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -83,6 +83,50 @@ describe("StorageService", () => {
       expect(raw).toBeTruthy();
       expect(raw).toContain("m1");
     });
+
+    it("should update message status without touching the conversation", async () => {
+      const user: User = { id: "u1", username: "test", status: "online" };
+      await storageService.setCurrentUser(user);
+      await storageService.saveMessage({
+        id: "m1",
+        conversationId: "c1",
+        senderId: "u9",
+        content: "hi",
+        status: MessageStatus.SENT,
+        timestamp: 1,
+      } as any);
+      const before = await storageService.getConversations();
+
+      await storageService.updateMessageStatus(["m1"], MessageStatus.READ);
+
+      const [msg] = await storageService.getMessages("c1");
+      expect(msg.status).toBe(MessageStatus.READ);
+      expect(await storageService.getConversations()).toEqual(before);
+    });
+
+    it("should store one reaction per user and emoji", async () => {
+      const user: User = { id: "u1", username: "test", status: "online" };
+      await storageService.setCurrentUser(user);
+      const reaction = { messageId: "m1", conversationId: "c1", userId: "u1", emoji: "👍", createdAt: 1 };
+
+      await storageService.addReaction(reaction);
+      await storageService.addReaction(reaction);
+      await storageService.addReaction({ ...reaction, emoji: "🎉", createdAt: 2 });
+      expect((await storageService.getReactions("c1")).map((r) => r.emoji)).toEqual(["👍", "🎉"]);
+
+      await storageService.removeReaction("m1", "u1", "👍");
+      expect((await storageService.getReactions("c1")).map((r) => r.emoji)).toEqual(["🎉"]);
+    });
+
+    it("should remember which identity key a contact was verified with", async () => {
+      const user: User = { id: "u1", username: "test", status: "online" };
+      await storageService.setCurrentUser(user);
+
+      await storageService.setContactVerified("bob", "key-bob");
+      await storageService.setContactVerified("carol", "key-carol");
+      await storageService.setContactVerified("carol", null);
+      expect(await storageService.getVerifiedContacts()).toEqual({ bob: "key-bob" });
+    });
   });
 
   describe("Electron Mode", () => {
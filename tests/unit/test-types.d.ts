@@ -26,4 +26,9 @@ declare module "../../electron/dbService" {
 declare module "../../server/index.js" {
   import { WebSocketServer } from "ws";
   export function startServer(port: number, host?: string): WebSocketServer;
+  export function hashPassword(password: string): string;
+  export function verifyPassword(
+    password: string,
+    storedHash: string,
+  ): { ok: boolean; needsRehash: boolean };
 }
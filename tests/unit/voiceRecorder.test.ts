@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RecorderLike, toWaveform, VoiceRecorder } from "../../services/voiceRecorder";
+
+// Synthetic microphone: a stream with one track, a recorder that hands out a blob per start/stop,
+// and a meter replaying fixed input levels
+class FakeRecorder implements RecorderLike {
+  mimeType = "audio/webm;codecs=opus";
+  ondataavailable: ((event: BlobEvent) => void) | null = null;
+  onstop: ((event: Event) => void) | null = null;
+  state = "inactive";
+  start() {
+    this.state = "recording";
+  }
+  stop() {
+    this.state = "inactive";
+    this.ondataavailable?.({ data: new Blob([new Uint8Array([1, 2, 3, 4])]) } as BlobEvent);
+    this.onstop?.(new Event("stop"));
+  }
+}
+
+describe("VoiceRecorder", () => {
+  let clock = 0;
+  let track: { stop: ReturnType<typeof vi.fn> };
+  let recorder: FakeRecorder;
+  let meterClosed: boolean;
+  let voice: VoiceRecorder;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clock = 1000;
+    track = { stop: vi.fn() };
+    meterClosed = false;
+    const levels = [0.1, 0.4, 0.2, 0.8];
+    let sample = 0;
+    voice = new VoiceRecorder({
+      getStream: async () => ({ getTracks: () => [track] }) as unknown as MediaStream,
+      createRecorder: () => (recorder = new FakeRecorder()),
+      createLevelMeter: () => ({
+        read: () => levels[sample++ % levels.length],
+        close: () => {
+          meterClosed = true;
+        },
+      }),
+      now: () => clock,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should record with duration and waveform, then release the microphone", async () => {
+    await voice.start();
+    expect(voice.isRecording()).toBe(true);
+    expect(recorder.state).toBe("recording");
+
+    vi.advanceTimersByTime(2000);
+    clock += 2000;
+    // FileReader completes on a real timer
+    vi.useRealTimers();
+    const recording = await voice.stop();
+
+    expect(recording).toMatchObject({ mimeType: "audio/webm", duration: 2000 });
+    expect(Array.from(recording!.bytes)).toEqual([1, 2, 3, 4]);
+    expect(recording!.waveform).toHaveLength(40);
+    expect(Math.max(...recording!.waveform)).toBe(1);
+    expect(track.stop).toHaveBeenCalled();
+    expect(meterClosed).toBe(true);
+    expect(voice.isRecording()).toBe(false);
+  });
+
+  it("should discard taps and cancelled recordings", async () => {
+    await voice.start();
+    clock += 200;
+    expect(await voice.stop()).toBeNull();
+
+    await voice.start();
+    await voice.cancel();
+    expect(voice.isRecording()).toBe(false);
+    expect(track.stop).toHaveBeenCalledTimes(2);
+  });
+
+  it("should tell the caller when the time limit is reached", async () => {
+    const onLimit = vi.fn();
+    voice.onLimitReached = onLimit;
+    await voice.start();
+    vi.advanceTimersByTime(60 * 1000);
+    expect(onLimit).toHaveBeenCalledTimes(1);
+    await voice.cancel();
+  });
+
+  it("should scale waveform peaks to the loudest bar", () => {
+    expect(toWaveform([0.1, 0.2, 0.4, 0.2], 2)).toEqual([0.5, 1]);
+    expect(toWaveform([], 3)).toEqual([0, 0, 0]);
+  });
+});
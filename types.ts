@@ -2,12 +2,21 @@ export enum MessageStatus {
   PENDING = "PENDING",
   SENT = "SENT",
   DELIVERED = "DELIVERED",
+  READ = "READ",
   FAILED = "FAILED",
+  // Held back: strict encryption is on and we don't have the recipient's key yet
+  PENDING_KEY = "PENDING_KEY",
 }
 
 export enum MessageType {
   TEXT = "TEXT",
   IMAGE = "IMAGE",
+  FILE = "FILE",
+  AUDIO = "AUDIO",
+  // Local notices (e.g. a contact's key changed); never sent over the wire
+  SYSTEM = "SYSTEM",
+  // Local call log entry, written by each side when a call ends; never sent either
+  CALL = "CALL",
 }
 
 export interface User {
@@ -22,29 +31,146 @@ export interface User {
 export interface FriendRequest {
   fromUser: User;
   timestamp: number;
+  // false when the request carried no signature we could check
+  verified?: boolean;
 }
 
 export interface Message {
   id: string;
   conversationId: string;
   senderId: string;
-  content: string; // Text content or Base64 image string
+  content: string; // Text content, or for images the stored file (Electron) / data URL (browser)
   type: MessageType;
   status: MessageStatus;
   timestamp: number;
+  replyToId?: string; // Id of the quoted message, if this is a reply
+  editedAt?: number;
+  editHistory?: MessageEdit[]; // Previous versions, oldest first
+  recalledAt?: number; // Set on recall; content is cleared and only this tombstone remains
+  encrypted?: boolean; // Travelled end-to-end encrypted; false when it went in clear, unset on old records
+  sealed?: boolean; // Content is still ciphertext because the key was missing; opened once it arrives
+  verified?: boolean; // false when it carried no signature we could check; unset when signed
+  attachment?: Attachment; // Images, files and voice: how to decrypt the file; content stays empty until it is received
+  call?: CallRecord; // CALL messages; content holds the summary shown in previews
+}
+
+export type CallMedia = "audio" | "video";
+
+// How a call ended, from the point of view of whoever logs it
+export type CallOutcome =
+  | "completed" // was answered; duration is set (0 when the media never started flowing)
+  | "missed" // incoming, never answered
+  | "declined" // rejected by the callee
+  | "cancelled" // hung up by the caller before it was answered
+  | "unanswered" // outgoing, the callee never picked up or wasn't reachable
+  | "failed"; // answered, but no connection could be established
+
+export interface CallRecord {
+  media: CallMedia;
+  direction: "outgoing" | "incoming";
+  outcome: CallOutcome;
+  duration?: number; // ms
+}
+
+// Describes an encrypted file. It travels as the (end-to-end encrypted) content of the chat
+// message, while the file itself follows in ATTACHMENT_CHUNK frames sealed with `key`.
+export interface Attachment {
+  id: string;
+  key: string; // AES-256-GCM file key, base64
+  digest: string; // SHA-256 of the plaintext, base64
+  size: number;
+  mimeType: string;
+  name?: string; // Original file name (FILE messages)
+  duration?: number; // Length in ms (AUDIO messages)
+  waveform?: number[]; // Input levels, 0..1, for drawing the recording (AUDIO messages)
+  chunkSize: number;
+  chunks: number;
+}
+
+// One encrypted piece of an attachment, as relayed by the server
+export interface AttachmentChunk {
+  attachmentId: string;
+  index: number;
+  total: number;
+  data: string; // ciphertext and GCM tag, base64
+  from?: string; // on received chunks: the uploader, as the server authenticated them
+}
+
+// A received message whose file is still on its way
+export interface ReceivingAttachment {
+  messageId: string;
+  conversationId: string;
+}
+
+export interface MessageEdit {
+  content: string;
+  editedAt: number; // When this version was replaced
+}
+
+// Edit or recall of an earlier message, carried by MESSAGE_EDIT / MESSAGE_RECALL
+export interface MessageUpdate {
+  kind: "edit" | "recall";
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  content?: string; // New text (edits only)
+  at: number;
+}
+
+export interface Reaction {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  emoji: string;
+  createdAt: number;
+}
+
+// Reaction added or removed by the sender of a REACTION signal
+export interface ReactionUpdate {
+  action: "add" | "remove";
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  emoji: string;
+  at: number;
+}
+
+// Outgoing message waiting in the client outbox until the server has accepted it
+export interface OutboxEntry {
+  message: Message;
+  recipientId: string;
+  queuedAt: number;
 }
 
 export interface Conversation {
   id: string;
-  participantId: string; // The other person
+  participantId: string; // The other person (for groups: the group id)
   unreadCount: number;
   lastMessage?: Message;
   updatedAt: number;
+  kind?: "direct" | "group"; // Missing on records from before groups existed: direct
+  name?: string; // Group name
+  participantIds?: string[]; // Group members, including ourselves
+}
+
+// Server-side group as sent in GROUP_LIST / GROUP_UPDATE
+export interface Group {
+  id: string;
+  name: string;
+  ownerId: string;
+  members: string[];
+  createdAt: number;
 }
 
 export interface AppSettings {
   theme: "light" | "dark";
   notificationsEnabled: boolean;
+  // Whether to tell senders when their messages have been read
+  readReceiptsEnabled?: boolean;
+  // Hold back new messages to a contact whose safety number changed until the change is acknowledged
+  blockOnKeyChange?: boolean;
+  // Never fall back to plain text: sends wait for the recipient's key (default on)
+  strictEncryption?: boolean;
   logLevel: "info" | "warn" | "error";
   // Optional server configuration for signaling
   serverHost?: string;